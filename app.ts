@@ -1,28 +1,32 @@
 import * as path from 'path';
-import MinecraftProxy from '.';
+import MinecraftProxy, { loadConfigFile, ConfigFileWatcher, ConfigurationError, logger } from '.';
 
-// TODO: read a configuration file or something
 async function main() {
-  let server = process.argv[2];
-  let serverPort = +process.argv[3] ?? 25565;
-  let proxy = new MinecraftProxy({
-    serverAddress: server,
-    serverPort,
-    username: '', // placeholder for authentication modules
-    // password: '', // if not using external authentication, load password
-    version: '1.16.1',
-    modules: [
-      'eval',
-      'auth-multimc',
-      // 'auth-minecraftlauncher', // uncomment if using the minecraft launcher
-      'misc'
-    ],
-    modulesDir: path.resolve('./build/modules'),
-    moduleConfig: {
-      // 'test': { asdf: 'hi!' }
-    },
-    commandPrefix: '/p:'
-  });
+  let configPath = path.resolve(process.argv[2] ?? process.env.PROXY_CONFIG ?? 'config.yml');
+  let config;
+  try {
+    config = await loadConfigFile(configPath);
+  } catch (err) {
+    if (!(err instanceof ConfigurationError)) throw err;
+    logger.error(err.message);
+    process.exitCode = 1;
+    return;
+  }
+  let proxy = new MinecraftProxy(config);
+  let watcher = new ConfigFileWatcher(configPath, newConfig => proxy.reloadConfig(newConfig));
+  watcher.start();
+  // close console sessions and remove the console socket before exiting
+  let shutdown = async () => {
+    watcher.stop();
+    try {
+      await proxy.console.stop();
+    } catch (err) {
+      logger.error('failed to stop console', err);
+    }
+    process.exit();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
 }
 
 main();
@@ -1,13 +1,66 @@
 export { default } from './src/proxy';
 export type { ProxyConfiguration } from './src/proxy';
-export { Module } from './src/module';
-export { Hook, Direction, EventAction } from './src/hook';
-export type { EventHandler } from './src/hook';
+export { loadConfigFile, ConfigFileWatcher, ConfigurationError } from './src/config';
+export { Module, ModuleWatcher, ModuleDependencyError, ModuleCycleError } from './src/module';
+export { Hook, Direction, EventAction, ANY_TYPE, HookTimeoutError, HookOrderError } from './src/hook';
+export type {
+  EventHandler,
+  HookFilter,
+  HookOptions,
+  HookErrorPolicy,
+  HookStats,
+  ReleaseFunction
+} from './src/hook';
+export { PacketPipeline } from './src/pipeline';
+export type { PipelineMetrics } from './src/pipeline';
 export { default as logger } from './src/logger';
+export { WorldState } from './src/world-state';
+export type { ReconnectConfiguration, ReconnectAttempt } from './src/reconnect';
+export {
+  PacketRecorder,
+  RecordingReader,
+  RecordingFormatError,
+  RecordFlags,
+  readRecording
+} from './src/recording';
+export type { RecordingHeader, PacketRecord } from './src/recording';
+export { VersionData, VersionDataError } from './src/data';
+export type { BlockData, ItemData, EntityData, SoundData, PacketData } from './src/data';
 export {
   Command,
   CommandGraph,
   CommandNode,
-  CommandContext
+  CommandContext,
+  CommandAbortedError,
+  DEFAULT_COMMAND_TIMEOUT
+} from './src/command';
+export type {
+  CommandDescriptor,
+  CommandHandler,
+  ContextFactory,
+  Suggestion,
+  SuggestionContext,
+  SuggestionProvider,
+  SuggestionResult
 } from './src/command';
-export type { CommandDescriptor, CommandHandler } from './src/command';
+export { CommandSyntaxError, StringArgumentMode, numberRange } from './src/command-parser';
+export type { Coordinate, PositionArgument, NumberRangeProperties } from './src/command-parser';
+export {
+  ChatBuilder,
+  ChatPosition,
+  chat,
+  translate,
+  toComponent,
+  serializeChat,
+  parseChat,
+  toPlainText,
+  toLegacy,
+  fromLegacy,
+  formatLegacy,
+  toAnsi
+} from './src/chat';
+export type { ChatComponent, ChatInput, ChatColor, ChatStyle, ClickEvent, HoverEvent } from './src/chat';
+export { PagedOutput, OutputStore } from './src/pagination';
+export type { PaginateOptions } from './src/pagination';
+export { AdminConsole, ConsoleSession, ConsoleCommandContext } from './src/console';
+export type { EvalResult } from './src/console';
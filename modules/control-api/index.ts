@@ -0,0 +1,464 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { Socket } from 'net';
+import WebSocket from 'ws';
+import type mc from 'minecraft-protocol';
+import {
+  Module,
+  Hook,
+  Direction,
+  ANY_TYPE,
+  CommandContext,
+  ChatComponent,
+  ChatInput,
+  PaginateOptions,
+  chat,
+  fromLegacy,
+  toComponent,
+  toPlainText,
+  logger
+} from '../..';
+import type { Event } from '../../src/hook';
+
+/** HTTP and WebSocket API to control the proxy from scripts and dashboards */
+
+/** Largest accepted request body, in bytes */
+const MAX_BODY_SIZE = 1024 * 1024;
+/** Packets are dropped for subscribers with more unsent data than this, in bytes */
+const MAX_BUFFERED = 4 * 1024 * 1024;
+
+/** Module configuration */
+interface ControlApiConfiguration {
+  /** Address to listen on */
+  host: string;
+  /** Port to listen on */
+  port: number;
+  /** Token clients must provide, generated on load if not set */
+  token: string | null;
+}
+
+const DEFAULT_OPTIONS: ControlApiConfiguration = {
+  host: '127.0.0.1',
+  port: 25580,
+  token: null
+};
+
+/** Thrown by route handlers to respond with an error */
+class ApiError extends Error {
+  /**
+   * The constructor
+   * @param status HTTP status code
+   * @param message
+   */
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Packets a WebSocket subscriber wants to receive */
+interface PacketFilter {
+  /** Packet types, or null for all */
+  types: Set<string> | null;
+  /** Direction, or null for both */
+  direction: Direction | null;
+}
+
+/** Handles a request, the result is sent as JSON */
+type RouteHandler = (body: any, params: string[]) => Promise<any> | any;
+
+/** Context of a command executed through the API, replies are collected */
+class ApiCommandContext extends CommandContext {
+  /** Replies of the command */
+  public output: ChatComponent[] = [];
+
+  /**
+   * The constructor
+   * @param args
+   * @param module Module the command was executed through, owns the command
+   */
+  constructor(args: string[], module: ControlApiModule) {
+    super(args, module.proxy, null);
+    this.owner = module;
+  }
+
+  reply(message: ChatInput) {
+    this.output.push(toComponent(message));
+  }
+
+  paginate(output: ChatInput | ChatInput[], options: PaginateOptions = {}) {
+    if (options.title) {
+      this.reply(typeof options.title === 'string' ? chat(options.title).color('gold') : options.title);
+    }
+    for (let line of Array.isArray(output) ? output : [output]) {
+      this.reply(typeof line === 'string' ? fromLegacy(line) : line);
+    }
+  }
+}
+
+/**
+ * Serialize a packet for subscribers. Buffers are encoded as base64.
+ * @param direction
+ * @param type
+ * @param data
+ */
+function serializePacket(direction: Direction, type: string, data: any): string {
+  return JSON.stringify({ direction: Direction[direction], type, time: Date.now(), data }, function (key, value) {
+    let original = this[key];
+    if (Buffer.isBuffer(original)) return original.toString('base64');
+    if (typeof value === 'bigint') return value.toString();
+    return value;
+  });
+}
+
+/**
+ * Parse a direction name
+ * @param name
+ */
+function parseDirection(name: string): Direction {
+  let direction = [Direction.ClientToServer, Direction.ServerToClient]
+    .find(direction => Direction[direction].toLowerCase() === name.toLowerCase());
+  if (direction === undefined) throw new ApiError(400, `invalid direction: ${name}`);
+  return direction;
+}
+
+export default class ControlApiModule extends Module {
+  public name = 'control-api';
+  /** HTTP server, if listening */
+  public server: http.Server | null = null;
+  /** WebSocket server for packet streams */
+  public wss: WebSocket.Server | null = null;
+  /** Packet stream subscribers */
+  public subscribers = new Map<WebSocket, PacketFilter>();
+  /** Hook feeding the packet streams, registered while there are subscribers */
+  public packetHook: Hook | null = null;
+  /** Token generated if none is configured */
+  public generatedToken: string | null = null;
+  public statePreserveKeys: (keyof this)[] = ['generatedToken'];
+  /** Routes by method and path pattern */
+  public routes: [string, RegExp, RouteHandler][] = [];
+
+  /** Configuration with defaults applied */
+  get options(): ControlApiConfiguration {
+    return { ...DEFAULT_OPTIONS, ...this.config };
+  }
+
+  /** Token clients must provide */
+  get token(): string {
+    return this.options.token ?? this.generatedToken!;
+  }
+
+  async _load(_reloading: boolean) {
+    this._ensureToken();
+    this._defineRoutes();
+    await this._listen();
+  }
+
+  async _unload(_reloading: boolean) {
+    this._close();
+  }
+
+  async _configChanged(oldConfig: any) {
+    this._ensureToken();
+    let { host, port } = this.options;
+    let old = { ...DEFAULT_OPTIONS, ...oldConfig };
+    if (host === old.host && port === old.port) return;
+    this._close();
+    await this._listen();
+  }
+
+  /** Generate a token if none is configured */
+  _ensureToken() {
+    if (this.options.token || this.generatedToken) return;
+    this.generatedToken = crypto.randomBytes(24).toString('hex');
+    logger.info(`control api: no token configured, using generated token ${this.generatedToken}`);
+  }
+
+  /** Start the HTTP server */
+  async _listen() {
+    let { host, port } = this.options;
+    let server = http.createServer((req, res) => this._request(req, res));
+    let wss = new WebSocket.Server({ noServer: true });
+    // upgrade requests always come from a net.Socket
+    server.on('upgrade', (req, socket, head) => this._upgrade(req, socket as Socket, head));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+    server.on('error', err => logger.error('control api: server error', err));
+    this.server = server;
+    this.wss = wss;
+    logger.info(`control api: listening on ${host}:${port}`);
+  }
+
+  /** Stop the HTTP server and close packet streams */
+  _close() {
+    for (let ws of this.subscribers.keys()) ws.close(1001, 'server shutting down');
+    this.subscribers.clear();
+    this._updatePacketHook();
+    // stops listening right away, open connections finish on their own
+    this.server?.close();
+    this.wss?.close();
+    this.server = null;
+    this.wss = null;
+  }
+
+  /** Define the API routes */
+  _defineRoutes() {
+    let proxy = this.proxy;
+    let registry = proxy.moduleRegistry;
+    let findClient = (username: string | undefined): mc.Client | null => {
+      if (username === undefined) return proxy.proxyClient;
+      let client = proxy.clients.find(client => client.username === username);
+      if (!client) throw new ApiError(404, `no such client: ${username}`);
+      return client;
+    };
+    let requireString = (value: any, name: string): string => {
+      if (typeof value !== 'string' || !value) throw new ApiError(400, `${name} must be a non-empty string`);
+      return value;
+    };
+
+    this.routes = [
+      ['GET', /^\/status$/, () => this.status()],
+      ['POST', /^\/modules\/([^/]+)\/(load|unload|reload)$/, async (body, [name, action]) => {
+        if (!registry.get(name)) throw new ApiError(404, `no such module: ${name}`);
+        try {
+          switch (action) {
+            case 'load': await registry.load(name); break;
+            case 'unload': await registry.unload(name, Boolean(body.cascade)); break;
+            case 'reload': await registry.reload(name); break;
+          }
+        } catch (err) {
+          throw new ApiError(409, err.message);
+        }
+        if (this.proxy.coreModule?.commandGraph) this.proxy.coreModule.updateAndSendCommandGraph();
+        // dependencies and dependents may have been loaded or unloaded too
+        return { modules: this.describeModules() };
+      }],
+      ['POST', /^\/commands$/, async body => {
+        let command = requireString(body.command, 'command');
+        let prefix = proxy.commandRegistry.prefix;
+        let message = command.startsWith(prefix) ? command : prefix + command;
+        let ctx = null as ApiCommandContext | null;
+        proxy.commandRegistry.execute(message, null, args => ctx = new ApiCommandContext(args, this));
+        await ctx?.finished;
+        let output = ctx?.output ?? [];
+        return { output: output.map(line => toPlainText(line)), components: output };
+      }],
+      ['POST', /^\/kick$/, body => {
+        let client = findClient(body.client);
+        if (!client) throw new ApiError(409, 'no client connected');
+        proxy.kickClient(body.reason ?? '', client);
+        return {};
+      }],
+      ['POST', /^\/disconnect$/, body => {
+        if (!proxy.connectClient) throw new ApiError(409, 'not connected to a server');
+        proxy.disconnectServer(Boolean(body.reconnect));
+        return {};
+      }],
+      ['POST', /^\/inject\/client$/, body => {
+        let client = findClient(body.client);
+        if (!client) throw new ApiError(409, 'no client connected');
+        proxy.injectClient(requireString(body.type, 'type'), body.data ?? {}, client);
+        return {};
+      }],
+      ['POST', /^\/inject\/server$/, body => {
+        if (!proxy.connectClient) throw new ApiError(409, 'not connected to a server');
+        proxy.injectServer(requireString(body.type, 'type'), body.data ?? {});
+        return {};
+      }]
+    ];
+  }
+
+  /** Describe the state of the proxy */
+  status() {
+    let proxy = this.proxy;
+    return {
+      server: {
+        address: proxy.config.serverAddress,
+        port: proxy.config.serverPort,
+        state: proxy.connectClient?.state ?? null
+      },
+      sessionActive: proxy.sessionActive,
+      limbo: proxy.limbo.active,
+      replay: proxy.replay !== null,
+      recording: proxy.recorder?.file ?? null,
+      lastKickReason: proxy.lastKickReason,
+      clients: proxy.clients.map(client => ({
+        username: client.username,
+        address: client.socket.remoteAddress ?? null,
+        state: client.state,
+        controlling: client === proxy.proxyClient
+      })),
+      modules: this.describeModules(),
+      hooks: [...proxy.hooks].map(hook => ({
+        id: hook.seq,
+        name: hook.name,
+        scope: Direction[hook.scope],
+        type: hook.type,
+        module: hook.module?.name ?? null,
+        priority: hook.priority,
+        enabled: hook.enabled,
+        stats: hook.stats
+      }))
+    };
+  }
+
+  /** Describe imported modules */
+  describeModules() {
+    return [...this.proxy.moduleRegistry.modules.values()].map(module => ({
+      name: module.name,
+      loaded: module.loaded,
+      dependencies: module.dependencies,
+      optionalDependencies: module.optionalDependencies
+    }));
+  }
+
+  /**
+   * Check the token of a request, given as bearer token
+   * @param req
+   * @param queryToken Token from the query string. Only accepted for
+   *   WebSockets, browsers cannot set headers there. Elsewhere it would end up
+   *   in access logs and browser history.
+   */
+  _authorized(req: http.IncomingMessage, queryToken: string | null = null): boolean {
+    let header = req.headers.authorization;
+    let token = header?.startsWith('Bearer ') ? header.slice(7) : queryToken;
+    if (!token) return false;
+    // compare hashes so the comparison takes the same time for any length
+    let hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(hash(token), hash(this.token));
+  }
+
+  /**
+   * Handle an HTTP request
+   * @param req
+   * @param res
+   */
+  async _request(req: http.IncomingMessage, res: http.ServerResponse) {
+    let status = 200;
+    let result: any;
+    try {
+      let url = new URL(req.url ?? '/', 'http://localhost');
+      if (!this._authorized(req)) throw new ApiError(401, 'invalid token');
+      let route = this.routes.find(([method, pattern]) => method === req.method && pattern.test(url.pathname));
+      if (!route) {
+        let known = this.routes.some(([, pattern]) => pattern.test(url.pathname));
+        throw new ApiError(known ? 405 : 404, known ? 'method not allowed' : 'not found');
+      }
+      let [, pattern, handler] = route;
+      let params: string[];
+      try {
+        params = pattern.exec(url.pathname)!.slice(1).map(decodeURIComponent);
+      } catch (err) {
+        throw new ApiError(400, 'malformed path');
+      }
+      let body = req.method === 'POST' ? await this._readBody(req) : {};
+      result = await handler(body, params);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        status = err.status;
+      } else {
+        logger.error(`control api: ${req.method} ${req.url} failed`, err);
+        status = 500;
+      }
+      result = { error: err.message };
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result));
+  }
+
+  /**
+   * Read the JSON body of a request
+   * @param req
+   */
+  async _readBody(req: http.IncomingMessage): Promise<any> {
+    let chunks: Buffer[] = [];
+    let size = 0;
+    for await (let chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) throw new ApiError(413, 'request body too large');
+      chunks.push(chunk);
+    }
+    if (!size) return {};
+    let body;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString());
+    } catch (err) {
+      throw new ApiError(400, `invalid JSON: ${err.message}`);
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ApiError(400, 'request body must be an object');
+    }
+    return body;
+  }
+
+  /**
+   * Handle a WebSocket upgrade for a packet stream. Packets can be filtered
+   * with the types (comma separated) and direction query parameters.
+   * @param req
+   * @param socket
+   * @param head
+   */
+  _upgrade(req: http.IncomingMessage, socket: Socket, head: Buffer) {
+    let url = new URL(req.url ?? '/', 'http://localhost');
+    let reject = (status: string) => {
+      socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+    };
+    if (!this._authorized(req, url.searchParams.get('token'))) return reject('401 Unauthorized');
+    if (url.pathname !== '/packets' || !this.wss) return reject('404 Not Found');
+    let filter: PacketFilter;
+    try {
+      let types = url.searchParams.get('types');
+      let direction = url.searchParams.get('direction');
+      filter = {
+        types: types ? new Set(types.split(',')) : null,
+        direction: direction ? parseDirection(direction) : null
+      };
+    } catch (err) {
+      return reject('400 Bad Request');
+    }
+    this.wss.handleUpgrade(req, socket, head, ws => {
+      this.subscribers.set(ws, filter);
+      this._updatePacketHook();
+      ws.on('close', () => {
+        this.subscribers.delete(ws);
+        this._updatePacketHook();
+      });
+      ws.on('error', err => logger.debug('control api: packet stream error', err));
+    });
+  }
+
+  /** Register the packet stream hook if there are subscribers, unregister it otherwise */
+  _updatePacketHook() {
+    if (this.subscribers.size && !this.packetHook) {
+      // run last to see packets as they are forwarded
+      this.packetHook = this.registerHook(Direction.Any, ANY_TYPE, async event => this._streamPacket(event), {
+        name: 'packet-stream',
+        priority: 1000
+      });
+    } else if (!this.subscribers.size && this.packetHook) {
+      this.unregisterHook(this.packetHook);
+      this.packetHook = null;
+    }
+  }
+
+  /**
+   * Send a packet to matching subscribers
+   * @param event
+   */
+  _streamPacket(event: Event) {
+    let serialized: string | null = null;
+    for (let [ws, filter] of this.subscribers) {
+      if (filter.direction !== null && filter.direction !== event.direction) continue;
+      if (filter.types && !filter.types.has(event.type)) continue;
+      // slow subscribers miss packets instead of using up memory
+      if (ws.readyState !== WebSocket.OPEN || ws.bufferedAmount > MAX_BUFFERED) continue;
+      if (serialized === null) serialized = serializePacket(event.direction, event.type, event.data);
+      ws.send(serialized);
+    }
+  }
+}
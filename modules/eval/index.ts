@@ -1,53 +1,69 @@
 import { inspect } from 'util';
 import * as vm from 'vm';
-import { Module, CommandNode } from '../..';
+import { Module, CommandNode, CommandContext, EvalResult, chat, formatLegacy } from '../..';
 
-const FORMAT_CHAR = '\u00a7'; // §
-const FORMAT_CODES = {
-  black: '0',
-  darkBlue: '1',
-  darkGreen: '2',
-  darkAqua: '3',
-  darkRed: '4',
-  darkPurple: '5',
-  gold: '6',
-  gray: '7',
-  darkGray: '8',
-  blue: '9',
-  green: 'a',
-  aqua: 'b',
-  red: 'c',
-  lightPurple: 'd',
-  yellow: 'e',
-  white: 'f',
-  obfuscated: 'k',
-  bold: 'l',
-  strikethrough: 'm',
-  underline: 'n',
-  italic: 'o',
-  reset: 'r'
-};
+/** Evalulate JavaScript. Because why not. */
+
+/** Number of results kept as $1, $2, ... in the context */
+const HISTORY_SIZE = 100;
 
-function formatMinecraft(text: string, color: keyof typeof FORMAT_CODES) {
-  return `${FORMAT_CHAR}${FORMAT_CODES[color]}${text}${FORMAT_CHAR}${FORMAT_CODES.reset}`;
+/**
+ * Compile code, wrapping it in an async function if it uses await
+ * @param code
+ */
+function compile(code: string): { script: vm.Script, async: boolean } {
+  let options = { filename: '<eval>' };
+  try {
+    return { script: new vm.Script(code, options), async: false };
+  } catch (err) {
+    if (!(err instanceof SyntaxError) || !/\bawait\b/.test(code)) throw err;
+  }
+  try {
+    // single expression, keep its value
+    let expression = code.replace(/;\s*$/, '');
+    return { script: new vm.Script(`(async () => (${expression}\n))()`, options), async: true };
+  } catch (err) {
+    // statements, the value can be returned explicitly
+    return { script: new vm.Script(`(async () => {${code}\n})()`, options), async: true };
+  }
 }
 
-/** Evalulate JavaScript. Because why not. */
+/**
+ * Get the key of the eval buffer of the client executing a command. Buffers
+ * are kept by username so they survive reconnecting.
+ * @param ctx
+ */
+function bufferKey(ctx: CommandContext): string | null {
+  return ctx.client?.username ?? null;
+}
 
 export default class EvalModule extends Module {
   public name = 'eval';
   public ctx: vm.Context | null = null;
-  public statePreserveKeys: (keyof this)[] = ['ctx'];
+  /** Number of the last result stored in the context */
+  public historyIndex = 0;
+  /**
+   * Lines entered with evalc, by username of the client or null for commands
+   * not executed by a client
+   */
+  public buffers = new Map<string | null, string[]>();
+  public statePreserveKeys: (keyof this)[] = ['ctx', 'historyIndex', 'buffers'];
 
   async _load(_reloading: boolean) {
     if (!this.ctx) {
+      let proxy = this.proxy;
       this.ctx = vm.createContext({
         require,
-        proxy: this.proxy,
+        proxy,
         getModule: this.getModule,
-        evalModule: this
+        evalModule: this,
+        // version data is loaded asynchronously, always use the current one
+        get data() {
+          return proxy.data;
+        }
       }, { name: 'eval execution context' });
     }
+    let prefix = this.proxy.config.commandPrefix;
     this.registerCommand({
       name: 'eval',
       description: 'evaluate javascript on the proxy',
@@ -59,73 +75,148 @@ export default class EvalModule extends Module {
               parser: 'brigadier:string',
               properties: 2
             })),
+      // awaited code may take a while, use the cancel command to stop waiting
+      timeout: null,
+      handler: ctx => this.runCommand(ctx, ctx.parsedArgs.code ?? '')
+    });
+    this.registerCommand({
+      name: 'evalc',
+      description: 'add a line to the eval buffer, or show the buffer',
+      autocomplete: new CommandNode('evalc')
+        .asLiteral()
+        .setHandler(ctx => {
+          let buffer = this.buffers.get(bufferKey(ctx)) ?? [];
+          if (!buffer.length) {
+            ctx.reply(chat('eval buffer is empty').color('gray'));
+            return;
+          }
+          ctx.paginate(buffer.map((line, i) => chat()
+            .append(chat(`${i + 1}| `).color('dark_gray'), line)
+            .toJSON()), { title: 'eval buffer' });
+        })
+        .defineChild(
+          new CommandNode('code')
+            .asArgument({
+              parser: 'brigadier:string',
+              properties: 2
+            })
+            .setHandler(ctx => {
+              let buffer = this.buffers.get(bufferKey(ctx));
+              if (!buffer) this.buffers.set(bufferKey(ctx), buffer = []);
+              buffer.push(ctx.parsedArgs.code);
+              ctx.reply(chat()
+                .append(chat(`${buffer.length} line(s) buffered, `).color('gray'), chat('execute')
+                  .color('aqua')
+                  .hover('Execute the eval buffer')
+                  .runCommand(`${prefix}evalx`)));
+            }))
+    });
+    this.registerCommand({
+      name: 'evalx',
+      description: 'execute the eval buffer, optionally adding a last line',
+      autocomplete: new CommandNode('evalx')
+        .asLiteral()
+        .defineChild(
+          new CommandNode('code')
+            .asArgument({
+              parser: 'brigadier:string',
+              properties: 2
+            })),
+      timeout: null,
       handler: ctx => {
-        let code = ctx.args.slice(1).join(' ');
-        let result: any;
-        try {
-          result = vm.runInContext(code, this.ctx!, {
-            displayErrors: true,
-            filename: '<eval>',
-            timeout: 5000 // to prevent accidental infinite loops
-          });
-        } catch (err) {
-          result = err;
+        let buffer = this.buffers.get(bufferKey(ctx)) ?? [];
+        if (ctx.parsedArgs.code !== undefined) buffer.push(ctx.parsedArgs.code);
+        this.buffers.delete(bufferKey(ctx));
+        if (!buffer.length) {
+          ctx.reply(chat('eval buffer is empty').color('red'));
+          return;
         }
-        // TODO: util.inspect() option 'stylize' is not public and should not be
-        // used, however, there doesn't seem to be a better way to do this
-        // see: https://github.com/nodejs/node/blob/master/lib/internal/util/inspect.js#L308
-        // @ts-ignore
-        result = inspect(result, {
-          colors: false, // stylize only works when colors is false
-          stylize(value: string, type: string) {
-            switch (type) {
-              case 'bigint': return formatMinecraft(value, 'gold');
-              case 'boolean': return formatMinecraft(value, 'gold');
-              case 'date': return formatMinecraft(value, 'lightPurple');
-              case 'module': return formatMinecraft(value, 'underline');
-              case 'name': return value;
-              case 'null': return formatMinecraft(value, 'bold');
-              case 'number': return formatMinecraft(value, 'gold');
-              case 'regexp': return formatMinecraft(value, 'red');
-              case 'special': return formatMinecraft(value, 'aqua');
-              case 'string': return formatMinecraft(value, 'darkGreen');
-              case 'symbol': return formatMinecraft(value, 'darkGreen');
-              case 'undefined': return formatMinecraft(value, 'darkGray');
-              default: return value;
-            }
-          }
-        });
+        return this.runCommand(ctx, buffer.join('\n'));
+      }
+    });
+    this.registerCommand({
+      name: 'evalclear',
+      description: 'discard the eval buffer',
+      autocomplete: new CommandNode('evalclear').asLiteral(),
+      handler: ctx => {
+        let lines = this.buffers.get(bufferKey(ctx))?.length ?? 0;
+        this.buffers.delete(bufferKey(ctx));
+        ctx.reply(chat(`discarded ${lines} line(s)`).color('gray'));
+      }
+    });
+  }
+
+  async _unload(_reloading: boolean) {}
 
-        if (result.length >= 10000) {
-          // minecraft supports a maximum length of 262144 but anything above
-          // 10k would probably overflow the chat buffer anyways
-          result = `${formatMinecraft('Warning: output truncated', 'red')}\n${result.slice(0, 10000)}}`;
+  /**
+   * Evaluate code in the persistent context. Code using await is run in an
+   * async function and awaited, only its synchronous part can block the
+   * proxy. Multiple statements using await only have a value if they return
+   * one. Successful results are stored as $1, $2, ... and $_.
+   * @param code
+   */
+  async evaluate(code: string): Promise<EvalResult> {
+    let value: any;
+    try {
+      let { script, async } = compile(code);
+      value = script.runInContext(this.ctx!, {
+        displayErrors: true,
+        timeout: 5000 // to prevent accidental infinite loops
+      });
+      if (async) value = await value;
+    } catch (err) {
+      return { value: err, error: true, ref: null };
+    }
+    let index = ++this.historyIndex;
+    this.ctx![`$${index}`] = value;
+    this.ctx!.$_ = value;
+    delete this.ctx![`$${index - HISTORY_SIZE}`];
+    return { value, error: false, ref: `$${index}` };
+  }
+
+  /**
+   * Format a value like util.inspect() does, using legacy formatting codes
+   * @param value
+   */
+  formatValue(value: any): string {
+    // TODO: util.inspect() option 'stylize' is not public and should not be
+    // used, however, there doesn't seem to be a better way to do this
+    // see: https://github.com/nodejs/node/blob/master/lib/internal/util/inspect.js#L308
+    // @ts-ignore
+    return inspect(value, {
+      colors: false, // stylize only works when colors is false
+      stylize(value: string, type: string) {
+        switch (type) {
+          case 'bigint': return formatLegacy(value, 'gold');
+          case 'boolean': return formatLegacy(value, 'gold');
+          case 'date': return formatLegacy(value, 'light_purple');
+          case 'module': return formatLegacy(value, 'underlined');
+          case 'name': return value;
+          case 'null': return formatLegacy(value, 'bold');
+          case 'number': return formatLegacy(value, 'gold');
+          case 'regexp': return formatLegacy(value, 'red');
+          case 'special': return formatLegacy(value, 'aqua');
+          case 'string': return formatLegacy(value, 'dark_green');
+          case 'symbol': return formatLegacy(value, 'dark_green');
+          case 'undefined': return formatLegacy(value, 'dark_gray');
+          default: return value;
         }
-        ctx.reply({
-          text: '',
-          extra: [
-            {
-              text: '',
-              extra: [
-                { text: 'eval> ', color: 'green' },
-                { text: code },
-                { text: '\n' }
-              ],
-              hoverEvent: {
-                action: 'show_text',
-                contents: { text: 'Input eval command' }
-              },
-              clickEvent: {
-                action: 'suggest_command',
-                value: `${this.proxy.config.commandPrefix}eval ${code}`
-              }
-            },
-            { text: result }
-          ]
-        });
       }
     });
   }
 
-  async _unload(_reloading: boolean) {}
+  /**
+   * Evaluate code for a command and reply with the result
+   * @param ctx
+   * @param code
+   */
+  async runCommand(ctx: CommandContext, code: string) {
+    let { value, ref } = await this.evaluate(code);
+    let title = chat().append(chat('eval> ').color('green'), code).hover('Input eval command');
+    // multiple lines can not be sent as one command
+    if (!code.includes('\n')) title.suggestCommand(`${this.proxy.config.commandPrefix}eval ${code}`);
+    let output = this.formatValue(value);
+    if (ref) output = formatLegacy(`${ref} = `, 'gray') + output;
+    ctx.paginate(output, { title });
+  }
 }
@@ -1,4 +1,4 @@
-import { Module, CommandNode } from '../..';
+import { Module, CommandNode, chat } from '../..';
 
 /** Miscellaneous commands and utilities */
 
@@ -17,25 +17,29 @@ export default class MiscModule extends Module {
             parser: 'brigadier:string',
             properties: 0
           })),
+      suggestions: {
+        'new-server': async () => [`${this.proxy.config.serverAddress}:${this.proxy.config.serverPort}`]
+      },
       handler: async ctx => {
-        let target = ctx.args[1];
-        if (!target) {
-          ctx.reply({ color: 'red', text: 'No server specified' });
-          return;
-        }
+        let target: string = ctx.parsedArgs['new-server'];
         let [server, portString] = target.split(':');
         let port: number;
         if (portString) {
           port = +portString;
           if (Number.isNaN(port)) {
-            ctx.reply({ color: 'red', text: 'Invalid port' });
+            ctx.reply(chat('Invalid port').color('red'));
             return;
           }
         } else port = 25565;
         this.proxy.config.serverAddress = server;
         this.proxy.config.serverPort = port;
-        this.proxy.kickClient('[proxy] New server set, please reconnect');
-        this.proxy.disconnectServer();
+        if (!this.proxy.config.limbo) {
+          this.proxy.kickClient('[proxy] New server set, please reconnect');
+          this.proxy.disconnectServer();
+          return;
+        }
+        ctx.reply(`Switching to ${server}:${port}`);
+        await this.proxy.switchServer();
       }
     });
   }
@@ -0,0 +1,458 @@
+// chat components, see https://wiki.vg/Chat
+/** Character starting legacy formatting codes */
+export const LEGACY_FORMAT_CHAR = '\u00a7'; // §
+
+/** Named chat colors and their legacy formatting codes */
+export const CHAT_COLORS = {
+  /* eslint-disable @typescript-eslint/naming-convention,camelcase */
+  black: '0',
+  dark_blue: '1',
+  dark_green: '2',
+  dark_aqua: '3',
+  dark_red: '4',
+  dark_purple: '5',
+  gold: '6',
+  gray: '7',
+  dark_gray: '8',
+  blue: '9',
+  green: 'a',
+  aqua: 'b',
+  red: 'c',
+  light_purple: 'd',
+  yellow: 'e',
+  white: 'f'
+  /* eslint-enable @typescript-eslint/naming-convention,camelcase */
+};
+
+/** Text styles and their legacy formatting codes */
+export const CHAT_STYLES = {
+  obfuscated: 'k',
+  bold: 'l',
+  strikethrough: 'm',
+  underlined: 'n',
+  italic: 'o'
+};
+
+/** ANSI SGR parameters of named chat colors */
+const ANSI_COLORS: Record<NamedChatColor, string> = {
+  /* eslint-disable @typescript-eslint/naming-convention,camelcase */
+  black: '30',
+  dark_blue: '34',
+  dark_green: '32',
+  dark_aqua: '36',
+  dark_red: '31',
+  dark_purple: '35',
+  gold: '33',
+  gray: '37',
+  dark_gray: '90',
+  blue: '94',
+  green: '92',
+  aqua: '96',
+  red: '91',
+  light_purple: '95',
+  yellow: '93',
+  white: '97'
+  /* eslint-enable @typescript-eslint/naming-convention,camelcase */
+};
+
+/** ANSI SGR parameters of text styles. Obfuscated text is shown as is. */
+const ANSI_STYLES: Record<ChatStyle, string | null> = {
+  obfuscated: null,
+  bold: '1',
+  strikethrough: '9',
+  underlined: '4',
+  italic: '3'
+};
+
+/** A named chat color */
+export type NamedChatColor = keyof typeof CHAT_COLORS;
+/** A chat color, either named or as #rrggbb */
+export type ChatColor = NamedChatColor | 'reset' | string;
+/** A text style */
+export type ChatStyle = keyof typeof CHAT_STYLES;
+
+/** Action performed when a component is clicked */
+export interface ClickEvent {
+  action: 'open_url' | 'run_command' | 'suggest_command' | 'change_page' | 'copy_to_clipboard';
+  value: string;
+}
+
+/** Tooltip shown when hovering over a component */
+export interface HoverEvent {
+  action: 'show_text' | 'show_item' | 'show_entity';
+  contents: any;
+}
+
+/** A JSON chat component */
+export interface ChatComponent {
+  text?: string;
+  /** Translation key */
+  translate?: string;
+  /** Arguments of the translation */
+  with?: (ChatComponent | string)[];
+  keybind?: string;
+  selector?: string;
+  color?: ChatColor;
+  bold?: boolean;
+  italic?: boolean;
+  underlined?: boolean;
+  strikethrough?: boolean;
+  obfuscated?: boolean;
+  /** Text inserted into the chat box on shift click */
+  insertion?: string;
+  clickEvent?: ClickEvent;
+  hoverEvent?: HoverEvent;
+  /** Child components, inheriting the style of this component */
+  extra?: (ChatComponent | string)[];
+}
+
+/** Where chat messages are shown */
+export enum ChatPosition {
+  /** Chat message from a player */
+  Chat = 0,
+  /** System message in chat */
+  System = 1,
+  /** Text above the hotbar */
+  ActionBar = 2
+}
+
+/** Anything that can be used as a chat message */
+export type ChatInput = string | ChatComponent | ChatBuilder;
+
+/** Builds chat components */
+export class ChatBuilder {
+  /** The component being built */
+  public component: ChatComponent;
+
+  /**
+   * The constructor
+   * @param component Component to start from
+   */
+  constructor(component: ChatComponent = { text: '' }) {
+    this.component = component;
+  }
+
+  /**
+   * Set the color
+   * @param color Named color or #rrggbb
+   */
+  color(color: ChatColor): this {
+    this.component.color = color;
+    return this;
+  }
+
+  /**
+   * Set a text style
+   * @param style
+   * @param enabled
+   */
+  style(style: ChatStyle, enabled = true): this {
+    this.component[style] = enabled;
+    return this;
+  }
+
+  bold(enabled = true): this {
+    return this.style('bold', enabled);
+  }
+
+  italic(enabled = true): this {
+    return this.style('italic', enabled);
+  }
+
+  underlined(enabled = true): this {
+    return this.style('underlined', enabled);
+  }
+
+  strikethrough(enabled = true): this {
+    return this.style('strikethrough', enabled);
+  }
+
+  obfuscated(enabled = true): this {
+    return this.style('obfuscated', enabled);
+  }
+
+  /**
+   * Show a tooltip on hover
+   * @param text
+   */
+  hover(text: ChatInput): this {
+    this.component.hoverEvent = { action: 'show_text', contents: toComponent(text) };
+    return this;
+  }
+
+  /**
+   * Perform an action on click
+   * @param action
+   * @param value
+   */
+  click(action: ClickEvent['action'], value: string): this {
+    this.component.clickEvent = { action, value };
+    return this;
+  }
+
+  /**
+   * Put a command into the chat box on click
+   * @param command
+   */
+  suggestCommand(command: string): this {
+    return this.click('suggest_command', command);
+  }
+
+  /**
+   * Run a command on click
+   * @param command
+   */
+  runCommand(command: string): this {
+    return this.click('run_command', command);
+  }
+
+  /**
+   * Open a link on click
+   * @param url
+   */
+  openUrl(url: string): this {
+    return this.click('open_url', url);
+  }
+
+  /**
+   * Insert text into the chat box on shift click
+   * @param text
+   */
+  insertion(text: string): this {
+    this.component.insertion = text;
+    return this;
+  }
+
+  /**
+   * Add child components
+   * @param parts
+   */
+  append(...parts: ChatInput[]): this {
+    if (!this.component.extra) this.component.extra = [];
+    this.component.extra.push(...parts.map(toComponent));
+    return this;
+  }
+
+  /** Return the built component */
+  toJSON(): ChatComponent {
+    return this.component;
+  }
+
+  /** Serialize the component */
+  toString(): string {
+    return JSON.stringify(this.component);
+  }
+}
+
+/**
+ * Start building a text component
+ * @param text
+ */
+export function chat(text = ''): ChatBuilder {
+  return new ChatBuilder({ text });
+}
+
+/**
+ * Start building a translation component
+ * @param key Translation key
+ * @param args Arguments of the translation
+ */
+export function translate(key: string, ...args: ChatInput[]): ChatBuilder {
+  let component: ChatComponent = { translate: key };
+  if (args.length) component.with = args.map(toComponent);
+  return new ChatBuilder(component);
+}
+
+/**
+ * Convert chat input to a component
+ * @param input
+ */
+export function toComponent(input: ChatInput): ChatComponent {
+  if (typeof input === 'string') return { text: input };
+  if (input instanceof ChatBuilder) return input.component;
+  return input;
+}
+
+/**
+ * Serialize chat input for use in packets
+ * @param input
+ */
+export function serializeChat(input: ChatInput): string {
+  return JSON.stringify(toComponent(input));
+}
+
+/**
+ * Parse a component from its JSON serialization. Text that is not JSON is
+ * treated as plain text.
+ * @param json
+ */
+export function parseChat(json: string): ChatComponent {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (err) {
+    return { text: json };
+  }
+  return normalize(parsed);
+}
+
+/**
+ * Normalize the shorthand forms the protocol allows (strings, arrays) into a
+ * component
+ * @param value
+ */
+function normalize(value: any): ChatComponent {
+  if (typeof value === 'string') return { text: value };
+  if (Array.isArray(value)) {
+    if (!value.length) return { text: '' };
+    let [first, ...rest] = value.map(normalize);
+    return { ...first, extra: [...first.extra ?? [], ...rest] };
+  }
+  if (!value || typeof value !== 'object') return { text: String(value ?? '') };
+  return value;
+}
+
+/** Style in effect for a piece of text */
+type TextStyle = Pick<ChatComponent, 'color' | ChatStyle>;
+
+/** A piece of text with its effective style */
+interface StyledText {
+  text: string;
+  style: TextStyle;
+}
+
+/**
+ * Flatten a component into pieces of text, resolving style inheritance
+ * @param component
+ * @param inherited Style inherited from the parent
+ * @param out
+ */
+function flatten(component: ChatComponent | string, inherited: TextStyle = {}, out: StyledText[] = []): StyledText[] {
+  component = normalize(component);
+  let style: TextStyle = { ...inherited };
+  if (component.color) style.color = component.color === 'reset' ? undefined : component.color;
+  for (let key of Object.keys(CHAT_STYLES) as ChatStyle[]) {
+    if (component[key] !== undefined) style[key] = component[key];
+  }
+  let text = component.text ?? component.keybind ?? component.selector ?? '';
+  if (text) out.push({ text, style });
+  if (component.translate) {
+    // no translations available, show the key followed by the arguments
+    out.push({ text: component.translate, style });
+    if (component.with?.length) {
+      out.push({ text: ' (', style });
+      component.with.forEach((arg, i) => {
+        if (i > 0) out.push({ text: ', ', style });
+        flatten(arg, style, out);
+      });
+      out.push({ text: ')', style });
+    }
+  }
+  for (let child of component.extra ?? []) flatten(child, style, out);
+  return out;
+}
+
+/**
+ * Extract the plain text of a component
+ * @param input
+ */
+export function toPlainText(input: ChatInput): string {
+  return flatten(toComponent(input)).map(piece => piece.text).join('');
+}
+
+/**
+ * Convert a component to a string with legacy formatting codes. Colors given
+ * as #rrggbb have no legacy equivalent and are dropped.
+ * @param input
+ */
+export function toLegacy(input: ChatInput): string {
+  let out = '';
+  let previous = '';
+  for (let { text, style } of flatten(toComponent(input))) {
+    let codes = '';
+    let color = CHAT_COLORS[style.color as NamedChatColor];
+    if (color) codes += LEGACY_FORMAT_CHAR + color;
+    for (let [key, code] of Object.entries(CHAT_STYLES)) {
+      if (style[key as ChatStyle]) codes += LEGACY_FORMAT_CHAR + code;
+    }
+    if (codes !== previous) {
+      // formatting codes only add to the current style, reset to remove any
+      if (previous) out += LEGACY_FORMAT_CHAR + 'r';
+      out += codes;
+      previous = codes;
+    }
+    out += text;
+  }
+  return out;
+}
+
+/**
+ * Parse a string with legacy formatting codes into a component
+ * @param text
+ */
+export function fromLegacy(text: string): ChatComponent {
+  let colorsByCode = new Map(Object.entries(CHAT_COLORS).map(([name, code]) => [code, name]));
+  let stylesByCode = new Map(Object.entries(CHAT_STYLES).map(([name, code]) => [code, name as ChatStyle]));
+  let parts: ChatComponent[] = [];
+  let style: TextStyle = {};
+  let current = '';
+  let flush = () => {
+    if (current) parts.push({ text: current, ...style });
+    current = '';
+  };
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== LEGACY_FORMAT_CHAR || i + 1 >= text.length) {
+      current += text[i];
+      continue;
+    }
+    let code = text[++i].toLowerCase();
+    let color = colorsByCode.get(code);
+    let styleName = stylesByCode.get(code);
+    if (!color && !styleName && code !== 'r') continue; // unknown code, drop it
+    flush();
+    // colors reset styles, as in the vanilla client
+    if (color) style = { color };
+    else if (styleName) style = { ...style, [styleName]: true };
+    else style = {};
+  }
+  flush();
+  if (parts.length === 1) return parts[0];
+  return { text: '', extra: parts };
+}
+
+/**
+ * Format text with a legacy color or style code, resetting afterwards
+ * @param text
+ * @param format
+ */
+export function formatLegacy(text: string, format: NamedChatColor | ChatStyle): string {
+  let code = (CHAT_COLORS as Record<string, string>)[format] ?? CHAT_STYLES[format as ChatStyle];
+  return `${LEGACY_FORMAT_CHAR}${code}${text}${LEGACY_FORMAT_CHAR}r`;
+}
+
+/**
+ * Convert a component to text with ANSI escape codes, for example for logs
+ * @param input
+ */
+export function toAnsi(input: ChatInput): string {
+  let out = '';
+  let styled = false;
+  for (let { text, style } of flatten(toComponent(input))) {
+    let parameters: string[] = [];
+    if (style.color?.startsWith('#')) {
+      let rgb = parseInt(style.color.slice(1), 16);
+      parameters.push(`38;2;${(rgb >> 16) & 0xff};${(rgb >> 8) & 0xff};${rgb & 0xff}`);
+    } else if (style.color && style.color in ANSI_COLORS) {
+      parameters.push(ANSI_COLORS[style.color as NamedChatColor]);
+    }
+    for (let [key, parameter] of Object.entries(ANSI_STYLES)) {
+      if (parameter && style[key as ChatStyle]) parameters.push(parameter);
+    }
+    if (styled) out += '\x1b[0m';
+    styled = parameters.length > 0;
+    if (styled) out += `\x1b[${parameters.join(';')}m`;
+    out += text;
+  }
+  if (styled) out += '\x1b[0m';
+  return out;
+}
@@ -0,0 +1,466 @@
+import type { CommandNode } from './command';
+import { CommandNodeType } from './command';
+
+/**
+ * Parses command input against the CommandNode graph of a command, following
+ * the behavior of brigadier where reasonable.
+ * Reference: https://wiki.vg/Command_Data#Parsers
+ */
+
+/** Thrown when command input does not match the command graph */
+export class CommandSyntaxError extends Error {
+  /** The input that failed to parse */
+  public input: string;
+  /** Position in the input where parsing failed */
+  public cursor: number;
+
+  /**
+   * The constructor
+   * @param message
+   * @param input
+   * @param cursor
+   */
+  constructor(message: string, input: string, cursor: number) {
+    super(message);
+    this.name = 'CommandSyntaxError';
+    this.input = input;
+    this.cursor = cursor;
+  }
+
+  /** Input up to the failure, shortened to at most 10 characters */
+  get context(): string {
+    let start = Math.max(0, this.cursor - 10);
+    return (start > 0 ? '...' : '') + this.input.slice(start, this.cursor);
+  }
+
+  /** Input after the failure */
+  get rest(): string {
+    return this.input.slice(this.cursor);
+  }
+}
+
+/** Reads command input */
+export class StringReader {
+  /** Input being read */
+  public input: string;
+  /** Current position */
+  public cursor: number;
+
+  /**
+   * The constructor
+   * @param input
+   * @param cursor
+   */
+  constructor(input: string, cursor = 0) {
+    this.input = input;
+    this.cursor = cursor;
+  }
+
+  /**
+   * Create an error at the current position
+   * @param message
+   * @param cursor Position of the error, defaults to the current position
+   */
+  error(message: string, cursor = this.cursor): CommandSyntaxError {
+    return new CommandSyntaxError(message, this.input, cursor);
+  }
+
+  /**
+   * Whether there are characters left
+   * @param length Number of characters needed
+   */
+  canRead(length = 1): boolean {
+    return this.cursor + length <= this.input.length;
+  }
+
+  /** Return the next character without consuming it */
+  peek(): string {
+    return this.input[this.cursor];
+  }
+
+  /** Consume and return the next character */
+  read(): string {
+    return this.input[this.cursor++];
+  }
+
+  /** Remaining input */
+  get remaining(): string {
+    return this.input.slice(this.cursor);
+  }
+
+  /** Read until the next space */
+  readUnquotedString(): string {
+    let start = this.cursor;
+    while (this.canRead() && this.peek() !== ' ') this.cursor++;
+    return this.input.slice(start, this.cursor);
+  }
+
+  /** Read a string in double or single quotes, handling backslash escapes */
+  readQuotedString(): string {
+    let start = this.cursor;
+    let quote = this.read();
+    let result = '';
+    while (this.canRead()) {
+      let char = this.read();
+      if (char === '\\') {
+        if (!this.canRead()) break;
+        let escaped = this.read();
+        if (escaped !== quote && escaped !== '\\') {
+          throw this.error(`Invalid escape sequence '\\${escaped}' in quoted string`, this.cursor - 2);
+        }
+        result += escaped;
+      } else if (char === quote) {
+        return result;
+      } else result += char;
+    }
+    throw this.error('Unclosed quoted string', start);
+  }
+
+  /** Read a quoted string if the input starts with a quote, a word otherwise */
+  readString(): string {
+    if (!this.canRead()) return '';
+    let next = this.peek();
+    if (next === '"' || next === '\'') return this.readQuotedString();
+    return this.readUnquotedString();
+  }
+
+  /** Read a number */
+  readNumber(integer: boolean): number {
+    let start = this.cursor;
+    let text = this.readUnquotedString();
+    if (!text) throw this.error(`Expected ${integer ? 'integer' : 'number'}`, start);
+    let valid = integer ? /^-?\d+$/.test(text) : /^-?(\d+\.?\d*|\.\d+)$/.test(text);
+    if (!valid) throw this.error(`Invalid ${integer ? 'integer' : 'number'} '${text}'`, start);
+    return +text;
+  }
+
+  /** Read a boolean */
+  readBoolean(): boolean {
+    let start = this.cursor;
+    let text = this.readUnquotedString();
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    throw this.error(text ? `Invalid boolean, expected true or false but found '${text}'` : 'Expected boolean', start);
+  }
+}
+
+/** Modes of the brigadier:string parser */
+export enum StringArgumentMode {
+  /** A single word */
+  SingleWord = 0,
+  /** A single word, or a quoted phrase */
+  QuotablePhrase = 1,
+  /** The rest of the input */
+  GreedyPhrase = 2
+}
+
+/** A single coordinate of a position argument */
+export interface Coordinate {
+  /** Coordinate value, or offset if relative */
+  value: number;
+  /** Whether the value is relative to the executor (~) */
+  relative: boolean;
+}
+
+/** A parsed position argument. Missing axes are null. */
+export interface PositionArgument {
+  x: Coordinate | null;
+  y: Coordinate | null;
+  z: Coordinate | null;
+  /** Whether coordinates are local to the executor's rotation (^) */
+  local: boolean;
+}
+
+/** Properties of numeric parsers as used by minecraft-protocol */
+export interface NumberRangeProperties {
+  /* eslint-disable @typescript-eslint/naming-convention,camelcase */
+  flags: { unused: number, max_present: number, min_present: number };
+  /* eslint-enable @typescript-eslint/naming-convention,camelcase */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Build properties for numeric parsers such as brigadier:integer
+ * @param min Minimum value, if any
+ * @param max Maximum value, if any
+ */
+export function numberRange(min?: number, max?: number): NumberRangeProperties {
+  /* eslint-disable @typescript-eslint/naming-convention,camelcase */
+  let properties: NumberRangeProperties = {
+    flags: { unused: 0, max_present: Number(max !== undefined), min_present: Number(min !== undefined) }
+  };
+  /* eslint-enable @typescript-eslint/naming-convention,camelcase */
+  if (min !== undefined) properties.min = min;
+  if (max !== undefined) properties.max = max;
+  return properties;
+}
+
+/**
+ * Read a number and check it against range properties
+ * @param reader
+ * @param properties
+ * @param integer
+ */
+function readRangedNumber(reader: StringReader, properties: NumberRangeProperties | undefined, integer: boolean) {
+  let start = reader.cursor;
+  let value = reader.readNumber(integer);
+  let kind = integer ? 'Integer' : 'Number';
+  if (properties?.flags?.min_present && value < properties.min!) {
+    throw reader.error(`${kind} must not be less than ${properties.min}, found ${value}`, start);
+  }
+  if (properties?.flags?.max_present && value > properties.max!) {
+    throw reader.error(`${kind} must not be more than ${properties.max}, found ${value}`, start);
+  }
+  return value;
+}
+
+/**
+ * Read position coordinates
+ * @param reader
+ * @param axes Axes to read, in order
+ * @param integer Whether absolute coordinates must be integers
+ */
+function readPosition(reader: StringReader, axes: ('x' | 'y' | 'z')[], integer: boolean): PositionArgument {
+  let start = reader.cursor;
+  let position: PositionArgument = { x: null, y: null, z: null, local: false };
+  for (let i = 0; i < axes.length; i++) {
+    if (i > 0) {
+      if (!reader.canRead() || reader.peek() !== ' ') {
+        throw reader.error('Incomplete position, expected ' + axes.length + ' coordinates', start);
+      }
+      reader.read();
+    }
+    let coordinateStart = reader.cursor;
+    let word = reader.readUnquotedString();
+    let prefix = word[0];
+    let local = prefix === '^';
+    let relative = prefix === '~' || local;
+    if (i > 0 && local !== position.local) {
+      throw reader.error('Cannot mix world and local coordinates', coordinateStart);
+    }
+    position.local = local;
+    let number = relative ? word.slice(1) : word;
+    let value = 0;
+    if (number || !relative) {
+      let numberReader = new StringReader(number);
+      try {
+        value = numberReader.readNumber(integer && !relative);
+      } catch (err) {
+        throw reader.error(`Invalid coordinate '${word}'`, coordinateStart);
+      }
+    }
+    position[axes[i]] = { value, relative };
+  }
+  return position;
+}
+
+/** Reads an argument of a parser from input */
+export type ArgumentParser = (reader: StringReader, properties: any) => any;
+
+/** Parsers for argument nodes, keyed by parser name */
+export const ARGUMENT_PARSERS = new Map<string, ArgumentParser>([
+  ['brigadier:string', (reader, properties) => {
+    switch (properties as StringArgumentMode) {
+      case StringArgumentMode.GreedyPhrase: {
+        let text = reader.remaining;
+        reader.cursor = reader.input.length;
+        return text;
+      }
+      case StringArgumentMode.QuotablePhrase: return reader.readString();
+      default: return reader.readUnquotedString();
+    }
+  }],
+  ['brigadier:bool', reader => reader.readBoolean()],
+  ['brigadier:integer', (reader, properties) => readRangedNumber(reader, properties, true)],
+  ['brigadier:long', (reader, properties) => readRangedNumber(reader, properties, true)],
+  ['brigadier:float', (reader, properties) => readRangedNumber(reader, properties, false)],
+  ['brigadier:double', (reader, properties) => readRangedNumber(reader, properties, false)],
+  ['minecraft:block_pos', reader => readPosition(reader, ['x', 'y', 'z'], true)],
+  ['minecraft:column_pos', reader => readPosition(reader, ['x', 'z'], true)],
+  ['minecraft:vec3', reader => readPosition(reader, ['x', 'y', 'z'], false)],
+  ['minecraft:vec2', reader => readPosition(reader, ['x', 'z'], false)]
+]);
+
+/** Result of parsing command input */
+export interface ParseResult {
+  /** Values of argument nodes, by node name */
+  args: Record<string, any>;
+  /** Nodes matched after the command name, in order */
+  nodes: CommandNode[];
+}
+
+/**
+ * Describe a node for usage and error messages
+ * @param node
+ */
+function describeNode(node: CommandNode): string {
+  return node.flags.nodeType === CommandNodeType.Argument ? `<${node.name}>` : node.name!;
+}
+
+/**
+ * Try to read a node from input
+ * @param reader
+ * @param node
+ * @return Parsed value (true for literals)
+ */
+function readNode(reader: StringReader, node: CommandNode): any {
+  let start = reader.cursor;
+  if (node.flags.nodeType === CommandNodeType.Literal) {
+    let word = reader.readUnquotedString();
+    if (word.toLowerCase() !== node.name!.toLowerCase()) {
+      reader.cursor = start;
+      return undefined;
+    }
+    return true;
+  }
+  let parser = ARGUMENT_PARSERS.get(node.parser!) ?? ARGUMENT_PARSERS.get('brigadier:string')!;
+  let value = parser(reader, node.properties);
+  if (reader.canRead() && reader.peek() !== ' ') {
+    throw reader.error(`Expected whitespace to end ${describeNode(node)}`);
+  }
+  return value;
+}
+
+/**
+ * Parse input against the children of a node, backtracking if needed
+ * @param reader
+ * @param node Node whose children to match
+ * @param result Result to fill in
+ * @return Error describing the furthest failure, or null on success
+ */
+function parseChildren(reader: StringReader, node: CommandNode, result: ParseResult): CommandSyntaxError | null {
+  let target = node.redirectNode ?? node;
+  if (!reader.canRead()) {
+    if (node.flags.isExecutable) return null;
+    let expected = [...target.children].map(describeNode).join(', ');
+    return reader.error(`Incomplete command, expected ${expected || 'more arguments'}`);
+  }
+  if (reader.peek() !== ' ') return reader.error('Expected whitespace');
+  let start = reader.cursor;
+  let furthest: CommandSyntaxError | null = null;
+  // literals take precedence over arguments, as in brigadier
+  let children = [...target.children].sort((a, b) => a.flags.nodeType - b.flags.nodeType);
+  for (let child of children) {
+    reader.cursor = start + 1;
+    let value: any;
+    try {
+      value = readNode(reader, child);
+    } catch (err) {
+      if (!(err instanceof CommandSyntaxError)) throw err;
+      if (!furthest || err.cursor > furthest.cursor) furthest = err;
+      continue;
+    }
+    if (value === undefined) continue;
+    result.nodes.push(child);
+    if (child.flags.nodeType === CommandNodeType.Argument) result.args[child.name!] = value;
+    let error = parseChildren(reader, child, result);
+    if (!error) return null;
+    result.nodes.pop();
+    delete result.args[child.name!];
+    if (!furthest || error.cursor > furthest.cursor) furthest = error;
+  }
+  reader.cursor = start;
+  if (!children.length) return furthest ?? reader.error('Too many arguments', start + 1);
+  return furthest ?? reader.error(`Unknown argument, expected ${children.map(describeNode).join(', ')}`, start + 1);
+}
+
+/**
+ * Parse command arguments against a command graph
+ * @param root Root node of the command, matching the command name
+ * @param input Full command input
+ * @param start Position after the command name
+ * @throws CommandSyntaxError if the input does not match
+ */
+export function parseCommand(root: CommandNode, input: string, start: number): ParseResult {
+  let reader = new StringReader(input, start);
+  let result: ParseResult = { args: {}, nodes: [] };
+  let error = parseChildren(reader, root, result);
+  if (error) throw error;
+  return result;
+}
+
+/** A node that could complete the end of partial input */
+export interface CompletionCandidate {
+  /** Node being typed */
+  node: CommandNode;
+  /** Position in the input where the node starts */
+  start: number;
+  /** Text typed so far for the node */
+  partial: string;
+  /** Values of complete argument nodes before the node, by node name */
+  args: Record<string, any>;
+  /** Nodes matched before the node, in order */
+  nodes: CommandNode[];
+}
+
+/**
+ * Collect nodes that could complete the end of input, below a node
+ * @param input
+ * @param cursor Position after the node
+ * @param node
+ * @param result Arguments and nodes matched so far
+ * @param candidates Candidates found
+ */
+function collectCandidates(
+  input: string,
+  cursor: number,
+  node: CommandNode,
+  result: ParseResult,
+  candidates: CompletionCandidate[]
+) {
+  if (input[cursor] !== ' ' || result.nodes.length > 32) return;
+  let start = cursor + 1;
+  let partial = input.slice(start);
+  let target = node.redirectNode ?? node;
+  for (let child of target.children) {
+    let reader = new StringReader(input, start);
+    let value: any;
+    try {
+      value = readNode(reader, child);
+    } catch (err) {
+      if (!(err instanceof CommandSyntaxError)) throw err;
+      value = undefined;
+    }
+    if (value !== undefined && reader.canRead()) {
+      // the child is complete, continue with its children
+      result.nodes.push(child);
+      if (child.flags.nodeType === CommandNodeType.Argument) result.args[child.name!] = value;
+      collectCandidates(input, reader.cursor, child, result, candidates);
+      result.nodes.pop();
+      delete result.args[child.name!];
+    } else if (value !== undefined || !partial.includes(' ')) {
+      candidates.push({ node: child, start, partial, args: { ...result.args }, nodes: [...result.nodes] });
+    }
+  }
+}
+
+/**
+ * Find the nodes that could complete the end of partial command input
+ * @param root Root node of the command, matching the command name
+ * @param input Partial command input
+ * @param start Position after the command name
+ */
+export function findCompletions(root: CommandNode, input: string, start: number): CompletionCandidate[] {
+  let candidates: CompletionCandidate[] = [];
+  collectCandidates(input, start, root, { args: {}, nodes: [] }, candidates);
+  return candidates;
+}
+
+/**
+ * List the usages of a command graph, one per executable path
+ * @param root Root node of the command
+ * @param name Name to show for the root node
+ * @param limit Maximum number of usages to list
+ */
+export function getUsages(root: CommandNode, name: string, limit = 20): string[] {
+  let usages: string[] = [];
+  let visit = (node: CommandNode, prefix: string, depth: number) => {
+    if (usages.length >= limit || depth > 16) return;
+    if (node.flags.isExecutable) usages.push(prefix);
+    let target = node.redirectNode ?? node;
+    for (let child of target.children) visit(child, `${prefix} ${describeNode(child)}`, depth + 1);
+  };
+  visit(root, name, 0);
+  return usages;
+}
@@ -1,6 +1,16 @@
 // @ts-ignore unfortunately this module does not have types
 import Deque = require('collections/deque');
+import type mc from 'minecraft-protocol';
 import MinecraftProxy from './proxy';
+import type { Module } from './module';
+import { parseCommand, findCompletions, getUsages, CommandSyntaxError } from './command-parser';
+import logger from './logger';
+import { closestMatches } from './utils';
+import { chat, ChatBuilder, ChatComponent, ChatInput, toAnsi, toComponent } from './chat';
+import { OutputStore, PaginateOptions, splitLines, paginate } from './pagination';
+
+/** Time commands may run before they are aborted, in milliseconds */
+export const DEFAULT_COMMAND_TIMEOUT = 60 * 1000;
 
 export interface CommandDescriptor {
   /** Name of the command */
@@ -9,8 +19,80 @@ export interface CommandDescriptor {
   description: string;
   /** Autocomplete graph, or null if not provided */
   autocomplete: CommandNode | null;
-  /** Handler for the command */
-  handler: CommandHandler;
+  /**
+   * Handler for the command. Optional if every executable node of the
+   * autocomplete graph has its own handler.
+   */
+  handler?: CommandHandler;
+  /** Other names of the command */
+  aliases?: string[];
+  /**
+   * Suggestion providers for argument nodes of the autocomplete graph, keyed
+   * by node name. Nodes with a provider ask the proxy for suggestions.
+   */
+  suggestions?: Record<string, SuggestionProvider>;
+  /**
+   * Time the handler may run before it is aborted, in milliseconds, or null
+   * to never time out. Defaults to DEFAULT_COMMAND_TIMEOUT.
+   */
+  timeout?: number | null;
+  /**
+   * Whether spectators may run the command. Only commands that do not change
+   * the session should allow this. Defaults to false.
+   */
+  allowSpectators?: boolean;
+}
+
+/** Passed to the signal of a command context when the command is aborted */
+export class CommandAbortedError extends Error {
+  /**
+   * The constructor
+   * @param message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandAbortedError';
+  }
+}
+
+/** A tab completion suggestion */
+export interface Suggestion {
+  /** Text to insert */
+  text: string;
+  /** Tooltip shown next to the suggestion */
+  tooltip?: string;
+}
+
+/** Information passed to suggestion providers */
+export interface SuggestionContext {
+  /** Proxy instance */
+  proxy: MinecraftProxy;
+  /** Client that asked for suggestions */
+  client: mc.Client | null;
+  /** Argument node being completed */
+  node: CommandNode;
+  /** Text typed so far for the argument */
+  partial: string;
+  /** Values of arguments before the argument, by node name */
+  args: Record<string, any>;
+  /** Names of the nodes before the argument, in order */
+  path: string[];
+}
+
+/**
+ * Provides suggestions for an argument. Suggestions not starting with the
+ * text typed so far are filtered out.
+ */
+export type SuggestionProvider = (ctx: SuggestionContext) => Promise<(string | Suggestion)[]>;
+
+/** Answer to a tab completion request */
+export interface SuggestionResult {
+  /** Position in the text where suggestions start */
+  start: number;
+  /** Length of the text the suggestions replace */
+  length: number;
+  /** Suggestions */
+  matches: Suggestion[];
 }
 
 export class CommandContext {
@@ -19,32 +101,89 @@ export class CommandContext {
    * NOTE: args[0] is the command name
    */
   public args: string[];
+  /**
+   * Typed values of argument nodes, keyed by node name. Only available if the
+   * command has an autocomplete graph.
+   */
+  public parsedArgs: Record<string, any> = {};
+  /** Names of the nodes matched after the command name, in order */
+  public path: string[] = [];
   /** Proxy instance the command was executed on */
   public proxy: MinecraftProxy
+  /** Client that executed the command, if any */
+  public client: mc.Client | null;
+  /**
+   * Who executed the command, commands can only cancel commands of the same
+   * owner. This is the client, unless the command came from somewhere else
+   * such as a console session.
+   */
+  public owner: object | null;
+  /** Command being executed, once found */
+  public command: Command | null = null;
+  /**
+   * Signal that is aborted when the command is cancelled or times out.
+   * Long-running handlers should check it or pass it on.
+   */
+  public signal: AbortSignal;
+  /** Why the command was aborted, if it was */
+  public abortReason: CommandAbortedError | null = null;
+  /** Resolves once the handler has finished or the command was aborted */
+  public finished: Promise<void> = Promise.resolve();
+  /** Rejects once the command is aborted */
+  public _aborted: Promise<never>;
+  public _abortController = new AbortController();
+  public _rejectAborted: ((reason: CommandAbortedError) => void) | null = null;
 
   /**
    * The constructor
    * @param args
+   * @param proxy
+   * @param client Client that executed the command
    */
-  constructor(args: string[], proxy: MinecraftProxy) {
+  constructor(args: string[], proxy: MinecraftProxy, client: mc.Client | null = null) {
     this.args = args;
     this.proxy = proxy;
+    this.client = client;
+    this.owner = client;
+    this.signal = this._abortController.signal;
+    this._aborted = new Promise((_resolve, reject) => {
+      this._rejectAborted = reject;
+    });
+    // only awaited while the handler runs
+    this._aborted.catch(() => {});
   }
 
-  reply(message: string | Record<string, any>) {
-    if (typeof message === 'string') {
-      this.proxy.injectClient('chat', {
-        message: JSON.stringify({ text: message }),
-        position: 1,
-        sender: '00000000-0000-0000-0000-000000000000'
-      });
-    } else {
-      this.proxy.injectClient('chat', {
-        message: JSON.stringify(message),
-        position: 1,
-        sender: '00000000-0000-0000-0000-000000000000'
-      });
-    }
+  /**
+   * Abort the command
+   * @param reason
+   */
+  abort(reason: CommandAbortedError) {
+    if (this.abortReason) return;
+    this.abortReason = reason;
+    this._abortController.abort();
+    this._rejectAborted!(reason);
+  }
+
+  reply(message: ChatInput) {
+    this.proxy.sendChat(message, this.client ?? this.proxy.proxyClient);
+  }
+
+  /**
+   * Reply with output split into pages. The client can switch pages with the
+   * page command, and the full output is logged.
+   * @param output Lines of output, strings may contain newlines
+   * @param options
+   */
+  paginate(output: ChatInput | ChatInput[], options: PaginateOptions = {}) {
+    let registry = this.proxy.commandRegistry;
+    let lines = splitLines(output);
+    let title = typeof options.title === 'string' ? chat(options.title).color('gold').toJSON() : options.title;
+    let pages = paginate(lines, options.pageSize);
+    let stored = registry.outputs.add(this.client, title ? toComponent(title) : null, pages);
+    let name = this.command ? registry.prefix + registry.invocationName(this.command) : 'command';
+    let logged = stored.title ? [stored.title, ...lines] : lines;
+    logger.info(`output of ${name} (#${stored.id}):\n${logged.map(line => toAnsi(line)).join('\n')}`);
+    for (let line of registry.outputs.render(stored, 1, registry.prefix)) this.reply(line);
   }
 
   sendServer(message: string) {
@@ -52,8 +191,9 @@ export class CommandContext {
   }
 }
 
-// TODO: maybe make this async?
-export type CommandHandler = (ctx: CommandContext) => any;
+export type CommandHandler = (ctx: CommandContext) => Promise<void> | void;
+/** Creates the context a command runs in from its arguments */
+export type ContextFactory = (args: string[]) => CommandContext;
 
 /** Represents a single command */
 export class Command {
@@ -63,25 +203,46 @@ export class Command {
   description: string;
   /** Autocomplete graph, or null if not provided */
   autocomplete: CommandNode | null;
-  /** Handler for the command */
-  handler: CommandHandler;
+  /** Handler for the command, if any */
+  handler: CommandHandler | null;
+  /** Other names of the command */
+  aliases: string[];
+  /** Suggestion providers by argument node name */
+  suggestions: Map<string, SuggestionProvider>;
+  /** Time the handler may run, in milliseconds, or null for no limit */
+  timeout: number | null;
+  /** Whether spectators may run the command */
+  allowSpectators: boolean;
   /** Where the command is registered */
   public registry: CommandRegistry;
+  /** Module that owns the command, if any */
+  public module: Module | null = null;
   /** Descriptor of the command */
   public descriptor: CommandDescriptor;
 
   /**
    * The constructor
    * @param registry
-   * @param name
+   * @param descriptor
+   * @param module Module that owns the command
    */
-  constructor(registry: CommandRegistry, descriptor: CommandDescriptor) {
+  constructor(registry: CommandRegistry, descriptor: CommandDescriptor, module: Module | null = null) {
     this.registry = registry;
     this.descriptor = descriptor;
+    this.module = module;
     this.name = descriptor.name;
     this.description = descriptor.description;
     this.autocomplete = descriptor.autocomplete;
-    this.handler = descriptor.handler;
+    this.handler = descriptor.handler ?? null;
+    this.aliases = (descriptor.aliases ?? []).map(alias => alias.toLowerCase());
+    this.suggestions = new Map(Object.entries(descriptor.suggestions ?? {}));
+    this.timeout = descriptor.timeout === undefined ? DEFAULT_COMMAND_TIMEOUT : descriptor.timeout;
+    this.allowSpectators = descriptor.allowSpectators ?? false;
+  }
+
+  /** Name including the owning module, for example misc:server */
+  get qualifiedName(): string {
+    return this.module ? `${this.module.name}:${this.name}` : this.name;
   }
 
   /** Unregister the command */
@@ -90,6 +251,14 @@ export class Command {
   }
 }
 
+/**
+ * Describe the owner of a command for log messages
+ * @param command
+ */
+function describeOwner(command: Command): string {
+  return command.module ? `module [${command.module.name}]` : 'the proxy';
+}
+
 /** I apologize */
 export interface SerializedCommandNode {
   /* eslint-disable @typescript-eslint/naming-convention,camelcase */
@@ -168,6 +337,8 @@ export class CommandNode {
   public properties?: any;
   /** Suggestions provider for this node */
   public suggestionType?: CommandNodeSuggestions;
+  /** Handler run if the command ends at this node, if any */
+  public handler: CommandHandler | null = null;
   /** Node id when serializing */
   public _serializedId: number | null = null;
   /** Temporary redirect node id when deserializing */
@@ -230,6 +401,17 @@ export class CommandNode {
     return this;
   }
 
+  /**
+   * Set the handler run if the command ends at this node. Makes the node
+   * executable.
+   * @param handler
+   */
+  setHandler(handler: CommandHandler | null): this {
+    this.handler = handler;
+    if (handler) this.flags.isExecutable = true;
+    return this;
+  }
+
   defineChild(child: CommandNode): this {
     this.children.add(child);
     return this;
@@ -364,10 +546,14 @@ export class CommandGraph {
    */
   serialize(): SerializedCommandNode[] {
     let unserialized: CommandNode[] = [];
+    let visited = new Set<CommandNode>();
     let queue: any = new Deque();
     queue.unshift(this.root);
     while (queue.length) {
       let node: CommandNode = queue.pop();
+      // nodes can be reached more than once through redirects
+      if (visited.has(node)) continue;
+      visited.add(node);
       unserialized.push(node);
       // visit children
       for (let child of node.children) queue.unshift(child);
@@ -400,10 +586,20 @@ export class CommandGraph {
 
 /** A registry for commands */
 export class CommandRegistry {
-  /** Registered commands */
+  /** Registered commands by qualified name */
   public commands = new Map<string, Command>();
+  /**
+   * Commands by name and alias. If several commands use the same name, the
+   * first one registered gets it and the others are only available by
+   * qualified name.
+   */
+  public names = new Map<string, Command[]>();
   /** Associated proxy instance */
   public proxy: MinecraftProxy;
+  /** Commands currently running */
+  public running = new Set<CommandContext>();
+  /** Paginated command output */
+  public outputs = new OutputStore();
 
   /**
    * The constructor
@@ -421,58 +617,349 @@ export class CommandRegistry {
   /**
    * Register a new command
    * @param descriptor
+   * @param module Module that owns the command
    */
-  register(descriptor: CommandDescriptor) {
+  register(descriptor: CommandDescriptor, module: Module | null = null) {
     descriptor.name = descriptor.name.toLowerCase();
-    if (this.commands.has(descriptor.name)) {
+    let command = new Command(this, descriptor, module);
+    if (this.commands.has(command.qualifiedName)) {
       throw new Error('command already exists');
     }
-    let command = new Command(this, descriptor);
-    if (
-      command.autocomplete?.name &&
-      this.prefix.startsWith('/') &&
-      !command.autocomplete.name.startsWith(this.prefix.slice(1))
-    ) {
-      command.autocomplete.name = this.prefix.slice(1) + command.autocomplete.name;
+    this._applyPrefix(command, null);
+    this._markSuggestionNodes(command);
+    this.commands.set(command.qualifiedName, command);
+    for (let name of [command.name, ...command.aliases]) {
+      let owners = this.names.get(name);
+      if (!owners) {
+        this.names.set(name, [command]);
+        continue;
+      }
+      logger.warn(`command ${this.prefix}${name} of ${describeOwner(command)} conflicts with ` +
+        `${describeOwner(owners[0])}, use ${this.prefix}${command.qualifiedName} instead`);
+      owners.push(command);
     }
-    this.commands.set(command.name, command);
     return command;
   }
 
+  /**
+   * Find a command by name, alias or qualified name
+   * @param name
+   */
+  resolve(name: string): Command | null {
+    name = name.toLowerCase();
+    let command = this.commands.get(name) ?? this.names.get(name)?.[0];
+    if (command) return command;
+    let target = this.proxy.config.commandAliases[name]?.toLowerCase();
+    if (!target) return null;
+    return this.commands.get(target) ?? this.names.get(target)?.[0] ?? null;
+  }
+
+  /**
+   * Name a command should be invoked by, which is its qualified name if
+   * another command took its name
+   * @param command
+   */
+  invocationName(command: Command): string {
+    return this.names.get(command.name)?.[0] === command ? command.name : command.qualifiedName;
+  }
+
+  /** All names commands can be invoked by, including aliases */
+  get allNames(): string[] {
+    return [...new Set([
+      ...this.names.keys(),
+      ...this.commands.keys(),
+      ...Object.keys(this.proxy.config.commandAliases)
+    ])];
+  }
+
+  /**
+   * Prefix the root autocomplete node of a command with the command prefix
+   * @param command
+   * @param oldPrefix Previously applied prefix to remove, if any
+   */
+  _applyPrefix(command: Command, oldPrefix: string | null) {
+    let node = command.autocomplete;
+    if (!node?.name) return;
+    if (oldPrefix?.startsWith('/') && node.name.startsWith(oldPrefix.slice(1))) {
+      node.name = node.name.slice(oldPrefix.length - 1);
+    }
+    if (this.prefix.startsWith('/') && !node.name.startsWith(this.prefix.slice(1))) {
+      node.name = this.prefix.slice(1) + node.name;
+    }
+  }
+
+  /**
+   * Make argument nodes with a suggestion provider ask for suggestions
+   * @param command
+   */
+  _markSuggestionNodes(command: Command) {
+    if (!command.autocomplete || !command.suggestions.size) return;
+    let visited = new Set<CommandNode>();
+    let queue = [command.autocomplete];
+    while (queue.length) {
+      let node = queue.pop()!;
+      if (visited.has(node)) continue;
+      visited.add(node);
+      if (node.flags.nodeType === CommandNodeType.Argument && command.suggestions.has(node.name!)) {
+        node.suggestionType = CommandNodeSuggestions.AskServer;
+        node.flags.hasCustomSuggestions = true;
+      }
+      queue.push(...node.children);
+      if (node.redirectNode) queue.push(node.redirectNode);
+    }
+  }
+
+  /**
+   * Rewrite autocomplete nodes of all commands after the prefix has changed
+   * @param oldPrefix
+   */
+  updatePrefix(oldPrefix: string) {
+    for (let command of this.commands.values()) this._applyPrefix(command, oldPrefix);
+  }
+
   /**
    * Unregister a previously registered command
    * @param command
    */
   unregister(command: Command) {
-    if (!this.commands.has(command.name)) {
+    if (this.commands.get(command.qualifiedName) !== command) {
       throw new Error('no such command');
     }
-    this.commands.delete(command.name);
+    this.commands.delete(command.qualifiedName);
+    for (let name of [command.name, ...command.aliases]) {
+      let owners = this.names.get(name)!.filter(owner => owner !== command);
+      if (owners.length) this.names.set(name, owners);
+      else this.names.delete(name);
+    }
   }
 
   /**
-   * Execute commands
+   * Execute commands. Handlers run in the background, errors are reported to
+   * the client and logged instead of thrown.
    * @param message Message to process
+   * @param client Client that sent the message
+   * @param createContext Creates the command context, for commands that do
+   *   not come from a client
    * @return Whether the message was a command
    */
-  execute(message: string): boolean {
+  execute(
+    message: string,
+    client: mc.Client | null = null,
+    createContext: ContextFactory = args => new CommandContext(args, this.proxy, client)
+  ): boolean {
     if (!message.startsWith(this.prefix)) return false;
     let args = message.split(' ');
     args[0] = args[0].slice(this.prefix.length);
-    let ctx = new CommandContext(args, this.proxy);
-    let command = this.commands.get(args[0].toLowerCase());
+    let ctx = createContext(args);
+    let command = this.resolve(args[0]);
     if (!command) {
       // TODO: maybe make this configurable?
-      ctx.reply({
-        color: 'red',
-        text: '[proxy] Command not found'
-      });
+      let suggestions = closestMatches(args[0], this.allNames, 2);
+      let reply = chat('[proxy] Command not found').color('red');
+      if (suggestions.length) {
+        reply.append(', did you mean ');
+        suggestions.slice(0, 3).forEach((name, i) => {
+          if (i > 0) reply.append(', ');
+          reply.append(this._suggestComponent(this.prefix + name, this.prefix + name + ' '));
+        });
+        reply.append('?');
+      }
+      ctx.reply(reply);
       return true;
     }
-    command.handler(ctx);
+    if (client && client !== this.proxy.proxyClient && !command.allowSpectators) {
+      ctx.reply(chat(`[proxy] Spectators cannot use ${this.prefix}${this.invocationName(command)}`).color('red'));
+      return true;
+    }
+    let handler = command.handler;
+    if (command.autocomplete) {
+      try {
+        let start = this.prefix.length + args[0].length;
+        let { args: parsedArgs, nodes } = parseCommand(command.autocomplete, message, start);
+        ctx.parsedArgs = parsedArgs;
+        ctx.path = nodes.map(node => node.name!);
+        // the deepest node with a handler handles the command
+        for (let node of [command.autocomplete, ...nodes]) handler = node.handler ?? handler;
+      } catch (err) {
+        if (err instanceof CommandSyntaxError) {
+          ctx.reply(this._formatSyntaxError(command, err));
+        } else {
+          logger.error(`command ${this.prefix}${command.qualifiedName} failed`, err);
+          ctx.reply(this._formatError(command, err));
+        }
+        return true;
+      }
+    }
+    ctx.command = command;
+    if (!handler) {
+      let err = new CommandSyntaxError('Incomplete command', message, message.length);
+      ctx.reply(this._formatSyntaxError(command, err));
+      return true;
+    }
+    ctx.finished = this._run(ctx, handler);
     return true;
   }
 
+  /**
+   * Run the handler of a command and report errors
+   * @param ctx
+   * @param handler
+   */
+  async _run(ctx: CommandContext, handler: CommandHandler) {
+    let command = ctx.command!;
+    let timeout: NodeJS.Timeout | null = null;
+    if (command.timeout !== null) {
+      timeout = setTimeout(() => {
+        ctx.abort(new CommandAbortedError(`timed out after ${command.timeout! / 1000}s`));
+      }, command.timeout);
+    }
+    this.running.add(ctx);
+    try {
+      await Promise.race([handler(ctx), ctx._aborted]);
+    } catch (err) {
+      if (err instanceof CommandAbortedError) {
+        ctx.reply(chat(`[proxy] ${this.prefix}${this.invocationName(command)} ${err.message}`).color('red'));
+      } else {
+        logger.error(`command ${this.prefix}${command.qualifiedName} failed`, err);
+        ctx.reply(this._formatError(command, err));
+      }
+    } finally {
+      if (timeout) clearTimeout(timeout);
+      this.running.delete(ctx);
+    }
+  }
+
+  /**
+   * Cancel running commands of an owner
+   * @param owner Owner of the commands, see CommandContext.owner
+   * @param except Command to leave running, such as the one cancelling
+   * @return Number of commands cancelled
+   */
+  cancel(owner: object | null, except: CommandContext | null = null): number {
+    let cancelled = 0;
+    for (let ctx of this.running) {
+      if (ctx === except || ctx.owner !== owner) continue;
+      ctx.abort(new CommandAbortedError('was cancelled'));
+      cancelled++;
+    }
+    return cancelled;
+  }
+
+  /**
+   * Format an error thrown by a command handler. The stack trace is included
+   * if debug logging is enabled.
+   * @param command
+   * @param err
+   */
+  _formatError(command: Command, err: any): ChatBuilder {
+    let message = err instanceof Error ? err.message : String(err);
+    let reply = chat(`[proxy] ${this.prefix}${this.invocationName(command)} failed: ${message}`).color('red');
+    if (logger.isDebugEnabled() && err?.stack) reply.append(chat(`\n${err.stack}`).color('gray'));
+    return reply;
+  }
+
+  /**
+   * Format a parse failure like vanilla does, followed by command usage
+   * @param command
+   * @param err
+   */
+  _formatSyntaxError(command: Command, err: CommandSyntaxError): ChatBuilder {
+    let usages = this.formatUsages(command).flatMap(usage => ['\n  ', usage]);
+    return chat(`[proxy] ${err.message}\n`)
+      .color('red')
+      .append(
+        chat(err.context).color('gray'),
+        chat(err.rest).underlined(),
+        chat('<--[HERE]').italic(),
+        chat('\nUsage:').color('red'),
+        ...usages
+      );
+  }
+
+  /**
+   * Answer a tab completion request for a command of the registry. The client
+   * replaces a single span of the text, so if candidates at different
+   * positions have matches, only the ones starting last are used.
+   * @param text Text typed so far, including the prefix
+   * @param client Client that asked for suggestions
+   * @return Suggestions, or null if the text is not a command of the registry
+   */
+  async getSuggestions(text: string, client: mc.Client | null = null): Promise<SuggestionResult | null> {
+    if (!text.startsWith(this.prefix)) return null;
+    let name = text.slice(this.prefix.length).split(' ')[0];
+    let command = this.resolve(name);
+    if (!command?.autocomplete) return null;
+    let candidates = findCompletions(command.autocomplete, text, this.prefix.length + name.length);
+    let result: SuggestionResult = { start: -1, length: 0, matches: [] };
+    for (let candidate of candidates) {
+      if (candidate.start < result.start) continue;
+      let suggestions: (string | Suggestion)[];
+      if (candidate.node.flags.nodeType === CommandNodeType.Literal) {
+        suggestions = [candidate.node.name!];
+      } else {
+        let provider = command.suggestions.get(candidate.node.name!);
+        if (!provider) continue;
+        try {
+          suggestions = await provider({
+            proxy: this.proxy,
+            client,
+            node: candidate.node,
+            partial: candidate.partial,
+            args: candidate.args,
+            path: candidate.nodes.map(node => node.name!)
+          });
+        } catch (err) {
+          let argument = `${this.prefix}${command.qualifiedName} <${candidate.node.name}>`;
+          logger.error(`suggestion provider for ${argument} failed`, err);
+          continue;
+        }
+      }
+      let partial = candidate.partial.toLowerCase();
+      let matches: Suggestion[] = [];
+      for (let suggestion of suggestions) {
+        if (typeof suggestion === 'string') suggestion = { text: suggestion };
+        if (!suggestion.text.toLowerCase().startsWith(partial)) continue;
+        matches.push(suggestion);
+      }
+      if (!matches.length) continue;
+      if (candidate.start > result.start) {
+        result = { start: candidate.start, length: text.length - candidate.start, matches: [] };
+      }
+      result.matches.push(...matches);
+    }
+    if (result.start < 0) return { start: text.length, length: 0, matches: [] };
+    return result;
+  }
+
+  /**
+   * Build a chat component that suggests a command when clicked
+   * @param text Text to show
+   * @param suggestion Text to put into the chat box
+   */
+  _suggestComponent(text: string, suggestion: string): ChatComponent {
+    return chat(text)
+      .color('gray')
+      .suggestCommand(suggestion)
+      .hover('Click to insert')
+      .toJSON();
+  }
+
+  /**
+   * Render usages of a command from its autocomplete graph as chat
+   * components that suggest the command when clicked
+   * @param command
+   */
+  formatUsages(command: Command): ChatComponent[] {
+    let name = this.prefix + this.invocationName(command);
+    let usages = command.autocomplete ? getUsages(command.autocomplete, name) : [name];
+    return usages.map(usage => {
+      // suggest everything up to the first argument so it can be typed in
+      let argumentStart = usage.indexOf(' <');
+      let suggestion = argumentStart >= 0 ? usage.slice(0, argumentStart + 1) : usage;
+      return this._suggestComponent(usage, suggestion);
+    });
+  }
+
   /**
    * Get list of autocomplete nodes
    * @param graph
@@ -480,11 +967,25 @@ export class CommandRegistry {
   getAutocompleteNodes(): Set<CommandNode> {
     if (!this.prefix.startsWith('/')) return new Set(); // nothing to do here
     let out = new Set<CommandNode>();
+    let prefix = this.prefix.slice(1);
+    let redirect = (name: string, node: CommandNode) => new CommandNode(prefix + name)
+      .asLiteral()
+      .setExecutable(node.flags.isExecutable)
+      .setRedirect(node);
     for (let command of this.commands.values()) {
-      if (command.autocomplete) {
-        out.add(command.autocomplete);
+      let node = command.autocomplete;
+      if (!node) continue;
+      if (this.invocationName(command) === command.name) out.add(node);
+      else out.add(redirect(command.qualifiedName, node));
+      for (let alias of command.aliases) {
+        if (this.names.get(alias)![0] === command) out.add(redirect(alias, node));
       }
     }
+    for (let alias of Object.keys(this.proxy.config.commandAliases)) {
+      if (this.names.has(alias) || this.commands.has(alias)) continue;
+      let node = this.resolve(alias)?.autocomplete;
+      if (node) out.add(redirect(alias, node));
+    }
     return out;
   }
 }
@@ -0,0 +1,362 @@
+import { promises as fsP, watch, FSWatcher } from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import type { ProxyConfiguration } from './proxy';
+import { closestMatches } from './utils';
+import logger from './logger';
+
+/** Thrown when a configuration file cannot be read, parsed or validated */
+export class ConfigurationError extends Error {
+  /** Individual problems found in the configuration */
+  public problems: string[];
+
+  /**
+   * The constructor
+   * @param file Path to the offending configuration file
+   * @param problems
+   */
+  constructor(public file: string, problems: string[]) {
+    super([`invalid configuration in ${file}:`, ...problems.map(p => `  ${p}`)].join('\n'));
+    this.name = 'ConfigurationError';
+    this.problems = problems;
+  }
+}
+
+/** Describes the expected shape of a configuration value */
+export interface SchemaEntry {
+  /** Expected type of the value */
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'any';
+  /** Whether the value is required to be present */
+  required?: boolean;
+  /** Whether null is an acceptable value */
+  nullable?: boolean;
+  /** Minimum value (numbers) or length (strings) */
+  min?: number;
+  /** Maximum value (numbers) or length (strings) */
+  max?: number;
+  /** Schema of array elements */
+  items?: SchemaEntry;
+  /** Known object properties. Properties not listed are rejected. */
+  properties?: Record<string, SchemaEntry>;
+  /** Schema of every value of an object with arbitrary keys */
+  values?: SchemaEntry;
+  /** Allowed values (strings) */
+  oneOf?: string[];
+  /** Whether the value must be a valid regular expression (strings) */
+  regexp?: boolean;
+}
+
+/** Schema of the proxy configuration file */
+export const CONFIG_SCHEMA: Record<keyof ProxyConfiguration, SchemaEntry> = {
+  proxyPort: { type: 'integer', min: 0, max: 65535 },
+  serverAddress: { type: 'string', required: true },
+  serverPort: { type: 'integer', min: 0, max: 65535 },
+  version: { type: 'string' },
+  motd: { type: 'string' },
+  username: { type: 'string', required: true },
+  password: { type: 'string', nullable: true },
+  accessToken: { type: 'string', nullable: true },
+  clientToken: { type: 'string', nullable: true },
+  session: { type: 'any', nullable: true },
+  modulesDir: { type: 'string', nullable: true },
+  modules: { type: 'array', items: { type: 'string' } },
+  moduleConfig: { type: 'object', values: { type: 'any' } },
+  watchModules: { type: 'boolean' },
+  commandPrefix: { type: 'string', min: 1 },
+  commandAliases: { type: 'object', values: { type: 'string', min: 1 } },
+  maxSpectators: { type: 'integer', min: 0 },
+  limbo: { type: 'boolean' },
+  reconnect: {
+    type: 'object',
+    nullable: true,
+    properties: {
+      initialDelay: { type: 'integer', min: 0 },
+      maxDelay: { type: 'integer', min: 0 },
+      multiplier: { type: 'number', min: 1 },
+      maxAttempts: { type: 'integer', min: 0 },
+      rules: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            pattern: { type: 'string', required: true, regexp: true },
+            retry: { type: 'boolean', required: true },
+            minDelay: { type: 'integer', min: 0 }
+          }
+        }
+      }
+    }
+  },
+  recordingsDir: { type: 'string' },
+  replay: { type: 'string', nullable: true },
+  dataDir: { type: 'string' },
+  hookErrors: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', oneOf: ['forward', 'drop'] },
+      maxErrors: { type: 'integer', min: 1 },
+      errorWindow: { type: 'integer', min: 0 },
+      timeBudget: { type: 'integer', min: 0 }
+    }
+  },
+  console: { type: 'boolean' },
+  consoleSocket: { type: 'string', nullable: true, min: 1 }
+};
+
+/** Describe the type of a value for error messages */
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validate a value against a schema entry
+ * @param value
+ * @param schema
+ * @param key Path to the value, for error messages
+ * @param problems Array to collect problems into
+ */
+function validateEntry(value: any, schema: SchemaEntry, key: string, problems: string[]) {
+  if (value === null) {
+    if (!schema.nullable && schema.type !== 'any') problems.push(`${key}: must not be null`);
+    return;
+  }
+  switch (schema.type) {
+    case 'any': return;
+    case 'string': {
+      if (typeof value !== 'string') {
+        problems.push(`${key}: expected string, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.min !== undefined && value.length < schema.min) {
+        problems.push(`${key}: must be at least ${schema.min} characters long`);
+      }
+      if (schema.max !== undefined && value.length > schema.max) {
+        problems.push(`${key}: must be at most ${schema.max} characters long`);
+      }
+      if (schema.oneOf && !schema.oneOf.includes(value)) {
+        problems.push(`${key}: must be one of ${schema.oneOf.join(', ')}`);
+      }
+      if (schema.regexp) {
+        try {
+          new RegExp(value); // eslint-disable-line no-new
+        } catch (err) {
+          problems.push(`${key}: invalid regular expression`);
+        }
+      }
+      return;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        problems.push(`${key}: expected ${schema.type}, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        problems.push(`${key}: expected integer, got ${value}`);
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        problems.push(`${key}: must be at least ${schema.min}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        problems.push(`${key}: must be at most ${schema.max}`);
+      }
+      return;
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        problems.push(`${key}: expected boolean, got ${describeType(value)}`);
+      }
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        problems.push(`${key}: expected array, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          validateEntry(value[i], schema.items, `${key}[${i}]`, problems);
+        }
+      }
+      return;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        problems.push(`${key}: expected object, got ${describeType(value)}`);
+        return;
+      }
+      if (schema.properties) validateObject(value, schema.properties, key + '.', problems);
+      else if (schema.values) {
+        for (let [subkey, subvalue] of Object.entries(value)) {
+          validateEntry(subvalue, schema.values, `${key}.${subkey}`, problems);
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Validate an object against a set of property schemas
+ * @param value
+ * @param properties
+ * @param prefix Prefix of keys, for error messages
+ * @param problems Array to collect problems into
+ */
+function validateObject(
+  value: Record<string, any>,
+  properties: Record<string, SchemaEntry>,
+  prefix: string,
+  problems: string[]
+) {
+  for (let [key, schema] of Object.entries(properties)) {
+    if (value[key] === undefined) {
+      if (schema.required) problems.push(`${prefix}${key}: required but not provided`);
+      continue;
+    }
+    validateEntry(value[key], schema, prefix + key, problems);
+  }
+  for (let key of Object.keys(value)) {
+    if (key in properties) continue;
+    let suggestions = closestMatches(key, Object.keys(properties));
+    if (suggestions.length) {
+      problems.push(`${prefix}${key}: unknown key (did you mean ${suggestions[0]}?)`);
+    } else {
+      problems.push(`${prefix}${key}: unknown key`);
+    }
+  }
+}
+
+/**
+ * Validate a parsed configuration object
+ * @param config
+ * @return List of problems, empty if the configuration is valid
+ */
+export function validateConfig(config: any): string[] {
+  let problems: string[] = [];
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    problems.push(`expected configuration to be an object, got ${describeType(config)}`);
+    return problems;
+  }
+  validateObject(config, CONFIG_SCHEMA, '', problems);
+  return problems;
+}
+
+/**
+ * Parse configuration file contents. JSON is used for .json files, YAML for
+ * everything else.
+ * @param file Path of the file, used to determine format
+ * @param contents
+ */
+export function parseConfig(file: string, contents: string): any {
+  try {
+    if (path.extname(file).toLowerCase() === '.json') return JSON.parse(contents);
+    return YAML.parse(contents);
+  } catch (err) {
+    throw new ConfigurationError(file, [`parse error: ${err.message}`]);
+  }
+}
+
+/**
+ * Load and validate a configuration file
+ * @param file Path to the file
+ * @return Validated configuration
+ */
+export async function loadConfigFile(file: string): Promise<ProxyConfiguration> {
+  let contents: string;
+  try {
+    contents = (await fsP.readFile(file)).toString();
+  } catch (err) {
+    throw new ConfigurationError(file, [`could not read file: ${err.message}`]);
+  }
+  let config = parseConfig(file, contents);
+  let problems = validateConfig(config);
+  if (problems.length) throw new ConfigurationError(file, problems);
+  // relative paths are relative to the configuration file
+  if (config.modulesDir) {
+    config.modulesDir = path.resolve(path.dirname(file), config.modulesDir);
+  }
+  if (config.recordingsDir) {
+    config.recordingsDir = path.resolve(path.dirname(file), config.recordingsDir);
+  }
+  if (config.dataDir) {
+    config.dataDir = path.resolve(path.dirname(file), config.dataDir);
+  }
+  if (config.consoleSocket) {
+    config.consoleSocket = path.resolve(path.dirname(file), config.consoleSocket);
+  }
+  return config as ProxyConfiguration;
+}
+
+/** Watches a configuration file and reports new configurations on change */
+export class ConfigFileWatcher {
+  /** Full path of the watched file */
+  public file: string;
+  /** Debounce delay for change events, in milliseconds */
+  public debounce: number;
+  /** Underlying fs watcher */
+  public watcher: FSWatcher | null = null;
+  /** Pending debounce timer */
+  public timeout: NodeJS.Timeout | null = null;
+
+  /**
+   * The constructor
+   * @param file File to watch
+   * @param onChange Called with the new configuration after a valid change
+   * @param debounce
+   */
+  constructor(
+    file: string,
+    public onChange: (config: ProxyConfiguration) => Promise<void>,
+    debounce = 250
+  ) {
+    this.file = path.resolve(file);
+    this.debounce = debounce;
+  }
+
+  /** Start watching */
+  start() {
+    if (this.watcher) return;
+    // watch the directory instead of the file, editors tend to replace files
+    // when saving which would end a watch on the file itself
+    let basename = path.basename(this.file);
+    this.watcher = watch(path.dirname(this.file), (_event, filename) => {
+      if (filename && filename.toString() !== basename) return;
+      if (this.timeout) clearTimeout(this.timeout);
+      this.timeout = setTimeout(() => {
+        this.timeout = null;
+        this._reload();
+      }, this.debounce);
+    });
+  }
+
+  /** Stop watching */
+  stop() {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /** Load the changed file and pass it on */
+  async _reload() {
+    let config: ProxyConfiguration;
+    try {
+      config = await loadConfigFile(this.file);
+    } catch (err) {
+      if (err instanceof ConfigurationError) {
+        logger.error(`${err.message}\nkeeping previous configuration`);
+        return;
+      }
+      throw err;
+    }
+    logger.info(`configuration file [${this.file}] changed, reloading`);
+    try {
+      await this.onChange(config);
+    } catch (err) {
+      logger.error('failed to apply new configuration', err);
+    }
+  }
+}
@@ -0,0 +1,370 @@
+import { EventEmitter } from 'events';
+import { promises as fsP } from 'fs';
+import * as net from 'net';
+import * as readline from 'readline';
+import * as repl from 'repl';
+import { Readable, Writable } from 'stream';
+import { inspect } from 'util';
+import MinecraftProxy from './proxy';
+import { CommandContext } from './command';
+import { ChatInput, chat, toAnsi, toComponent } from './chat';
+import { PaginateOptions, splitLines } from './pagination';
+import logger from './logger';
+
+/** Result of evaluating code, as returned by the eval module */
+export interface EvalResult {
+  /** Value of the code, or the error it threw */
+  value: any;
+  /** Whether the code threw */
+  error: boolean;
+  /** Name the value was stored as in the eval context, if it was */
+  ref: string | null;
+}
+
+/** Interface of the eval module used by eval sessions */
+interface Evaluator {
+  evaluate(code: string): Promise<EvalResult>;
+}
+
+/** Syntax errors that mean more input is needed */
+const INCOMPLETE_INPUT = /^(Unexpected end of input|Unterminated template literal|missing \) after argument list)/;
+
+/** Context of a command executed on a console, replies are written as ANSI text */
+export class ConsoleCommandContext extends CommandContext {
+  /** Console session the command was executed on */
+  public session: ConsoleSession;
+
+  /**
+   * The constructor
+   * @param args
+   * @param proxy
+   * @param session
+   */
+  constructor(args: string[], proxy: MinecraftProxy, session: ConsoleSession) {
+    super(args, proxy, null);
+    this.session = session;
+    this.owner = session;
+  }
+
+  reply(message: ChatInput) {
+    this.session.write(toAnsi(message));
+  }
+
+  /**
+   * Consoles can scroll, so the output is written in full
+   * @param output
+   * @param options
+   */
+  paginate(output: ChatInput | ChatInput[], options: PaginateOptions = {}) {
+    let title = typeof options.title === 'string' ? chat(options.title).color('gold').toJSON() : options.title;
+    if (title) this.reply(toComponent(title));
+    for (let line of splitLines(output)) this.reply(line);
+  }
+}
+
+/**
+ * Interactive session reading proxy commands from a stream. The command
+ * prefix is optional. The session can switch to an eval prompt bound to the
+ * context of the eval module.
+ */
+export class ConsoleSession extends EventEmitter {
+  /** Associated proxy instance */
+  public proxy: MinecraftProxy;
+  /** Stream commands are read from */
+  public input: Readable;
+  /** Stream output is written to */
+  public output: Writable;
+  /** Whether the streams are a terminal */
+  public terminal: boolean;
+  /** Reads commands, if at the command prompt */
+  public readline: readline.Interface | null = null;
+  /** Eval prompt, if in an eval session */
+  public repl: repl.REPLServer | null = null;
+  /** Whether the session has ended */
+  public closed = false;
+
+  /**
+   * The constructor
+   * @param proxy
+   * @param input
+   * @param output
+   * @param terminal Whether the streams are a terminal
+   */
+  constructor(proxy: MinecraftProxy, input: Readable, output: Writable, terminal = false) {
+    super();
+    this.proxy = proxy;
+    this.input = input;
+    this.output = output;
+    this.terminal = terminal;
+    // must run before the prompts notice, so they do not start over
+    input.once('end', () => this.close());
+  }
+
+  /** Start reading commands */
+  start() {
+    this.write(`proxy console, type help for a list of commands, .eval for an eval session or .exit to leave`);
+    this._startCommands();
+  }
+
+  /**
+   * Write a line of output
+   * @param text
+   */
+  write(text: string) {
+    if (!this.closed) this.output.write(text + '\n');
+  }
+
+  /** End the session */
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    let { readline, repl } = this;
+    this.readline = null;
+    this.repl = null;
+    readline?.close();
+    repl?.close();
+    this.emit('close');
+  }
+
+  /** Show the command prompt */
+  _startCommands() {
+    let rl = readline.createInterface({
+      input: this.input,
+      output: this.output,
+      terminal: this.terminal,
+      prompt: 'proxy> ',
+      completer: (line: string, callback: (err: Error | null, result: [string[], string]) => void) => {
+        this._complete(line).then(result => callback(null, result), err => callback(err, [[], line]));
+      }
+    });
+    rl.on('line', line => this._line(line));
+    rl.on('SIGINT', () => this.emit('interrupt'));
+    // errors of the input stream are passed on, they end the session
+    rl.on('error', err => this._streamError(err));
+    rl.on('close', () => {
+      if (this.readline === rl) this.close();
+    });
+    this.readline = rl;
+    rl.prompt();
+  }
+
+  /**
+   * Handle a line entered at the command prompt
+   * @param line
+   */
+  async _line(line: string) {
+    line = line.trim();
+    if (line === '.exit') {
+      this.close();
+      return;
+    }
+    if (line === '.eval') {
+      this._startEval();
+      return;
+    }
+    if (line) {
+      let registry = this.proxy.commandRegistry;
+      let message = line.startsWith(registry.prefix) ? line : registry.prefix + line;
+      let ctx = null as ConsoleCommandContext | null;
+      registry.execute(message, null, args => ctx = new ConsoleCommandContext(args, this.proxy, this));
+      await ctx?.finished;
+    }
+    this.readline?.prompt();
+  }
+
+  /**
+   * Complete a command at the command prompt
+   * @param line
+   * @return Completions and the part of the line they replace
+   */
+  async _complete(line: string): Promise<[string[], string]> {
+    let registry = this.proxy.commandRegistry;
+    let prefix = line.startsWith(registry.prefix) ? registry.prefix : '';
+    if (!line.includes(' ')) {
+      let partial = line.slice(prefix.length).toLowerCase();
+      let names = registry.allNames.filter(name => name.startsWith(partial)).sort();
+      return [names.map(name => prefix + name), line];
+    }
+    let text = prefix ? line : registry.prefix + line;
+    let result = await registry.getSuggestions(text);
+    if (!result) return [[], line];
+    let start = Math.max(result.start - (text.length - line.length), 0);
+    return [result.matches.map(match => match.text), line.slice(start)];
+  }
+
+  /** Find the eval module, if it is loaded */
+  _evaluator(): Evaluator | null {
+    let module: any = this.proxy.moduleRegistry.get('eval');
+    if (!module?.loaded || typeof module.evaluate !== 'function') return null;
+    return module;
+  }
+
+  /** Switch from the command prompt to an eval prompt */
+  _startEval() {
+    if (!this._evaluator()) {
+      this.write(toAnsi(chat('the eval module is not loaded').color('red')));
+      this.readline?.prompt();
+      return;
+    }
+    let rl = this.readline;
+    this.readline = null;
+    rl?.close();
+    this.write('eval session, results are stored as $1, $2, ... and $_, type .exit to return to commands');
+    let server = repl.start({
+      prompt: 'eval> ',
+      input: this.input,
+      output: this.output,
+      terminal: this.terminal,
+      eval: (code: string, _context: any, _file: string, callback: (err: Error | null, result?: any) => void) => {
+        this._evaluate(code).then(result => {
+          if (result.error && result.value?.name === 'SyntaxError' && INCOMPLETE_INPUT.test(result.value.message)) {
+            callback(new repl.Recoverable(result.value));
+          } else callback(null, result);
+        });
+      },
+      writer: (result: EvalResult) => {
+        let formatted = inspect(result.value, { colors: this.terminal });
+        if (result.error) return `Uncaught ${formatted}`;
+        return result.ref ? `${result.ref} = ${formatted}` : formatted;
+      }
+    });
+    server.on('error', err => this._streamError(err));
+    server.on('exit', () => {
+      if (this.repl !== server) return;
+      this.repl = null;
+      if (!this.closed) this._startCommands();
+    });
+    this.repl = server;
+  }
+
+  /**
+   * Handle an error of the input stream passed on by a prompt
+   * @param err
+   */
+  _streamError(err: Error) {
+    logger.debug('console input error', err);
+    this.close();
+  }
+
+  /**
+   * Evaluate code using the current eval module, which may have been reloaded
+   * since the session started
+   * @param code
+   */
+  async _evaluate(code: string): Promise<EvalResult> {
+    let evaluator = this._evaluator();
+    if (!evaluator) return { value: new Error('the eval module is not loaded'), error: true, ref: null };
+    return await evaluator.evaluate(code);
+  }
+}
+
+/** Runs console sessions on standard input and on a UNIX socket */
+export class AdminConsole {
+  /** Associated proxy instance */
+  public proxy: MinecraftProxy;
+  /** Session on standard input, if enabled */
+  public stdinSession: ConsoleSession | null = null;
+  /** Server accepting sessions on the socket, if enabled */
+  public server: net.Server | null = null;
+  /** Path of the socket, if listening */
+  public socketPath: string | null = null;
+  /** Sessions on the socket */
+  public sessions = new Set<ConsoleSession>();
+
+  /**
+   * The constructor
+   * @param proxy
+   */
+  constructor(proxy: MinecraftProxy) {
+    this.proxy = proxy;
+  }
+
+  /** Start the console as configured */
+  async start() {
+    let config = this.proxy.config;
+    if (config.console) this.startStdin();
+    if (config.consoleSocket) {
+      try {
+        await this.listen(config.consoleSocket);
+      } catch (err) {
+        logger.warn(`failed to listen on console socket ${config.consoleSocket}`, err);
+      }
+    }
+  }
+
+  /** Read commands from standard input */
+  startStdin() {
+    if (this.stdinSession) return;
+    let terminal = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+    let session = new ConsoleSession(this.proxy, process.stdin, process.stdout, terminal);
+    // the prompt takes over ctrl+c, so stop the proxy like it normally would
+    session.on('interrupt', () => {
+      session.close();
+      process.kill(process.pid, 'SIGINT');
+    });
+    session.on('close', () => {
+      if (this.stdinSession === session) this.stdinSession = null;
+    });
+    this.stdinSession = session;
+    session.start();
+  }
+
+  /**
+   * Accept console sessions on a UNIX socket. A stale socket file is replaced.
+   * @param file Path of the socket
+   */
+  async listen(file: string) {
+    if (this.server) throw new Error('already listening');
+    try {
+      if ((await fsP.stat(file)).isSocket()) await fsP.unlink(file);
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+    let server = net.createServer(socket => this._accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(file, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+    server.on('error', err => logger.error('console socket error', err));
+    // the console has full control over the proxy
+    await fsP.chmod(file, 0o600);
+    this.server = server;
+    this.socketPath = file;
+    logger.info(`console listening on ${file}`);
+  }
+
+  /**
+   * Start a session on a new socket connection
+   * @param socket
+   */
+  _accept(socket: net.Socket) {
+    logger.info('console session opened on socket');
+    let session = new ConsoleSession(this.proxy, socket, socket);
+    this.sessions.add(session);
+    session.on('close', () => {
+      this.sessions.delete(session);
+      socket.end();
+      logger.info('console session on socket closed');
+    });
+    socket.on('error', err => {
+      logger.debug('console socket connection error', err);
+      session.close();
+    });
+    session.start();
+  }
+
+  /** Close all sessions and stop listening */
+  async stop() {
+    this.stdinSession?.close();
+    for (let session of this.sessions) session.close();
+    let server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise(resolve => server!.close(resolve));
+    if (this.socketPath) await fsP.unlink(this.socketPath).catch(() => {});
+    this.socketPath = null;
+  }
+}
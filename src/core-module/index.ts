@@ -1,14 +1,41 @@
+import { promises as fsP } from 'fs';
 import * as path from 'path';
+import type mc from 'minecraft-protocol';
 import { Module } from '../module';
-import { Direction } from '../hook';
+import { PROXY_TELEPORT_ID_BASE } from '../proxy';
+import { formatReplayTime, parseReplayTime } from '../replay';
+import { Direction, Hook } from '../hook';
 import logger from '../logger';
-import { CommandNode, SerializedCommandNode, CommandGraph } from '../command';
+import { closestMatches } from '../utils';
+import { CommandNode, SerializedCommandNode, CommandGraph, CommandContext } from '../command';
+import { numberRange } from '../command-parser';
+import { chat, ChatComponent, serializeChat } from '../chat';
 
 /**
  * This is the module responsible for providing core functionality such as
  * commands. It should never be unloaded.
  */
 
+/**
+ * Describe a hook and its statistics as a chat component
+ * @param hook
+ */
+function describeHook(hook: Hook): ChatComponent {
+  let { calls, totalTime, maxTime, cancels, errors } = hook.stats;
+  let average = calls ? totalTime / calls : 0;
+  let owner = hook.module?.name ?? 'unknown';
+  let description = chat().append(
+    chat(`#${hook.seq} `).color('gray'),
+    hook.name ? `${hook.name} ` : '',
+    chat(`${Direction[hook.scope]} ${hook.type}`).color(hook.enabled ? 'white' : 'red'),
+    chat(` [${owner}] priority ${hook.priority}`).color('gray'),
+    `: ${calls} calls, avg ${average.toFixed(3)} ms, max ${maxTime.toFixed(3)} ms`,
+    `, ${cancels} cancelled, ${errors} errors`
+  );
+  if (!hook.enabled) description.append(chat(' (disabled)').color('red'));
+  return description.toJSON();
+}
+
 /**
  * Convert a javascript integer (53 bits) to two 32-bit numbers
  * @param n
@@ -38,7 +65,11 @@ export default class CoreModule extends Module {
   /** Nodes regsitered in the command graph belonging to local commands */
   public localCommandNodes = new Set<CommandNode>();
 
-  /** Whether the proxy should disconnect from the server when the client disconnects */
+  /**
+   * Whether the proxy should disconnect from the server when the client
+   * disconnects. If false, the session is kept alive and replayed to the next
+   * client that connects. Set with the disconnectOnClientQuit module option.
+   */
   public disconnectOnClientQuit = true;
 
   // if this works color me surprised
@@ -52,6 +83,25 @@ export default class CoreModule extends Module {
     'localCommandNodes'
   ];
 
+  /** Start sending keepalives to the controlling client */
+  _startClientKeepAlive() {
+    this.clientKeepAliveCheckInterval = setInterval(
+      this.bindCallback('_clientKeepAliveCheckIntervalCallback'), 15 * 1000);
+  }
+
+  /** Stop sending keepalives to the controlling client */
+  _stopClientKeepAlive() {
+    if (this.clientKeepAliveCheckInterval) {
+      clearInterval(this.clientKeepAliveCheckInterval);
+      this.clientKeepAliveCheckInterval = null;
+    }
+    if (this.clientKeepAliveTimeout) {
+      clearTimeout(this.clientKeepAliveTimeout);
+      this.clientKeepAliveTimeout = null;
+    }
+    this.clientKeepAliveLastValue = null;
+  }
+
   _clientKeepAliveCheckIntervalCallback() {
     // notchian server sends keepalive to client every 15 seconds
     this.clientKeepAliveLastValue = to64BitNumber(Date.now());
@@ -71,7 +121,7 @@ export default class CoreModule extends Module {
 
   _serverKeepAliveTimeoutCallback() {
     logger.warn('server connection timed out');
-    this.proxy.disconnectServer();
+    this.proxy.disconnectServer(true);
     this.serverKeepAliveTimeout = null;
   }
 
@@ -91,33 +141,217 @@ export default class CoreModule extends Module {
       this.commandGraph.root.children.size - this.localCommandNodes.size);
   }
 
-  /** Update and send the command graph to the client */
-  updateAndSendCommandGraph() {
-    this.updateCommandGraph();
+  /**
+   * Send the current command graph to a client
+   * @param client
+   */
+  sendCommandGraph(client: mc.Client | null = this.proxy.proxyClient) {
+    if (!this.commandGraph) return;
     this.proxy.injectClient('declare_commands', {
-      nodes: this.commandGraph!.serialize(),
+      nodes: this.commandGraph.serialize(),
       rootIndex: 0
-    });
+    }, client);
+  }
+
+  /** Update and send the command graph to all clients */
+  updateAndSendCommandGraph() {
+    this.updateCommandGraph();
+    for (let client of this.proxy.clients) this.sendCommandGraph(client);
+  }
+
+  /** Apply module configuration */
+  _applyConfig() {
+    this.disconnectOnClientQuit = this.config?.disconnectOnClientQuit ?? true;
+  }
+
+  async _configChanged(_oldConfig: any) {
+    this._applyConfig();
   }
 
   async _load(reloading: boolean) {
     // reattach self to the main proxy object
     if (reloading) this.proxy.coreModule = this;
+    this._applyConfig();
 
-    // register command handler
+    // register command handler, other modules can order their chat hooks
+    // relative to core:commands
     this.registerHook(Direction.ClientToServer, 'chat', async event => {
-      if (this.proxy.commandRegistry.execute(event.data.message)) {
+      if (this.proxy.commandRegistry.execute(event.data.message, event.client)) {
         event.cancel();
+      } else if (this.proxy.limbo.active) {
+        this.proxy.sendChat(chat('[proxy] Not connected to a server').color('red'), event.client);
+        event.cancel();
+      }
+    }, { name: 'commands' });
+
+    // answer tab completion for local commands, everything else goes upstream
+    this.registerHook(Direction.ClientToServer, 'tab_complete', async event => {
+      let result = await this.proxy.commandRegistry.getSuggestions(event.data.text, event.client);
+      if (!result) return;
+      event.cancel();
+      this.proxy.injectClient('tab_complete', {
+        transactionId: event.data.transactionId,
+        start: result.start,
+        length: result.length,
+        matches: result.matches.map(suggestion => ({
+          match: suggestion.text,
+          tooltip: suggestion.tooltip ? serializeChat(suggestion.tooltip) : undefined
+        }))
+      }, event.client);
+    }, { name: 'suggestions' });
+
+    this.registerCommand({
+      name: 'help',
+      description: [
+        'Show available commands',
+        '  help - list commands',
+        '  help <command> - show help and usage of a command'
+      ].join('\n'),
+      allowSpectators: true,
+      autocomplete: new CommandNode('help')
+        .asLiteral()
+        .setHandler(async ctx => {
+          let registry = this.proxy.commandRegistry;
+          let prefix = registry.prefix;
+          let commands = [...registry.commands.values()]
+            .map(command => [registry.invocationName(command), command] as const)
+            .sort(([a], [b]) => a.localeCompare(b));
+          ctx.paginate(commands.map(([name, command]) => chat()
+            .append(
+              registry._suggestComponent(prefix + name, `${prefix}help ${name}`),
+              chat(` [${command.module?.name ?? 'proxy'}]`).color('dark_gray'),
+              ` - ${command.description.split('\n')[0]}`
+            )
+            .toJSON()), { title: 'Available commands:' });
+        })
+        .defineChild(new CommandNode('command')
+          .asArgument({
+            parser: 'brigadier:string',
+            properties: 0
+          })
+          .setHandler(async ctx => {
+            let registry = this.proxy.commandRegistry;
+            let prefix = registry.prefix;
+            let name: string = ctx.parsedArgs.command.toLowerCase();
+            if (name.startsWith(prefix)) name = name.slice(prefix.length);
+            let command = registry.resolve(name);
+            if (!command) {
+              let suggestions = closestMatches(name, registry.allNames);
+              let reply = chat(`Unknown command ${name}`).color('red');
+              if (suggestions.length) {
+                reply.append(', did you mean ');
+                suggestions.slice(0, 3).forEach((suggestion, i) => {
+                  if (i > 0) reply.append(', ');
+                  reply.append(registry._suggestComponent(suggestion, `${prefix}help ${suggestion}`));
+                });
+                reply.append('?');
+              }
+              ctx.reply(reply);
+              return;
+            }
+            ctx.reply(chat(prefix + registry.invocationName(command))
+              .bold()
+              .append(chat(` [${command.module?.name ?? 'proxy'}]`).color('dark_gray').bold(false)));
+            if (command.aliases.length) {
+              ctx.reply(chat(`Aliases: ${command.aliases.map(alias => prefix + alias).join(', ')}`).color('gray'));
+            }
+            ctx.reply(command.description);
+            ctx.reply(chat('Usage:').append(...registry.formatUsages(command).flatMap(usage => ['\n  ', usage])));
+          })),
+      suggestions: {
+        command: async () => this.proxy.commandRegistry.allNames
+      }
+    });
+
+    this.registerCommand({
+      name: 'page',
+      description: [
+        'Show a page of long command output',
+        '  page <page> - show a page of the latest output',
+        '  page <page> <output> - show a page of earlier output'
+      ].join('\n'),
+      allowSpectators: true,
+      autocomplete: new CommandNode('page')
+        .asLiteral()
+        .setExecutable(false)
+        .defineChild(new CommandNode('page')
+          .asArgument({
+            parser: 'brigadier:integer',
+            properties: numberRange(1)
+          })
+          .defineChild(new CommandNode('output')
+            .asArgument({
+              parser: 'brigadier:integer',
+              properties: numberRange(1)
+            }))),
+      handler: async ctx => {
+        let registry = this.proxy.commandRegistry;
+        let output = registry.outputs.get(ctx.client, ctx.parsedArgs.output ?? null);
+        if (!output) {
+          ctx.reply(chat('No such output, it may have expired').color('red'));
+          return;
+        }
+        let page: number = ctx.parsedArgs.page;
+        if (page > output.pages.length) {
+          ctx.reply(chat(`Output only has ${output.pages.length} pages`).color('red'));
+          return;
+        }
+        for (let line of registry.outputs.render(output, page, registry.prefix)) ctx.reply(line);
       }
     });
 
+    this.registerCommand({
+      name: 'cancel',
+      description: 'Cancel your running commands',
+      allowSpectators: true,
+      autocomplete: new CommandNode('cancel').asLiteral(),
+      handler: async ctx => {
+        let cancelled = this.proxy.commandRegistry.cancel(ctx.owner, ctx);
+        if (!cancelled) ctx.reply(chat('No commands running').color('red'));
+        else ctx.reply(`Cancelled ${cancelled} command${cancelled === 1 ? '' : 's'}`);
+      }
+    });
+
+    this.registerCommand({
+      name: 'retry',
+      description: 'Connect to the server again after being disconnected',
+      autocomplete: new CommandNode('retry').asLiteral(),
+      handler: async ctx => {
+        if (this.proxy.replay) {
+          ctx.reply(chat('Not available in replay mode').color('red'));
+          return;
+        }
+        if (this.proxy.connectClient) {
+          ctx.reply(chat('Already connected or connecting to a server').color('red'));
+          return;
+        }
+        // connectServer also cancels any pending automatic reconnect
+        await this.proxy.connectServer();
+      }
+    });
+
+    // runs a module management action and updates the command graph, which
+    // changes when modules register or unregister commands
+    let moduleAction = (action: (target: string) => Promise<string>) => async (ctx: CommandContext) => {
+      let message: string;
+      try {
+        message = await action(ctx.parsedArgs.name ?? ctx.parsedArgs.path);
+      } catch (err) {
+        ctx.reply(chat(err.toString()).color('red'));
+        return;
+      }
+      ctx.reply(message);
+      this.updateAndSendCommandGraph();
+    };
+    let registry = this.proxy.moduleRegistry;
     this.registerCommand({
       name: 'module',
       description: [
         'Module management commands',
         '  module load <name> - load module with name',
-        '  module unload <name> - unload module with name',
-        '  module reload <name> - reload module with name',
+        '  module unload <name> [cascade] - unload module with name, cascade also unloads',
+        '    modules depending on it',
+        '  module reload <name> - reload module with name and modules depending on it',
         '  module import <path> - import module with path from the modules directory'
       ].join('\n'),
       autocomplete: new CommandNode('module')
@@ -130,7 +364,11 @@ export default class CoreModule extends Module {
             .asArgument({
               parser: 'brigadier:string',
               properties: 0
-            })))
+            })
+            .setHandler(moduleAction(async target => {
+              await registry.load(target);
+              return `Loaded module [${target}]`;
+            }))))
         .defineChild(new CommandNode('unload')
           .asLiteral()
           .setExecutable(false)
@@ -138,7 +376,18 @@ export default class CoreModule extends Module {
             .asArgument({
               parser: 'brigadier:string',
               properties: 0
-            })))
+            })
+            .setHandler(moduleAction(async target => {
+              await registry.unload(target);
+              return `Unloaded module [${target}]`;
+            }))
+            .defineChild(new CommandNode('cascade')
+              .asLiteral()
+              .setHandler(moduleAction(async target => {
+                let unloaded = await registry.unload(target, true);
+                let names = unloaded.map(name => `[${name}]`).join(', ');
+                return `Unloaded ${unloaded.length > 1 ? 'modules' : 'module'} ${names}`;
+              })))))
         .defineChild(new CommandNode('reload')
           .asLiteral()
           .setExecutable(false)
@@ -146,7 +395,12 @@ export default class CoreModule extends Module {
             .asArgument({
               parser: 'brigadier:string',
               properties: 0
-            })))
+            })
+            .setHandler(moduleAction(async target => {
+              let reloaded = await registry.reload(target);
+              let names = reloaded.map(name => `[${name}]`).join(', ');
+              return `Reloaded ${reloaded.length > 1 ? 'modules' : 'module'} ${names}`;
+            }))))
         .defineChild(new CommandNode('import')
           .asLiteral()
           .setExecutable(false)
@@ -154,48 +408,284 @@ export default class CoreModule extends Module {
             .asArgument({
               parser: 'brigadier:string',
               properties: 0
-            }))),
-      handler: async ctx => {
-        if (ctx.args.length < 3) {
-          ctx.reply({ color: 'red', text: 'Not enough arguments' });
-          return;
+            })
+            .setHandler(moduleAction(async target => {
+              if (!this.proxy.config.modulesDir) throw new Error('No modules directory defined');
+              let imported = registry.importFromPath(path.join(this.proxy.config.modulesDir, target));
+              if (!imported) throw new Error('Failed to import module');
+              return `Imported module [${imported.name}]`;
+            })))),
+      suggestions: {
+        name: async ctx => {
+          let loaded = ctx.path[0] !== 'load';
+          return [...this.proxy.moduleRegistry.modules.values()]
+            .filter(module => module.loaded === loaded)
+            .map(module => module.name);
+        },
+        path: async () => {
+          if (!this.proxy.config.modulesDir) return [];
+          return fsP.readdir(this.proxy.config.modulesDir);
         }
-        let target = ctx.args[2];
-        let registry = this.proxy.moduleRegistry;
-        try {
-          switch (ctx.args[1].toLowerCase()) {
-            case 'load': {
-              await registry.load(target);
-              ctx.reply(`Loaded module [${target}]`);
-              break;
+      }
+    });
+
+    this.registerCommand({
+      name: 'record',
+      description: [
+        'Record packets of the session to a file',
+        '  record start [file] - start recording, file is relative to the recordings directory',
+        '  record stop - stop recording',
+        '  record status - show the current recording'
+      ].join('\n'),
+      autocomplete: new CommandNode('record')
+        .asLiteral()
+        .setExecutable(false)
+        .defineChild(new CommandNode('start')
+          .asLiteral()
+          .defineChild(new CommandNode('file')
+            .asArgument({
+              parser: 'brigadier:string',
+              properties: 0
+            })))
+        .defineChild(new CommandNode('stop').asLiteral())
+        .defineChild(new CommandNode('status').asLiteral()),
+      handler: async ctx => {
+        let recorder = this.proxy.recorder;
+        switch (ctx.path[0]) {
+          case 'start': {
+            let file = ctx.parsedArgs.file ?? `recording-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson.gz`;
+            try {
+              recorder = await this.proxy.startRecording(file);
+            } catch (err) {
+              ctx.reply(chat(`Could not start recording: ${err.message}`).color('red'));
+              return;
             }
-            case 'unload': {
-              await registry.unload(target);
-              ctx.reply(`Unloaded module [${target}]`);
+            ctx.reply(`Recording to ${recorder.file}`);
+            break;
+          }
+          case 'stop': {
+            recorder = await this.proxy.stopRecording();
+            if (!recorder) ctx.reply(chat('Not recording').color('red'));
+            else ctx.reply(`Recorded ${recorder.packetCount} packets to ${recorder.file}`);
+            break;
+          }
+          case 'status': {
+            if (!recorder) {
+              ctx.reply('Not recording');
               break;
             }
-            case 'reload': {
-              await registry.reload(target);
-              ctx.reply(`Reloaded module [${target}]`);
-              break;
+            let seconds = Math.floor((Date.now() - recorder.header.startTime) / 1000);
+            ctx.reply(`Recording to ${recorder.file}: ${recorder.packetCount} packets in ${seconds}s`);
+            break;
+          }
+          default:
+            ctx.reply(chat('Unknown subcommand').color('red'));
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'replay',
+      description: [
+        'Control playback in replay mode',
+        '  replay - show playback position',
+        '  replay pause - pause playback',
+        '  replay resume - resume playback',
+        '  replay seek <time> - jump to time, as seconds or minutes:seconds, prefix with + or - to jump relatively',
+        '  replay speed <factor> - set playback speed'
+      ].join('\n'),
+      autocomplete: new CommandNode('replay')
+        .asLiteral()
+        .defineChild(new CommandNode('pause').asLiteral())
+        .defineChild(new CommandNode('resume').asLiteral())
+        .defineChild(new CommandNode('seek')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('time')
+            .asArgument({
+              parser: 'brigadier:string',
+              properties: 0
+            })))
+        .defineChild(new CommandNode('speed')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('factor')
+            .asArgument({
+              parser: 'brigadier:double',
+              properties: numberRange(0.01, 100)
+            }))),
+      handler: async ctx => {
+        let replay = this.proxy.replay;
+        if (!replay?.started) {
+          ctx.reply(chat('Not replaying a recording').color('red'));
+          return;
+        }
+        switch (ctx.path[0]) {
+          case undefined: {
+            let state = replay.finished ? 'finished' : replay.paused ? 'paused' : `playing at ${replay.speed}x`;
+            ctx.reply(`${formatReplayTime(replay.currentTime)} / ${formatReplayTime(replay.duration)}, ${state}`);
+            break;
+          }
+          case 'pause': {
+            replay.pause();
+            ctx.reply(`Paused at ${formatReplayTime(replay.currentTime)}`);
+            break;
+          }
+          case 'resume': {
+            replay.resume();
+            ctx.reply(`Resumed at ${formatReplayTime(replay.currentTime)}`);
+            break;
+          }
+          case 'seek': {
+            let argument: string = ctx.parsedArgs.time;
+            let relative = argument.startsWith('+') || argument.startsWith('-');
+            let time = parseReplayTime(relative ? argument.slice(1) : argument);
+            if (time === null) {
+              ctx.reply(chat('Invalid time').color('red'));
+              return;
             }
-            case 'import': {
-              if (this.proxy.config.modulesDir) {
-                let imported = registry.importFromPath(path.join(this.proxy.config.modulesDir, target));
-                if (!imported) ctx.reply({ color: 'red', text: 'Failed to import module' });
-                else ctx.reply(`Imported module [${imported.name}]`);
-              } else ctx.reply({ color: 'red', text: 'No modules directory defined' });
-              break;
+            if (relative) time = replay.currentTime + (argument.startsWith('-') ? -time : time);
+            await replay.seek(time);
+            ctx.reply(`Jumped to ${formatReplayTime(replay.currentTime)}`);
+            break;
+          }
+          case 'speed': {
+            let speed: number = ctx.parsedArgs.factor;
+            replay.setSpeed(speed);
+            ctx.reply(`Playing at ${speed}x`);
+            break;
+          }
+          default:
+            ctx.reply(chat('Unknown subcommand').color('red'));
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'pipeline',
+      description: 'Show packet pipeline queue depth and counters',
+      autocomplete: new CommandNode('pipeline').asLiteral(),
+      handler: async ctx => {
+        for (let pipeline of [this.proxy.toServerPipeline, this.proxy.toClientPipeline]) {
+          let { depth, maxDepth, forwarded, dropped, held, deferred } = pipeline.metrics;
+          ctx.reply(`${Direction[pipeline.direction]}: ${depth} waiting (max ${maxDepth}), ` +
+            `${forwarded} forwarded, ${dropped} dropped, ${held} held, ${deferred} deferred`);
+        }
+      }
+    });
+
+    this.registerCommand({
+      name: 'hooks',
+      description: [
+        'Inspect registered hooks',
+        '  hooks [filter] - list hooks, optionally only those whose direction, type or module contains filter',
+        '  hooks enable <id> - enable a hook',
+        '  hooks disable <id> - disable a hook',
+        '  hooks reset - reset hook statistics'
+      ].join('\n'),
+      autocomplete: new CommandNode('hooks')
+        .asLiteral()
+        .defineChild(new CommandNode('enable')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('id')
+            .asArgument({
+              parser: 'brigadier:string',
+              properties: 0
+            })))
+        .defineChild(new CommandNode('disable')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('id')
+            .asArgument({
+              parser: 'brigadier:string',
+              properties: 0
+            })))
+        .defineChild(new CommandNode('reset').asLiteral())
+        .defineChild(new CommandNode('filter')
+          .asArgument({
+            parser: 'brigadier:string',
+            properties: 0
+          })),
+      suggestions: {
+        id: async ctx => [...this.proxy.hooks]
+          .filter(hook => hook.enabled === (ctx.path[0] === 'disable'))
+          .map(hook => ({ text: `#${hook.seq}`, tooltip: hook.toString() }))
+      },
+      handler: async ctx => {
+        let hooks = this.proxy.hooks;
+        let subcommand = ctx.path[0];
+        switch (subcommand) {
+          case 'enable':
+          case 'disable': {
+            let match = /^#?(\d+)$/.exec(ctx.parsedArgs.id);
+            if (!match) {
+              ctx.reply(chat(`Invalid hook id ${ctx.parsedArgs.id}, expected a number such as #3`).color('red'));
+              return;
             }
-            default:
-              ctx.reply({ color: 'red', text: 'Unknown subcommand' });
+            let hook = hooks.getBySeq(+match[1]);
+            if (!hook) {
+              ctx.reply(chat('No such hook').color('red'));
               return;
+            }
+            if (subcommand === 'enable') hook.enable();
+            else hook.disable();
+            ctx.reply(`${subcommand === 'enable' ? 'Enabled' : 'Disabled'} ${hook}`);
+            return;
           }
-          this.updateAndSendCommandGraph();
-        } catch (err) {
-          ctx.reply({ color: 'red', text: err.toString() });
+          case 'reset': {
+            for (let hook of hooks) hook.resetStats();
+            ctx.reply('Reset hook statistics');
+            return;
+          }
+        }
+        let filter: string | null = ctx.parsedArgs.filter?.toLowerCase() ?? null;
+        let matching = [...hooks]
+          .filter(hook => !filter || [Direction[hook.scope], hook.type, hook.module?.name ?? '']
+            .some(text => text.toLowerCase().includes(filter!)))
+          .sort((a, b) => a.scope - b.scope || a.type.localeCompare(b.type) ||
+            a.priority - b.priority || a.seq - b.seq);
+        if (!matching.length) {
+          ctx.reply(chat('No matching hooks').color('red'));
+          return;
+        }
+        ctx.paginate(matching.map(describeHook), { title: `${matching.length} hooks:` });
+      }
+    });
+
+    this.registerCommand({
+      name: 'control',
+      description: [
+        'Hand control of the session to another attached client',
+        '  control - list attached clients',
+        '  control <player> - give control to the client of player'
+      ].join('\n'),
+      autocomplete: new CommandNode('control')
+        .asLiteral()
+        .defineChild(new CommandNode('player')
+          .asArgument({
+            parser: 'brigadier:string',
+            properties: 0
+          })),
+      suggestions: {
+        player: async () => [...this.proxy.spectators].map(client => client.username)
+      },
+      handler: async ctx => {
+        let target: string = ctx.parsedArgs.player;
+        if (!target) {
+          let controller = this.proxy.proxyClient?.username ?? 'nobody';
+          let spectators = [...this.proxy.spectators].map(client => client.username);
+          ctx.reply(`In control: ${controller}, spectating: ${spectators.join(', ') || 'nobody'}`);
           return;
         }
+        let client = [...this.proxy.spectators]
+          .find(spectator => spectator.username.toLowerCase() === target.toLowerCase());
+        if (!client) {
+          ctx.reply(chat(`No spectator named ${target}`).color('red'));
+          return;
+        }
+        await this.proxy.transferControl(client);
+        ctx.reply(`Handed control to ${client.username}`);
       }
     });
 
@@ -212,35 +702,46 @@ export default class CoreModule extends Module {
         clearInterval(this.clientKeepAliveCheckInterval);
         this.clientKeepAliveCheckInterval = null;
       }
-      this.clientKeepAliveCheckInterval = setInterval(
-        this.bindCallback('_clientKeepAliveCheckIntervalCallback'), 15 * 1000);
+      this._startClientKeepAlive();
 
       // if we have a command graph, send it
-      if (this.commandGraph) {
-        this.proxy.injectClient('declare_commands', {
-          nodes: this.commandGraph.serialize(),
-          rootIndex: 0
-        });
-      }
+      this.sendCommandGraph();
+    });
+    this.registerHook(Direction.Local, 'spectatorConnected', async event => {
+      this.sendCommandGraph(event.client);
+    });
+    this.registerHook(Direction.Local, 'controlTransferred', async _event => {
+      // keepalives sent to the previous controller will never be answered
+      this._stopClientKeepAlive();
+      this._startClientKeepAlive();
     });
     this.registerHook(Direction.Local, 'clientDisconnected', async event => {
       // keepalive handlers
-      if (this.clientKeepAliveCheckInterval) {
-        clearInterval(this.clientKeepAliveCheckInterval);
-        this.clientKeepAliveCheckInterval = null;
-      }
-      if (this.clientKeepAliveTimeout) {
-        clearTimeout(this.clientKeepAliveTimeout);
-        this.clientKeepAliveTimeout = null;
-      }
-      this.clientKeepAliveLastValue = null;
+      this._stopClientKeepAlive();
 
       if (event.data) logger.warn('client error:', event.data);
 
+      if (this.proxy.proxyClient) {
+        // a spectator took over control
+        logger.info(`client disconnected, ${this.proxy.proxyClient.username} is now in control`);
+        this._startClientKeepAlive();
+        return;
+      }
+
+      if (this.proxy.replay?.started) {
+        if (this.disconnectOnClientQuit) {
+          logger.info('client disconnected, stopping replay');
+          this.proxy.replay.stop();
+        }
+        return;
+      }
+
       // disconnect from server
       if (this.disconnectOnClientQuit && this.proxy.connectClient) {
         logger.info('client disconnected, disconnecting from server');
         this.proxy.disconnectServer();
+      } else if (this.proxy.connectClient) {
+        logger.info('client disconnected, keeping server session alive');
       } else {
         logger.info('client disconnected');
       }
@@ -266,14 +767,36 @@ export default class CoreModule extends Module {
       this.commandGraph = null;
       this.localCommandNodes.clear();
 
-      // kick the client
-      if (!event.data) {
-        this.proxy.kickClient('[proxy] Server disconnected');
-        logger.info('server disconnected');
-      } else {
-        this.proxy.kickClient('[proxy] ' + event.data.toString());
-        logger.info(`server disconnected:`, event.data);
+      if (!event.data) logger.info('server disconnected');
+      else logger.info(`server disconnected:`, event.data);
+
+      let reason = event.data ? event.data.toString() : 'Server disconnected';
+      let attempt = await this.proxy.reconnector.handleDisconnect(reason);
+      let canWait = this.proxy.proxyClient !== null && this.proxy.limbo.available;
+      if (attempt && canWait) {
+        // tell the clients what is going on instead of dropping them
+        let attempts = attempt.maxAttempts ? `${attempt.attempt}/${attempt.maxAttempts}` : attempt.attempt;
+        let status = `${reason}, reconnecting in ${Math.ceil(attempt.delay / 1000)}s (attempt ${attempts})`;
+        await this.proxy.limbo.enter(status);
+        return;
       }
+      if (!attempt && this.proxy.config.limbo && canWait) {
+        // keep the clients around in limbo
+        await this.proxy.limbo.enter(`${reason} (use ${this.proxy.config.commandPrefix}retry to reconnect)`);
+        return;
+      }
+      // kick the clients, also if there is no limbo world for this version
+      for (let client of this.proxy.clients) this.proxy.kickClient('[proxy] ' + reason, client);
+    });
+    this.registerHook(Direction.Local, 'beforeServerConnect', async _event => {
+      let { serverAddress, serverPort } = this.proxy.config;
+      this.proxy.limbo.setStatus(`Connecting to ${serverAddress}:${serverPort}...`);
+    });
+    this.registerHook(Direction.Local, 'limboEntered', async _event => {
+      // local commands should still autocomplete in limbo
+      this.commandGraph = new CommandGraph();
+      this.localCommandNodes.clear();
+      this.updateAndSendCommandGraph();
     });
     this.registerHook(Direction.ClientToServer, 'keep_alive', async event => {
       if (this.clientKeepAliveTimeout) {
@@ -295,6 +818,17 @@ export default class CoreModule extends Module {
       this.clientKeepAliveLastValue = null;
       event.cancel();
     });
+    this.registerHook(Direction.ClientToServer, 'teleport_confirm', async event => {
+      // the server does not know about teleports generated by the proxy
+      if (event.data.teleportId >= PROXY_TELEPORT_ID_BASE) event.cancel();
+    });
+    this.registerHook(Direction.ServerToClient, 'position', async event => {
+      // nobody is there to confirm teleports while the session is kept alive
+      // without a client, do it for them
+      if (!this.proxy.proxyClient) {
+        this.proxy.injectServer('teleport_confirm', { teleportId: event.data.teleportId });
+      }
+    });
     this.registerHook(Direction.ServerToClient, 'keep_alive', async event => {
       this.proxy.injectServer('keep_alive', event.data);
       this.serverKeepAliveTimeout?.refresh();
@@ -1,2 +1,326 @@
 // reads json files generated by burger
-export default null;
+// (https://github.com/Pokechu22/Burger), one file per version named
+// <version>.json in the data directory
+import { promises as fsP } from 'fs';
+import * as path from 'path';
+import logger from './logger';
+
+/** Thrown when version data is missing or does not match the version */
+export class VersionDataError extends Error {
+  /**
+   * The constructor
+   * @param version Minecraft version the data was requested for
+   * @param message
+   */
+  constructor(public version: string, message: string) {
+    super(`version data for ${version}: ${message}`);
+    this.name = 'VersionDataError';
+  }
+}
+
+/** A block */
+export interface BlockData {
+  /** Namespaced name, for example minecraft:stone */
+  name: string;
+  /** Numeric block id */
+  id: number;
+  /** English display name, if known */
+  displayName: string | null;
+  /** First block state id of the block */
+  minStateId: number | null;
+  /** Last block state id of the block */
+  maxStateId: number | null;
+  /** Default block state id */
+  defaultStateId: number | null;
+  /** Block hardness */
+  hardness: number | null;
+  /** Blast resistance */
+  resistance: number | null;
+}
+
+/** An item */
+export interface ItemData {
+  /** Namespaced name, for example minecraft:stick */
+  name: string;
+  /** Numeric item id */
+  id: number;
+  /** English display name, if known */
+  displayName: string | null;
+  /** Maximum stack size */
+  maxStackSize: number | null;
+}
+
+/** An entity type */
+export interface EntityData {
+  /** Namespaced name, for example minecraft:zombie */
+  name: string;
+  /** Numeric entity type id */
+  id: number;
+  /** English display name, if known */
+  displayName: string | null;
+  /** Bounding box width */
+  width: number | null;
+  /** Bounding box height */
+  height: number | null;
+}
+
+/** A sound event */
+export interface SoundData {
+  /** Namespaced name, for example minecraft:block.stone.break */
+  name: string;
+  /** Numeric sound id */
+  id: number;
+}
+
+/** Direction of a packet as named by burger */
+export type PacketDirection = 'CLIENTBOUND' | 'SERVERBOUND';
+
+/** A packet */
+export interface PacketData {
+  /** Packet id */
+  id: number;
+  /** Protocol state, for example PLAY */
+  state: string;
+  /** Direction of the packet */
+  direction: PacketDirection;
+  /** Name of the (obfuscated) class implementing the packet */
+  className: string | null;
+}
+
+/** Sections of burger output used by VersionData */
+const SECTIONS = ['blocks', 'items', 'entities', 'packets', 'sounds'] as const;
+type Section = typeof SECTIONS[number];
+
+/**
+ * Normalize a name to its namespaced form
+ * @param name
+ */
+function namespaced(name: string): string {
+  return name.includes(':') ? name : `minecraft:${name}`;
+}
+
+/**
+ * Index entries by name and id
+ * @param entries
+ */
+function index<T extends { name: string, id: number }>(entries: T[]): [Map<string, T>, Map<number, T>] {
+  let byName = new Map<string, T>();
+  let byId = new Map<number, T>();
+  for (let entry of entries) {
+    byName.set(entry.name, entry);
+    byId.set(entry.id, entry);
+  }
+  return [byName, byId];
+}
+
+/** Lookups for data of a specific Minecraft version */
+export class VersionData {
+  /** Minecraft version */
+  public version: string;
+  /** Protocol version, if known */
+  public protocol: number | null;
+  /** Sections missing from the data */
+  public missing: Section[];
+  /** Blocks by name */
+  public blocks: Map<string, BlockData>;
+  /** Blocks by id */
+  public blocksById: Map<number, BlockData>;
+  /** Blocks ordered by state id, for state id lookups */
+  public blocksByState: BlockData[];
+  /** Items by name */
+  public items: Map<string, ItemData>;
+  /** Items by id */
+  public itemsById: Map<number, ItemData>;
+  /** Entity types by name */
+  public entities: Map<string, EntityData>;
+  /** Entity types by id */
+  public entitiesById: Map<number, EntityData>;
+  /** Sounds by name */
+  public sounds: Map<string, SoundData>;
+  /** Sounds by id */
+  public soundsById: Map<number, SoundData>;
+  /** Packets keyed by state, direction and id */
+  public packets: Map<string, PacketData>;
+
+  /**
+   * The constructor. Use VersionData.load to read data from a file.
+   * @param version
+   * @param raw Burger output for the version
+   */
+  constructor(version: string, raw: any) {
+    this.version = version;
+    this.protocol = raw.version?.protocol ?? null;
+    this.missing = SECTIONS.filter(section => !raw[section]);
+
+    let blocks: BlockData[] = [];
+    let rawBlocks = raw.blocks?.block ?? {};
+    let order: string[] = raw.blocks?.ordered_blocks ?? Object.keys(rawBlocks);
+    order.forEach((key, id) => {
+      let block = rawBlocks[key];
+      if (!block) return;
+      blocks.push({
+        name: namespaced(block.text_id ?? key),
+        id: block.numeric_id ?? id,
+        displayName: block.display_name ?? null,
+        minStateId: block.min_state_id ?? null,
+        maxStateId: block.max_state_id ?? null,
+        defaultStateId: block.default_state_id ?? block.min_state_id ?? null,
+        hardness: block.hardness ?? null,
+        resistance: block.resistance ?? null
+      });
+    });
+    [this.blocks, this.blocksById] = index(blocks);
+    this.blocksByState = blocks
+      .filter(block => block.minStateId !== null && block.maxStateId !== null)
+      .sort((a, b) => a.minStateId! - b.minStateId!);
+
+    let items: ItemData[] = Object.entries<any>(raw.items?.item ?? {}).map(([key, item]) => ({
+      name: namespaced(item.text_id ?? key),
+      id: item.numeric_id,
+      displayName: item.display_name ?? null,
+      maxStackSize: item.max_stack_size ?? null
+    }));
+    [this.items, this.itemsById] = index(items);
+
+    let entities: EntityData[] = Object.entries<any>(raw.entities?.entity ?? {}).map(([key, entity]) => ({
+      name: namespaced(entity.name ?? key),
+      id: entity.id,
+      displayName: entity.display_name ?? null,
+      width: entity.width ?? null,
+      height: entity.height ?? null
+    }));
+    [this.entities, this.entitiesById] = index(entities);
+
+    let sounds: SoundData[] = Object.entries<any>(raw.sounds ?? {}).map(([key, sound]) => ({
+      name: namespaced(sound.name ?? key),
+      id: sound.id
+    }));
+    [this.sounds, this.soundsById] = index(sounds);
+
+    this.packets = new Map();
+    for (let packet of Object.values<any>(raw.packets?.packet ?? {})) {
+      let data: PacketData = {
+        id: packet.id,
+        state: packet.state,
+        direction: packet.direction,
+        className: packet.class ?? null
+      };
+      this.packets.set(`${data.state}/${data.direction}/${data.id}`, data);
+    }
+  }
+
+  /**
+   * Load data for a version
+   * @param dir Directory containing burger output
+   * @param version Minecraft version
+   */
+  static async load(dir: string, version: string): Promise<VersionData> {
+    let file = path.join(dir, `${version}.json`);
+    let contents: string;
+    try {
+      contents = (await fsP.readFile(file)).toString();
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        throw new VersionDataError(version, `${file} does not exist, generate it with burger`);
+      }
+      throw new VersionDataError(version, `could not read ${file}: ${err.message}`);
+    }
+    let parsed: any;
+    try {
+      parsed = JSON.parse(contents);
+    } catch (err) {
+      throw new VersionDataError(version, `could not parse ${file}: ${err.message}`);
+    }
+    // burger outputs a list with one entry per version
+    let entries: any[] = Array.isArray(parsed) ? parsed : [parsed];
+    let raw = entries.find(entry => (entry?.version?.name ?? entry?.version?.id) === version);
+    if (!raw) {
+      let found = entries.map(entry => entry?.version?.name ?? entry?.version?.id ?? 'unknown');
+      throw new VersionDataError(version, `${file} contains data for ${found.join(', ')} instead`);
+    }
+    let data = new VersionData(version, raw);
+    if (data.missing.length) {
+      logger.warn(`version data for ${version} is missing ${data.missing.join(', ')}`);
+    }
+    return data;
+  }
+
+  /**
+   * Throw if a section is missing from the data
+   * @param section
+   */
+  _requireSection(section: Section) {
+    if (this.missing.includes(section)) {
+      throw new VersionDataError(this.version, `no ${section} data, run burger with the ${section} topping`);
+    }
+  }
+
+  /**
+   * Look up a block
+   * @param block Name or numeric id
+   */
+  getBlock(block: string | number): BlockData | null {
+    this._requireSection('blocks');
+    if (typeof block === 'number') return this.blocksById.get(block) ?? null;
+    return this.blocks.get(namespaced(block)) ?? null;
+  }
+
+  /**
+   * Look up the block a block state id belongs to
+   * @param stateId
+   */
+  getBlockByStateId(stateId: number): BlockData | null {
+    this._requireSection('blocks');
+    let low = 0;
+    let high = this.blocksByState.length - 1;
+    while (low <= high) {
+      let mid = (low + high) >> 1;
+      let block = this.blocksByState[mid];
+      if (stateId < block.minStateId!) high = mid - 1;
+      else if (stateId > block.maxStateId!) low = mid + 1;
+      else return block;
+    }
+    return null;
+  }
+
+  /**
+   * Look up an item
+   * @param item Name or numeric id
+   */
+  getItem(item: string | number): ItemData | null {
+    this._requireSection('items');
+    if (typeof item === 'number') return this.itemsById.get(item) ?? null;
+    return this.items.get(namespaced(item)) ?? null;
+  }
+
+  /**
+   * Look up an entity type
+   * @param entity Name or numeric id
+   */
+  getEntity(entity: string | number): EntityData | null {
+    this._requireSection('entities');
+    if (typeof entity === 'number') return this.entitiesById.get(entity) ?? null;
+    return this.entities.get(namespaced(entity)) ?? null;
+  }
+
+  /**
+   * Look up a sound event
+   * @param sound Name or numeric id
+   */
+  getSound(sound: string | number): SoundData | null {
+    this._requireSection('sounds');
+    if (typeof sound === 'number') return this.soundsById.get(sound) ?? null;
+    return this.sounds.get(namespaced(sound)) ?? null;
+  }
+
+  /**
+   * Look up a packet
+   * @param state Protocol state, for example PLAY
+   * @param direction
+   * @param id Packet id
+   */
+  getPacket(state: string, direction: PacketDirection, id: number): PacketData | null {
+    this._requireSection('packets');
+    return this.packets.get(`${state.toUpperCase()}/${direction}/${id}`) ?? null;
+  }
+}
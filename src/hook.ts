@@ -1,3 +1,7 @@
+import type mc from 'minecraft-protocol';
+import type { Module } from './module';
+import logger from './logger';
+
 /** Packet direction */
 export enum Direction {
   /** Used for client to server packets */
@@ -5,9 +9,17 @@ export enum Direction {
   /** Used for server to client packets */
   ServerToClient,
   /** Used for local events */
-  Local
+  Local,
+  /**
+   * Used to register hooks on packets in both directions. Does not include
+   * local events.
+   */
+  Any
 }
 
+/** Packet type matching every packet (or local event) of a direction */
+export const ANY_TYPE = '*';
+
 export enum EventAction {
   /** Continue processing hooks */
   Continue,
@@ -27,11 +39,18 @@ export class Event {
   public type: string;
   /** Associated packet data */
   public data: any;
+  /** Client that sent the packet or triggered the event, if any */
+  public client: mc.Client | null;
+  /** Set if a hook held the packet, resolves to whether to forward it */
+  public held: Promise<boolean> | null = null;
+  /** Set if a hook deferred the packet, resolves to whether to forward it */
+  public deferred: Promise<boolean> | null = null;
 
-  constructor(type: string, direction: Direction, data: any) {
+  constructor(type: string, direction: Direction, data: any, client: mc.Client | null = null) {
     this.type = type;
     this.direction = direction;
     this.data = data;
+    this.client = client;
   }
 
   /** Set action for event */
@@ -48,9 +67,132 @@ export class Event {
   cancel() {
     this.action = EventAction.Cancel;
   }
+
+  /**
+   * Hold the packet. It and every packet after it in the same direction wait
+   * until the returned function is called, or at most the hook time budget.
+   * Only applies to packets.
+   * @return Function to release the packet, optionally dropping it
+   */
+  hold(): ReleaseFunction {
+    let release!: ReleaseFunction;
+    this.held = new Promise(resolve => {
+      release = (forward = true) => resolve(forward);
+    });
+    return release;
+  }
+
+  /**
+   * Take the packet out of the ordered stream. Packets after it are forwarded
+   * as usual, it is forwarded once the returned function is called, or after
+   * at most the hook time budget. Only applies to packets.
+   * @return Function to release the packet, optionally dropping it
+   */
+  defer(): ReleaseFunction {
+    let release!: ReleaseFunction;
+    this.deferred = new Promise(resolve => {
+      release = (forward = true) => resolve(forward);
+    });
+    return release;
+  }
 }
 
+/** Releases a held or deferred packet, forwarding it unless forward is false */
+export type ReleaseFunction = (forward?: boolean) => void;
+
 export type EventHandler = (event: Event) => Promise<any>;
+/** Decides whether a hook should run for an event */
+export type HookFilter = (event: Event) => boolean;
+
+/** How failing hooks are handled */
+export interface HookErrorPolicy {
+  /** Whether to forward or drop the packet when a hook fails */
+  action: 'forward' | 'drop';
+  /** Number of errors within errorWindow after which a hook is disabled */
+  maxErrors: number;
+  /** Time window for maxErrors, in milliseconds */
+  errorWindow: number;
+  /**
+   * Time a packet hook may take before the call counts as an error and
+   * processing moves on, in milliseconds, or 0 for no limit. Hooks on local
+   * events are not limited.
+   */
+  timeBudget: number;
+}
+
+/** Default policy for failing hooks */
+export const DEFAULT_HOOK_ERROR_POLICY: HookErrorPolicy = {
+  action: 'forward',
+  maxErrors: 5,
+  errorWindow: 60 * 1000,
+  timeBudget: 5 * 1000
+};
+
+/** Thrown into hook error handling when a hook exceeds its time budget */
+export class HookTimeoutError extends Error {
+  /**
+   * The constructor
+   * @param budget Time budget that was exceeded, in milliseconds
+   */
+  constructor(public budget: number) {
+    super(`hook did not finish within ${budget} ms`);
+    this.name = 'HookTimeoutError';
+  }
+}
+
+/** Execution statistics of a hook */
+export interface HookStats {
+  /** Number of times the handler was called */
+  calls: number;
+  /** Total time spent in the handler, in milliseconds */
+  totalTime: number;
+  /** Longest time spent in a single call, in milliseconds */
+  maxTime: number;
+  /** Number of times the hook cancelled the event */
+  cancels: number;
+  /** Number of times the handler failed */
+  errors: number;
+}
+
+/** Options for registering a hook */
+export interface HookOptions {
+  /** Hook priority (lower runs first) */
+  priority?: number;
+  /** Only run the hook for events matching this predicate */
+  filter?: HookFilter | null;
+  /** Name of the hook, for ordering constraints of other hooks */
+  name?: string | null;
+  /**
+   * Hooks this hook must run before, by hook name, module:name or module name
+   * (matching every hook of the module)
+   */
+  before?: string | string[];
+  /** Hooks this hook must run after, see before */
+  after?: string | string[];
+  /** Module that registers the hook */
+  module?: Module | null;
+}
+
+/** Thrown when ordering constraints of hooks contradict each other */
+export class HookOrderError extends Error {
+  /**
+   * The constructor
+   * @param cycle Hooks forming the cycle
+   */
+  constructor(public cycle: Hook[]) {
+    super(`hook ordering constraints form a cycle: ${cycle.map(hook => hook.toString()).join(' -> ')}`);
+    this.name = 'HookOrderError';
+  }
+}
+
+/**
+ * Normalize a constraint option to an array
+ * @param value
+ */
+function toArray(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
 
 /** Represents a single hook */
 export class Hook {
@@ -62,22 +204,70 @@ export class Hook {
   public parent: Hooks;
   /** Hook priority (lower runs first) */
   public priority: number;
+  /** Registration order, orders hooks with equal priority */
+  public seq: number;
   /** Associated event handler */
   public handler: EventHandler;
+  /** Predicate deciding whether the hook runs for an event, if any */
+  public filter: HookFilter | null;
+  /** Name of the hook, if any */
+  public name: string | null;
+  /** Hooks this hook must run before */
+  public before: string[];
+  /** Hooks this hook must run after */
+  public after: string[];
   /** Whether the hook is enabled */
   public enabled = true;
+  /** Module that registered the hook, if any */
+  public module: Module | null;
+  /** Times of recent errors, for the error policy */
+  public recentErrors: number[] = [];
+  /** Error that caused the hook to be disabled automatically, if any */
+  public disabledBy: Error | null = null;
+  /** Execution statistics */
+  public stats: HookStats = { calls: 0, totalTime: 0, maxTime: 0, cancels: 0, errors: 0 };
 
   /** Associated HookList and properties */
   public _list: HookList | null = null;
   public _prev: Hook | null = null;
   public _next: Hook | null = null;
 
-  constructor(parent: Hooks, scope: Direction, type: string, priority: number, handler: EventHandler) {
+  constructor(
+    parent: Hooks,
+    scope: Direction,
+    type: string,
+    seq: number,
+    handler: EventHandler,
+    options: HookOptions = {}
+  ) {
     this.scope = scope;
     this.type = type;
     this.parent = parent;
-    this.priority = priority;
+    this.priority = options.priority ?? 100;
+    this.seq = seq;
     this.handler = handler;
+    this.filter = options.filter ?? null;
+    this.name = options.name ?? null;
+    this.before = toArray(options.before);
+    this.after = toArray(options.after);
+    this.module = options.module ?? null;
+  }
+
+  /** Whether the hook has ordering constraints */
+  get constrained(): boolean {
+    return this.before.length > 0 || this.after.length > 0;
+  }
+
+  /**
+   * Whether a name used in ordering constraints refers to this hook
+   * @param reference Hook name, module:name or module name
+   */
+  matches(reference: string): boolean {
+    if (this.name !== null) {
+      if (reference === this.name) return true;
+      if (this.module && reference === `${this.module.name}:${this.name}`) return true;
+    }
+    return this.module !== null && reference === this.module.name;
   }
 
   unregister() {
@@ -86,10 +276,26 @@ export class Hook {
 
   enable() {
     this.enabled = true;
+    this.recentErrors = [];
+    this.disabledBy = null;
+    this.parent._invalidateOrder();
   }
 
   disable() {
     this.enabled = false;
+    this.parent._invalidateOrder();
+  }
+
+  /** Reset execution statistics */
+  resetStats() {
+    this.stats = { calls: 0, totalTime: 0, maxTime: 0, cancels: 0, errors: 0 };
+  }
+
+  /** Describe the hook for log messages */
+  toString(): string {
+    let name = this.name ? ` ${this.name}` : '';
+    let owner = this.module ? ` of module [${this.module.name}]` : '';
+    return `hook${name} [${Direction[this.scope]} ${this.type}]${owner}`;
   }
 }
 
@@ -138,7 +344,7 @@ export class HookList {
     let oldNext = target._next;
     target._next = obj;
     obj._prev = target;
-    target._next = oldNext;
+    obj._next = oldNext;
     if (oldNext) oldNext._prev = obj;
     else this.tail = obj;
     this.length++;
@@ -173,36 +379,229 @@ export class HookList {
   }
 }
 
+/**
+ * Order hooks by priority, then registration order
+ * @param a
+ * @param b
+ */
+function compareHooks(a: Hook, b: Hook): number {
+  return a.priority - b.priority || a.seq - b.seq;
+}
+
+/**
+ * Order hooks by priority and registration order while satisfying their
+ * before/after constraints
+ * @param hooks
+ * @return Hooks in execution order
+ */
+export function orderHooks(hooks: Hook[]): Hook[] {
+  let sorted = [...hooks].sort(compareHooks);
+  if (!sorted.some(hook => hook.constrained)) return sorted;
+  // edges point from a hook to the hooks that must run after it
+  let successors = new Map<Hook, Set<Hook>>(sorted.map(hook => [hook, new Set()]));
+  for (let hook of sorted) {
+    for (let other of sorted) {
+      if (other === hook) continue;
+      if (hook.before.some(ref => other.matches(ref))) successors.get(hook)!.add(other);
+      if (hook.after.some(ref => other.matches(ref))) successors.get(other)!.add(hook);
+    }
+  }
+  let incoming = new Map<Hook, number>(sorted.map(hook => [hook, 0]));
+  for (let targets of successors.values()) {
+    for (let target of targets) incoming.set(target, incoming.get(target)! + 1);
+  }
+  // always pick the first available hook in priority order to keep the
+  // result stable
+  let result: Hook[] = [];
+  let remaining = sorted;
+  while (remaining.length) {
+    let index = remaining.findIndex(hook => incoming.get(hook) === 0);
+    if (index < 0) throw new HookOrderError(findCycle(remaining, successors));
+    let [hook] = remaining.splice(index, 1);
+    result.push(hook);
+    for (let target of successors.get(hook)!) incoming.set(target, incoming.get(target)! - 1);
+  }
+  return result;
+}
+
+/**
+ * Find a cycle among hooks that could not be ordered
+ * @param hooks
+ * @param successors
+ */
+function findCycle(hooks: Hook[], successors: Map<Hook, Set<Hook>>): Hook[] {
+  let candidates = new Set(hooks);
+  let path: Hook[] = [];
+  let current = hooks[0];
+  // every remaining hook has a remaining predecessor, so walking backwards
+  // along edges must eventually revisit a hook
+  let predecessors = new Map<Hook, Hook>();
+  for (let [hook, targets] of successors) {
+    if (!candidates.has(hook)) continue;
+    for (let target of targets) if (candidates.has(target)) predecessors.set(target, hook);
+  }
+  while (!path.includes(current)) {
+    path.push(current);
+    current = predecessors.get(current)!;
+  }
+  let cycle = path.slice(path.indexOf(current)).reverse();
+  return [...cycle, cycle[0]];
+}
+
 /** Hooks implementation for the proxy */
 export class Hooks {
+  /** Hook lists by direction (including Direction.Any), then packet type */
   public hooks: Map<string, HookList>[];
+  /** Registration counter */
+  public seq = 0;
+  /** How failing hooks are handled */
+  public errorPolicy: HookErrorPolicy = DEFAULT_HOOK_ERROR_POLICY;
+  /** Execution order of hooks merged from several lists, by direction and packet type */
+  public _orderCache = new Map<string, Hook[]>();
 
   constructor() {
-    this.hooks = new Array(3);
+    this.hooks = new Array(4);
     this.hooks[Direction.ClientToServer] = new Map();
     this.hooks[Direction.ServerToClient] = new Map();
     this.hooks[Direction.Local] = new Map();
+    this.hooks[Direction.Any] = new Map();
   }
 
-  register(scope: Direction, type: string, handler: EventHandler, priority = 100) {
-    let hook = new Hook(this, scope, type, priority, handler);
+  /**
+   * Register a hook
+   * @param scope Direction, or Direction.Any for packets in both directions
+   * @param type Packet type, or ANY_TYPE for all packets
+   * @param handler
+   * @param options Priority (lower runs first) or hook options
+   * @throws HookOrderError if ordering constraints form a cycle
+   */
+  register(scope: Direction, type: string, handler: EventHandler, options: number | HookOptions = {}) {
+    if (typeof options === 'number') options = { priority: options };
+    let hook = new Hook(this, scope, type, this.seq++, handler, options);
+    this._invalidateOrder();
     let hookList = this.hooks[scope].get(type);
     if (!hookList) {
       hookList = new HookList();
-      hookList.append(hook);
       this.hooks[scope].set(type, hookList);
-    } else {
-      let targetHook = hookList.head;
-      while (targetHook && targetHook.priority <= priority) targetHook = targetHook._next;
-      if (!targetHook) hookList.append(hook);
-      else hookList.insertAfter(targetHook, hook);
+    }
+    let targetHook = hookList.head;
+    while (targetHook && targetHook.priority <= hook.priority) targetHook = targetHook._next;
+    // insertBefore appends if there is no hook with higher priority
+    hookList.insertBefore(targetHook, hook);
+    try {
+      this._checkOrder(hook);
+    } catch (err) {
+      this.unregister(hook);
+      throw err;
     }
     return hook;
   }
 
+  /**
+   * Apply ordering constraints after registering a hook, and make sure they
+   * can be satisfied for every event the hook may run on
+   * @param hook Newly registered hook
+   */
+  _checkOrder(hook: Hook) {
+    let list = hook._list!;
+    let hooks: Hook[] = [];
+    for (let other = list.head; other; other = other._next) hooks.push(other);
+    if (hooks.some(other => other.constrained)) {
+      // keep the list itself in execution order for the fast path
+      let ordered = orderHooks(hooks);
+      for (let other of ordered) list.remove(other);
+      for (let other of ordered) list.append(other);
+    }
+    // hooks from other lists merged in at execution time
+    let directions = hook.scope === Direction.Any
+      ? [Direction.ClientToServer, Direction.ServerToClient]
+      : [hook.scope];
+    for (let direction of directions) {
+      let types = [hook.type];
+      if (hook.type === ANY_TYPE) {
+        types = [...this.hooks[direction].keys()];
+        if (direction !== Direction.Local) types.push(...this.hooks[Direction.Any].keys());
+      }
+      for (let type of new Set(types)) {
+        let lists = this._matchingLists(direction, type);
+        if (lists.length < 2) continue;
+        let merged: Hook[] = [];
+        for (let other of lists) {
+          for (let member = other.head; member; member = member._next) merged.push(member);
+        }
+        orderHooks(merged);
+      }
+    }
+  }
+
+  /** Iterate over all registered hooks */
+  *[Symbol.iterator](): IterableIterator<Hook> {
+    for (let lists of this.hooks) {
+      for (let list of lists.values()) {
+        for (let hook = list.head; hook; hook = hook._next) yield hook;
+      }
+    }
+  }
+
+  /**
+   * Find a hook by its registration number
+   * @param seq
+   */
+  getBySeq(seq: number): Hook | null {
+    for (let hook of this) {
+      if (hook.seq === seq) return hook;
+    }
+    return null;
+  }
+
   unregister(hook: Hook) {
-    let hookList = this.hooks[hook.scope].get(hook.type);
-    hookList!.remove(hook);
+    let hookList = hook._list;
+    if (!hookList) return; // already unregistered
+    this._invalidateOrder();
+    hookList.remove(hook);
+    if (!hookList.length) this.hooks[hook.scope].delete(hook.type);
+  }
+
+  /**
+   * Collect the hooks that apply to a packet type, in execution order
+   * @param scope
+   * @param type
+   * @return Non-empty hook lists that apply
+   */
+  _matchingLists(scope: Direction, type: string): HookList[] {
+    let lists: HookList[] = [];
+    let candidates = [this.hooks[scope].get(type), this.hooks[scope].get(ANY_TYPE)];
+    if (scope !== Direction.Local) {
+      candidates.push(this.hooks[Direction.Any].get(type), this.hooks[Direction.Any].get(ANY_TYPE));
+    }
+    for (let list of candidates) {
+      if (list?.length) lists.push(list);
+    }
+    return lists;
+  }
+
+  /** Forget cached execution orders, called whenever hooks change */
+  _invalidateOrder() {
+    this._orderCache.clear();
+  }
+
+  /**
+   * Get the execution order of hooks merged from several lists
+   * @param scope
+   * @param type
+   * @param lists Lists returned by _matchingLists
+   */
+  _mergedOrder(scope: Direction, type: string, lists: HookList[]): Hook[] {
+    let key = `${scope} ${type}`;
+    let cached = this._orderCache.get(key);
+    if (cached) return cached;
+    let hooks: Hook[] = [];
+    for (let list of lists) {
+      for (let hook = list.head; hook; hook = hook._next) hooks.push(hook);
+    }
+    let ordered = orderHooks(hooks);
+    this._orderCache.set(key, ordered);
+    return ordered;
   }
 
   /**
@@ -210,26 +609,137 @@ export class Hooks {
    * @param scope
    * @param type
    * @param data Packet data or other payload
+   * @param client Client that sent the packet or triggered the event, if any
    * @return False if event cancelled, true if not
    */
-  async execute(scope: Direction, type: string, data: any): Promise<boolean> {
-    let hookList = this.hooks[scope].get(type);
-    if (!hookList) return true;
-    let event = new Event(type, scope, data);
-    for (let hook: Hook | null | undefined = hookList.head; hook; hook = hook?._next) {
-      if (!hook.enabled) continue;
-      await hook.handler(event);
-      switch (event.action) {
-        case EventAction.Continue:
-          continue;
-        case EventAction.CancelHooks:
-          return true;
-        case EventAction.Cancel:
-          return false;
-        default:
-          throw new Error('invalid hook action');
+  async execute(scope: Direction, type: string, data: any, client: mc.Client | null = null): Promise<boolean> {
+    return this.executeEvent(new Event(type, scope, data, client));
+  }
+
+  /**
+   * Run hooks on an existing event
+   * @param event
+   * @return False if event cancelled, true if not
+   */
+  async executeEvent(event: Event): Promise<boolean> {
+    let { direction: scope, type } = event;
+    if (scope === Direction.Any) throw new Error('hooks must be executed for a single direction');
+    let lists = this._matchingLists(scope, type);
+    if (!lists.length) return true;
+    if (lists.length === 1) {
+      // fast path, walk the list directly
+      for (let hook: Hook | null | undefined = lists[0].head; hook; hook = hook?._next) {
+        let action = await this._runHook(hook, event);
+        if (action !== EventAction.Continue) return action !== EventAction.Cancel;
       }
+      return true;
+    }
+    for (let hook of this._mergedOrder(scope, type, lists)) {
+      // skip hooks unregistered by earlier hooks
+      if (!hook._list) continue;
+      let action = await this._runHook(hook, event);
+      if (action !== EventAction.Continue) return action !== EventAction.Cancel;
     }
     return true;
   }
+
+  /**
+   * Run a single hook on an event
+   * @param hook
+   * @param event
+   * @return Action to take after the hook
+   */
+  async _runHook(hook: Hook, event: Event): Promise<EventAction> {
+    if (!hook.enabled) return EventAction.Continue;
+    let stats = hook.stats;
+    let start: bigint | null = null;
+    try {
+      if (hook.filter && !hook.filter(event)) return EventAction.Continue;
+      stats.calls++;
+      start = process.hrtime.bigint();
+      await this._callHandler(hook, event);
+    } catch (err) {
+      stats.errors++;
+      this._hookFailed(hook, event, err);
+      return this.errorPolicy.action === 'drop' ? EventAction.Cancel : EventAction.Continue;
+    } finally {
+      if (start !== null) {
+        let time = Number(process.hrtime.bigint() - start) / 1e6;
+        stats.totalTime += time;
+        if (time > stats.maxTime) stats.maxTime = time;
+      }
+    }
+    switch (event.action) {
+      case EventAction.Continue:
+      case EventAction.CancelHooks:
+        return event.action;
+      case EventAction.Cancel:
+        stats.cancels++;
+        return event.action;
+      default:
+        throw new Error('invalid hook action');
+    }
+  }
+
+  /**
+   * Call the handler of a hook, enforcing the time budget for packets
+   * @param hook
+   * @param event
+   */
+  async _callHandler(hook: Hook, event: Event) {
+    let budget = this.errorPolicy.timeBudget;
+    if (!budget || event.direction === Direction.Local) {
+      await hook.handler(event);
+      return;
+    }
+    let timeout: NodeJS.Timeout | null = null;
+    let handlerPromise = hook.handler(event);
+    let timeoutPromise = new Promise<never>((_resolve, reject) => {
+      timeout = setTimeout(() => reject(new HookTimeoutError(budget)), budget);
+    });
+    try {
+      await Promise.race([handlerPromise, timeoutPromise]);
+    } catch (err) {
+      // the handler may still fail later, nobody is listening anymore
+      if (err instanceof HookTimeoutError) handlerPromise.catch(() => {});
+      throw err;
+    } finally {
+      clearTimeout(timeout!);
+    }
+  }
+
+  /**
+   * Record a hook failure and disable the hook if it keeps failing
+   * @param hook
+   * @param event
+   * @param error
+   */
+  _hookFailed(hook: Hook, event: Event, error: Error) {
+    logger.error(`${hook} failed on ${Direction[event.direction]} ${event.type}:`, error);
+    let now = Date.now();
+    hook.recentErrors = hook.recentErrors.filter(time => now - time < this.errorPolicy.errorWindow);
+    hook.recentErrors.push(now);
+    // timeouts count like other errors, a single slow call should not turn
+    // off something like reconnecting
+    if (hook.recentErrors.length >= this.errorPolicy.maxErrors) {
+      this._disableHook(hook, error).catch(err => logger.error(`failed to disable ${hook}`, err));
+    }
+  }
+
+  /**
+   * Disable a misbehaving hook and notify its module
+   * @param hook
+   * @param error Error that caused the hook to be disabled
+   */
+  async _disableHook(hook: Hook, error: Error) {
+    logger.warn(`disabling ${hook} after ${hook.recentErrors.length} error(s)`);
+    hook.disable();
+    hook.disabledBy = error;
+    try {
+      await hook.module?.onHookDisabled(hook, error);
+    } catch (err) {
+      logger.error(`module [${hook.module!.name}] failed to handle disabled hook`, err);
+    }
+    await this.execute(Direction.Local, 'hookDisabled', { hook, error });
+  }
 }
@@ -0,0 +1,177 @@
+import type mc from 'minecraft-protocol';
+import mcData from 'minecraft-data';
+import MinecraftProxy from './proxy';
+import { Direction } from './hook';
+import { chat, ChatPosition } from './chat';
+import logger from './logger';
+
+/** Name of the limbo world */
+export const LIMBO_WORLD_NAME = 'proxy:limbo';
+/** How often the action bar status is refreshed, in milliseconds */
+const STATUS_REFRESH_INTERVAL = 2000;
+
+/**
+ * Build a respawn packet matching a login packet
+ * @param login
+ */
+export function respawnFromLogin(login: any): any {
+  return {
+    dimension: login.dimension,
+    worldName: login.worldName,
+    hashedSeed: login.hashedSeed,
+    gamemode: login.gameMode,
+    previousGamemode: login.previousGameMode,
+    isDebug: login.isDebug,
+    isFlat: login.isFlat,
+    copyMetadata: false
+  };
+}
+
+/**
+ * Send a login (join game) packet to a client that may already be in a world
+ * @param client
+ * @param login
+ * @param hadWorld Whether the client was already in a world
+ */
+export function sendJoinGame(client: mc.Client, login: any, hadWorld: boolean) {
+  client.write('login', login);
+  if (!hadWorld) return;
+  // the client only properly discards its old world on a dimension change,
+  // so respawn into a different dimension and back
+  let respawn = respawnFromLogin(login);
+  let temporary = login.dimension === 'minecraft:overworld'
+    ? 'minecraft:the_nether'
+    : 'minecraft:overworld';
+  client.write('respawn', { ...respawn, dimension: temporary });
+  client.write('respawn', respawn);
+}
+
+/**
+ * A proxy-generated void world that clients are kept in while the proxy is not
+ * connected to a server
+ */
+export class Limbo {
+  /** Associated proxy instance */
+  public proxy: MinecraftProxy;
+  /** Whether clients are currently in limbo */
+  public active = false;
+  /** Current status text, shown in the action bar */
+  public status = '';
+  /** Interval refreshing the action bar */
+  public statusInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * The constructor
+   * @param proxy
+   */
+  constructor(proxy: MinecraftProxy) {
+    this.proxy = proxy;
+  }
+
+  /**
+   * Whether a limbo world can be built for the configured version. The login
+   * packet is based on data from minecraft-data, which not every version has.
+   */
+  get available(): boolean {
+    return Boolean(mcData(this.proxy.config.version)?.loginPacket);
+  }
+
+  /** Build the login packet for the limbo world */
+  createLoginPacket(): any {
+    let template: any = mcData(this.proxy.config.version).loginPacket;
+    return {
+      ...template,
+      entityId: this.proxy.worldState.login?.entityId ?? template.entityId,
+      gameMode: 3, // spectator
+      previousGameMode: 255,
+      worldNames: [LIMBO_WORLD_NAME],
+      dimension: 'minecraft:overworld',
+      worldName: LIMBO_WORLD_NAME,
+      hashedSeed: [0, 0],
+      maxPlayers: 1,
+      viewDistance: 2,
+      reducedDebugInfo: false,
+      enableRespawnScreen: false,
+      isDebug: false,
+      isFlat: true
+    };
+  }
+
+  /**
+   * Put clients into limbo
+   * @param status Status to show, for example why the server disconnected
+   */
+  async enter(status: string) {
+    if (!this.available) throw new Error(`limbo is not available for version ${this.proxy.config.version}`);
+    if (this.active) {
+      this.setStatus(status);
+      return;
+    }
+    logger.info('entering limbo');
+    this.active = true;
+    for (let client of this.proxy.clients) this.sendTo(client);
+    this.setStatus(status);
+    this.statusInterval = setInterval(() => this._sendActionBar(), STATUS_REFRESH_INTERVAL);
+    await this.proxy.hooks.execute(Direction.Local, 'limboEntered', status);
+  }
+
+  /** Take clients out of limbo. Called once the server sends a new world. */
+  async leave() {
+    if (!this.active) return;
+    logger.info('leaving limbo');
+    this.active = false;
+    this.status = '';
+    if (this.statusInterval) clearInterval(this.statusInterval);
+    this.statusInterval = null;
+    await this.proxy.hooks.execute(Direction.Local, 'limboLeft', null);
+  }
+
+  /**
+   * Send the limbo world to a client
+   * @param client
+   */
+  sendTo(client: mc.Client) {
+    this.proxy.joinGame(client, this.createLoginPacket());
+    client.write('position', {
+      x: 0.5,
+      y: 64,
+      z: 0.5,
+      yaw: 0,
+      pitch: 0,
+      flags: 0,
+      teleportId: this.proxy.nextTeleportId()
+    });
+    if (this.status) this._sendStatus(client);
+  }
+
+  /**
+   * Update the status shown to clients in limbo
+   * @param status
+   */
+  setStatus(status: string) {
+    this.status = status;
+    if (!this.active) return;
+    logger.info(`limbo: ${status}`);
+    for (let client of this.proxy.clients) this._sendStatus(client);
+  }
+
+  /**
+   * Send the current status to a client in chat and the action bar
+   * @param client
+   */
+  _sendStatus(client: mc.Client) {
+    this.proxy.sendChat(chat(`[proxy] ${this.status}`).color('gold'), client);
+    this._sendActionBar(client);
+  }
+
+  /**
+   * Show the current status in the action bar
+   * @param client Client to send to, or all clients if not provided
+   */
+  _sendActionBar(client?: mc.Client) {
+    let clients = client ? [client] : this.proxy.clients;
+    for (let target of clients) {
+      this.proxy.sendChat(chat(this.status).color('gold'), target, ChatPosition.ActionBar);
+    }
+  }
+}
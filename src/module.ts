@@ -1,10 +1,36 @@
-import { promises as fsP } from 'fs';
+import { promises as fsP, watch, FSWatcher } from 'fs';
 import * as path from 'path';
-import { Hook, Direction, EventHandler } from './hook';
+import { Hook, Direction, EventHandler, HookOptions } from './hook';
 import { Command, CommandDescriptor } from './command';
 import MinecraftProxy from './proxy';
+import { ChatInput, chat } from './chat';
 import logger from './logger';
 
+/** Thrown when a module cannot be loaded or unloaded because of dependencies */
+export class ModuleDependencyError extends Error {
+  /**
+   * The constructor
+   * @param module Name of the module
+   * @param message
+   */
+  constructor(public module: string, message: string) {
+    super(`module [${module}]: ${message}`);
+    this.name = 'ModuleDependencyError';
+  }
+}
+
+/** Thrown when module dependencies form a cycle */
+export class ModuleCycleError extends Error {
+  /**
+   * The constructor
+   * @param cycle Names of the modules forming the cycle, first and last are the same
+   */
+  constructor(public cycle: string[]) {
+    super(`module dependencies form a cycle: ${cycle.map(name => `[${name}]`).join(' -> ')}`);
+    this.name = 'ModuleCycleError';
+  }
+}
+
 /** Base class for modules */
 export abstract class Module {
   /** Name of the module */
@@ -15,6 +41,10 @@ export abstract class Module {
   public hooks = new Set<Hook>();
   /** Commands registered by the module */
   public commands = new Set<Command>();
+  /** Modules that must be loaded before this module, by name */
+  public dependencies: string[] = [];
+  /** Modules that are loaded before this module if they are loaded at all */
+  public optionalDependencies: string[] = [];
   /** Array of keys to preserve from old state in reload */
   public statePreserveKeys: (keyof this)[] = [];
   /** Whether the module is currently loaded */
@@ -87,20 +117,51 @@ export abstract class Module {
     this.loaded = false;
   }
 
+  /**
+   * Replace the module configuration, for example after the proxy
+   * configuration was reloaded. Will call _configChanged if the module is
+   * loaded.
+   * @param config New module configuration
+   */
+  async updateConfig(config: any) {
+    let oldConfig = this.config;
+    this.config = config;
+    if (this.loaded) await this._configChanged(oldConfig);
+  }
+
+  /**
+   * Method called when the module configuration changes while the module is
+   * loaded. Can be overridden by modules to apply the new configuration.
+   * @param _oldConfig Previous module configuration
+   */
+  async _configChanged(_oldConfig: any): Promise<void> {}
+
   /**
    * Register a hook that belongs to the module. The hook will be unregistered
    * automatically on module unload.
    * @param scope
    * @param type
    * @param handler
-   * @param priority
+   * @param options Priority or hook options
    */
-  registerHook(scope: Direction, type: string, handler: EventHandler, priority = 100) {
-    let hook = this.proxy.hooks.register(scope, type, handler, priority);
+  registerHook(scope: Direction, type: string, handler: EventHandler, options: number | HookOptions = {}) {
+    if (typeof options === 'number') options = { priority: options };
+    let hook = this.proxy.hooks.register(scope, type, handler, { ...options, module: this });
     this.hooks.add(hook);
     return hook;
   }
 
+  /**
+   * Called when a hook of the module was disabled because it kept failing or
+   * timing out. Can be overridden by modules, for example to re-enable the hook
+   * after fixing their state.
+   * @param hook
+   * @param error Error that caused the hook to be disabled
+   */
+  async onHookDisabled(hook: Hook, error: Error): Promise<void> {
+    logger.warn(`module [${this.name}]: ${hook} was disabled: ${error.message}`);
+  }
+
   /**
    * Unregister a module hook
    * @param hook
@@ -115,7 +176,7 @@ export abstract class Module {
    * unregistered automatically on module unload.
    */
   registerCommand(descriptor: CommandDescriptor) {
-    let command = this.proxy.commandRegistry.register(descriptor);
+    let command = this.proxy.commandRegistry.register(descriptor, this);
     this.commands.add(command);
     return command;
   }
@@ -137,9 +198,13 @@ export abstract class Module {
     };
   }
 
-  /** Get other module by name */
-  getModule(name: string) {
-    return this.proxy.moduleRegistry.get(name);
+  /**
+   * Get other module by name. Modules listed in dependencies are always
+   * loaded while this module is.
+   * @param name
+   */
+  getModule<T extends Module = Module>(name: string): T | null {
+    return this.proxy.moduleRegistry.get<T>(name);
   }
 }
 
@@ -219,46 +284,131 @@ export class ModuleRegistry {
   }
 
   /**
-   * Reload a module
+   * Files that belong to a module: its entry point and the files it requires,
+   * directly or indirectly, from the directory of the entry point. Packages
+   * in node_modules are not included.
    * @param module
    */
-  async reload(moduleName: string) {
+  moduleFiles(module: Module): string[] {
+    if (!module._modulePath) return [];
+    let root = path.dirname(module._modulePath) + path.sep;
+    let files = new Set<string>([module._modulePath]);
+    let toTraverse: NodeJS.Module[] = [];
+    let entry = require.cache[module._modulePath];
+    if (entry) toTraverse.push(entry);
+    while (toTraverse.length) {
+      for (let child of toTraverse.pop()!.children) {
+        let file = child.id;
+        if (files.has(file) || !file.startsWith(root) || file.includes(`${path.sep}node_modules${path.sep}`)) continue;
+        files.add(file);
+        toTraverse.push(child);
+      }
+    }
+    return [...files];
+  }
+
+  /**
+   * Reload a module. Loaded modules depending on it are reloaded after it, so
+   * they do not keep using the old instance. If the new instance fails to
+   * load, the old one is loaded again.
+   * @param moduleName
+   * @return Names of the reloaded modules, in order
+   */
+  async reload(moduleName: string): Promise<string[]> {
     logger.info(`reloading module [${moduleName}]`);
     let oldModule = this.modules.get(moduleName);
     if (!oldModule) throw new Error('no such module');
     if (!oldModule._modulePath) throw new Error('not possible to reload module');
-    let nodeModule = require.cache[oldModule._modulePath];
-    if (nodeModule) {
-      let toDelete = new Set<string>();
-      let toTraverse: NodeJS.Module[] = [nodeModule];
-      while (toTraverse.length) {
-        if (toTraverse.length > 1e6) {
-          // we have problems!
-          throw new Error('too many things on the stack');
-        }
-        let module = toTraverse.pop()!;
-        if (module.id.startsWith(oldModule._modulePath)) {
-          if (!toDelete.has(module.id)) toTraverse.push(...module!.children);
-          toDelete.add(module.id);
+    let dependents = oldModule.loaded ? this._loadedDependents(moduleName) : [];
+    for (let dependent of [...dependents].reverse()) {
+      logger.info(`unloading module [${dependent.name}] to reload module [${moduleName}]`);
+      await dependent.unload(true);
+    }
+    try {
+      await this._replaceModule(oldModule, oldModule.loaded);
+    } catch (err) {
+      // the old instance is back, or unloaded if that failed as well
+      for (let dependent of dependents) {
+        if (!this.modules.get(moduleName)?.loaded) break;
+        try {
+          await dependent.load(true);
+        } catch (loadErr) {
+          logger.warn(`module [${dependent.name}] failed to load again`, loadErr);
         }
       }
-      for (let moduleId of toDelete) {
-        logger.silly(`delete cache for module [${moduleId}]`);
-        delete require.cache[moduleId];
+      throw err;
+    }
+    let reloaded = [moduleName];
+    for (let dependent of dependents) {
+      try {
+        await this._replaceModule(dependent, true);
+        reloaded.push(dependent.name);
+      } catch (err) {
+        logger.warn(`module [${dependent.name}] failed to reload`, err);
       }
     }
+    return reloaded;
+  }
+
+  /**
+   * Loaded modules that depend on a module, directly or indirectly
+   * @param moduleName
+   * @return Modules in load order
+   */
+  _loadedDependents(moduleName: string): Module[] {
+    let found = new Set<string>();
+    let visit = (name: string) => {
+      for (let dependent of this.dependents(name)) {
+        if (found.has(dependent.name)) continue;
+        found.add(dependent.name);
+        visit(dependent.name);
+      }
+    };
+    visit(moduleName);
+    return this.resolveLoadOrder([...found])
+      .filter(name => found.has(name))
+      .map(name => this.modules.get(name)!);
+  }
+
+  /**
+   * Import a module again and replace the old instance with the new one
+   * @param oldModule
+   * @param load Whether to load the new instance
+   * @throws if the new instance cannot be imported or loaded. The old
+   *   instance is kept and loaded again in that case.
+   */
+  async _replaceModule(oldModule: Module, load: boolean) {
+    let modulePath = oldModule._modulePath!;
+    for (let file of this.moduleFiles(oldModule)) {
+      logger.silly(`delete cache for module [${file}]`);
+      delete require.cache[file];
+    }
     // if module path changes this will die
-    let moduleClass: any = require(oldModule._modulePath); // eslint-disable-line @typescript-eslint/no-var-requires
+    let moduleClass: any = require(modulePath); // eslint-disable-line @typescript-eslint/no-var-requires
     if (moduleClass.default) moduleClass = moduleClass.default;
     if (!moduleClass) throw new Error('reloaded module is invalid');
     let newModule: Module = new moduleClass(); // eslint-disable-line new-cap
     this._hydrateModule(newModule);
     newModule._originalImportPath = oldModule._originalImportPath;
-    newModule._modulePath = oldModule._modulePath;
-    let wasLoaded = oldModule.loaded;
-    if (wasLoaded) await oldModule.unload(true);
+    newModule._modulePath = modulePath;
+    if (oldModule.loaded) await oldModule.unload(true);
     await newModule.migrateState(oldModule);
-    if (wasLoaded) await newModule.load(true);
+    if (load) {
+      try {
+        await newModule.load(true);
+      } catch (err) {
+        // remove whatever the new instance registered before failing
+        for (let hook of newModule.hooks) newModule.unregisterHook(hook);
+        for (let command of newModule.commands) newModule.unregisterCommand(command);
+        logger.warn(`module [${oldModule.name}] failed to load after reloading, loading the previous version`);
+        try {
+          await oldModule.load(true);
+        } catch (loadErr) {
+          logger.error(`module [${oldModule.name}] failed to load again`, loadErr);
+        }
+        throw err;
+      }
+    }
     oldModule.current = newModule;
     if (oldModule.previous) {
       oldModule.previous.current = newModule;
@@ -273,29 +423,326 @@ export class ModuleRegistry {
   }
 
   /**
-   * Load a module after importing
+   * Sort modules so that dependencies come before the modules that need
+   * them. Hard dependencies are included even if not requested, optional
+   * dependencies only if they are requested or loaded. Optional dependencies
+   * only order modules, so they are ignored where they would form a cycle.
+   * @param moduleNames Names of the modules
+   * @param exclude Modules to leave out, along with their dependencies
+   *   unless something else needs them
+   * @throws ModuleCycleError if dependencies form a cycle
+   */
+  resolveLoadOrder(moduleNames: string[], exclude = new Set<string>()): string[] {
+    let order: string[] = [];
+    let done = new Set<string>();
+    let path: string[] = [];
+    let wanted = new Set(moduleNames);
+    let visit = (name: string) => {
+      if (done.has(name) || exclude.has(name)) return;
+      if (path.includes(name)) throw new ModuleCycleError([...path.slice(path.indexOf(name)), name]);
+      let module = this.modules.get(name);
+      path.push(name);
+      if (module) {
+        for (let dependency of module.dependencies) visit(dependency);
+        for (let dependency of module.optionalDependencies) {
+          if (path.includes(dependency)) continue;
+          if (wanted.has(dependency) || this.modules.get(dependency)?.loaded) visit(dependency);
+        }
+      }
+      path.pop();
+      done.add(name);
+      order.push(name);
+    };
+    for (let name of moduleNames) visit(name);
+    return order;
+  }
+
+  /**
+   * Load a module after importing, loading its dependencies first
    * @param moduleName Name of the module
    */
   async load(moduleName: string): Promise<Module> {
-    logger.info(`loading module [${moduleName}]`);
     let module = this.modules.get(moduleName);
     if (!module) throw new Error('no such module');
     if (module.loaded) throw new Error('module is already loaded');
-    await module.load(false);
+    let order = this.resolveLoadOrder([moduleName]);
+    // check the whole tree before loading any of it
+    for (let name of order) {
+      if (this.modules.has(name)) continue;
+      let dependent = order.find(other => this.modules.get(other)?.dependencies.includes(name)) ?? moduleName;
+      throw new ModuleDependencyError(dependent, `missing dependency [${name}]`);
+    }
+    for (let name of order) {
+      let dependency = this.modules.get(name);
+      if (dependency?.loaded) continue;
+      if (dependency !== module) logger.info(`module [${moduleName}] requires module [${name}]`);
+      await this._loadModule(name);
+    }
     return module;
   }
 
-  async unload(moduleName: string) {
-    logger.info(`unloading module [${moduleName}]`);
+  /**
+   * Load several modules in dependency order. Modules that fail to load, and
+   * modules depending on them, are logged and skipped.
+   * @param moduleNames Names of the modules
+   * @return Errors of modules that failed to load, by module name
+   */
+  async loadAll(moduleNames: string[]): Promise<Map<string, Error>> {
+    let failed = new Map<string, Error>();
+    let order: string[] | null = null;
+    while (!order) {
+      try {
+        order = this.resolveLoadOrder(moduleNames, new Set(failed.keys()));
+      } catch (err) {
+        if (!(err instanceof ModuleCycleError)) throw err;
+        for (let name of err.cycle) failed.set(name, err);
+      }
+    }
+    for (let name of failed.keys()) logger.warn(`module [${name}] failed to load`, failed.get(name));
+    for (let name of order) {
+      if (this.modules.get(name)?.loaded) continue;
+      // dependencies that were never imported are reported by their dependents
+      if (!this.modules.has(name) && !moduleNames.includes(name)) continue;
+      try {
+        let dependency = this.modules.get(name)?.dependencies.find(dependency => failed.has(dependency));
+        if (dependency) throw new ModuleDependencyError(name, `dependency [${dependency}] failed to load`);
+        await this._loadModule(name);
+      } catch (err) {
+        logger.warn(`module [${name}] failed to load`, err);
+        failed.set(name, err);
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Load a single module whose dependencies are already loaded
+   * @param moduleName
+   */
+  async _loadModule(moduleName: string) {
+    logger.info(`loading module [${moduleName}]`);
+    let module = this.modules.get(moduleName);
+    if (!module) throw new Error('no such module');
+    for (let name of module.dependencies) {
+      let dependency = this.modules.get(name);
+      if (!dependency) throw new ModuleDependencyError(moduleName, `missing dependency [${name}]`);
+      if (!dependency.loaded) throw new ModuleDependencyError(moduleName, `dependency [${name}] is not loaded`);
+    }
+    await module.load(false);
+  }
+
+  /**
+   * Find loaded modules that depend on a module
+   * @param moduleName
+   */
+  dependents(moduleName: string): Module[] {
+    return [...this.modules.values()]
+      .filter(module => module.loaded && module.dependencies.includes(moduleName));
+  }
+
+  /**
+   * Unload a module
+   * @param moduleName
+   * @param cascade Unload modules depending on the module first instead of
+   *   refusing to unload it
+   * @return Names of the unloaded modules, in order
+   */
+  async unload(moduleName: string, cascade = false): Promise<string[]> {
     let module = this.modules.get(moduleName);
     if (!module) throw new Error('no such module');
     if (!module.loaded) throw new Error('module is already unloaded');
+    let dependents = this.dependents(moduleName);
+    if (dependents.length && !cascade) {
+      let names = dependents.map(dependent => `[${dependent.name}]`).join(', ');
+      throw new ModuleDependencyError(moduleName, `required by ${names}`);
+    }
+    let unloaded: string[] = [];
+    for (let dependent of dependents) {
+      // may have been unloaded as a dependent of an earlier one
+      if (dependent.loaded) unloaded.push(...await this.unload(dependent.name, true));
+    }
+    logger.info(`unloading module [${moduleName}]`);
     await module.unload(false);
+    unloaded.push(moduleName);
+    return unloaded;
   }
 
-  get(moduleName: string): Module | null {
+  get<T extends Module = Module>(moduleName: string): T | null {
     let module = this.modules.get(moduleName);
     if (!module) return null;
-    return module;
+    return module as T;
+  }
+}
+
+/**
+ * Reloads loaded modules when their files in the modules directory change,
+ * see ModuleRegistry.moduleFiles
+ */
+export class ModuleWatcher {
+  /** Associated module registry */
+  public registry: ModuleRegistry;
+  /** Debounce delay for change events, in milliseconds */
+  public debounce: number;
+  /** Underlying fs watchers, by directory */
+  public watchers = new Map<string, FSWatcher>();
+  /** Files changed since the last reload */
+  public changed = new Set<string>();
+  /**
+   * Files of each module as of its last successful import, so a failed
+   * reload can be fixed by changing the file that broke it
+   */
+  public files = new Map<string, string[]>();
+  /** Pending debounce timer */
+  public timeout: NodeJS.Timeout | null = null;
+  /** Resolves once queued reloads have finished */
+  public _reloading: Promise<void> = Promise.resolve();
+
+  /**
+   * The constructor
+   * @param registry
+   * @param debounce
+   */
+  constructor(registry: ModuleRegistry, debounce = 300) {
+    this.registry = registry;
+    this.debounce = debounce;
+  }
+
+  /** Whether the watcher is running */
+  get active(): boolean {
+    return this.watchers.size > 0;
+  }
+
+  /** Start watching the modules directory */
+  async start() {
+    let dir = this.registry.proxy.config.modulesDir;
+    if (!dir || this.active) return;
+    for (let module of this.registry.modules.values()) this._filesOf(module);
+    await this._watchTree(dir);
+    logger.info(`watching [${dir}] for module changes`);
+  }
+
+  /** Stop watching */
+  stop() {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+    this.changed.clear();
+    for (let watcher of this.watchers.values()) watcher.close();
+    this.watchers.clear();
+    this.files.clear();
+  }
+
+  /**
+   * Files of a module, see files
+   * @param module
+   */
+  _filesOf(module: Module): string[] {
+    if (module._modulePath && require.cache[module._modulePath]) {
+      this.files.set(module.name, this.registry.moduleFiles(module));
+    }
+    return this.files.get(module.name) ?? this.registry.moduleFiles(module);
+  }
+
+  /**
+   * Watch a directory and its subdirectories. Directories are watched one by
+   * one as recursive watches are not supported everywhere.
+   * @param dir
+   */
+  async _watchTree(dir: string) {
+    if (this.watchers.has(dir)) return;
+    let watcher = watch(dir, (event, filename) => {
+      if (filename) this._changed(event, path.join(dir, filename.toString()));
+    });
+    // the directory was most likely removed
+    watcher.on('error', () => {
+      watcher.close();
+      this.watchers.delete(dir);
+    });
+    this.watchers.set(dir, watcher);
+    for (let entry of await fsP.readdir(dir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+      await this._watchTree(path.join(dir, entry.name));
+    }
+  }
+
+  /**
+   * Handle a change event
+   * @param event
+   * @param file
+   */
+  _changed(event: string, file: string) {
+    if (event === 'rename' && path.basename(file) !== 'node_modules') {
+      fsP.stat(file)
+        .then(stats => stats.isDirectory() ? this._watchTree(file) : undefined)
+        .catch(() => {});
+    }
+    this.changed.add(file);
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      this._flush();
+    }, this.debounce);
+  }
+
+  /** Reload modules affected by the changes since the last call */
+  _flush() {
+    let changed = this.changed;
+    this.changed = new Set();
+    let affected = [...this.registry.modules.values()]
+      .filter(module => module.loaded && this._filesOf(module).some(file => changed.has(file)))
+      .map(module => module.name);
+    if (!affected.length) return;
+    // reload dependencies first, and one change at a time
+    let order: string[];
+    try {
+      order = this.registry.resolveLoadOrder(affected).filter(name => affected.includes(name));
+    } catch (err) {
+      logger.error('cannot reload changed modules', err);
+      this._report(chat(`[proxy] Cannot reload changed modules: ${err.message}`).color('red'));
+      return;
+    }
+    this._reloading = this._reloading
+      .then(async () => {
+        let done = new Set<string>();
+        for (let name of order) {
+          // dependents are reloaded along with their dependencies
+          if (done.has(name)) continue;
+          for (let reloaded of await this._reload(name)) done.add(reloaded);
+        }
+      })
+      .catch(err => {
+        logger.error('failed to reload changed modules', err);
+      });
+  }
+
+  /**
+   * Reload a module and report the result
+   * @param name
+   * @return Names of the reloaded modules, including dependents
+   */
+  async _reload(name: string): Promise<string[]> {
+    let proxy = this.registry.proxy;
+    logger.info(`files of module [${name}] changed`);
+    let reloaded: string[];
+    try {
+      reloaded = await this.registry.reload(name);
+    } catch (err) {
+      logger.error(`failed to reload module [${name}]`, err);
+      this._report(chat(`[proxy] Failed to reload module [${name}]: ${err.message}`).color('red'));
+      return [];
+    }
+    let names = reloaded.map(moduleName => `[${moduleName}]`).join(', ');
+    this._report(chat(`[proxy] Reloaded ${reloaded.length > 1 ? 'modules' : 'module'} ${names}`).color('green'));
+    // the module may have changed its commands
+    if (proxy.coreModule?.commandGraph) proxy.coreModule.updateAndSendCommandGraph();
+    return reloaded;
+  }
+
+  /**
+   * Tell attached clients about a reload
+   * @param message
+   */
+  _report(message: ChatInput) {
+    let proxy = this.registry.proxy;
+    for (let client of proxy.clients) proxy.sendChat(message, client);
   }
 }
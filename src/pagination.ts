@@ -0,0 +1,182 @@
+import type mc from 'minecraft-protocol';
+import { ChatComponent, ChatInput, chat, fromLegacy, toComponent } from './chat';
+
+/** Lines shown per page */
+export const DEFAULT_PAGE_SIZE = 10;
+/** Characters shown per page, longer lines are split */
+export const MAX_PAGE_CHARACTERS = 2000;
+/** How long outputs stay retrievable, in milliseconds */
+export const OUTPUT_RETENTION = 10 * 60 * 1000;
+/** Outputs kept per client */
+export const MAX_OUTPUTS_PER_CLIENT = 10;
+
+/** Options for paginated output */
+export interface PaginateOptions {
+  /** Title shown above every page, strings are shown in gold */
+  title?: ChatInput;
+  /** Lines per page */
+  pageSize?: number;
+}
+
+/** Command output split into pages */
+export class PagedOutput {
+  /** Id used to retrieve the output */
+  public id: number;
+  /**
+   * Username of the client the output belongs to, or null. Outputs are kept
+   * by username so they stay reachable after reconnecting.
+   */
+  public owner: string | null;
+  /** Title shown above every page, if any */
+  public title: ChatComponent | null;
+  /** Lines of every page */
+  public pages: ChatComponent[][];
+  /** When the output was created */
+  public createdAt = Date.now();
+
+  /**
+   * The constructor
+   * @param id
+   * @param owner
+   * @param title
+   * @param pages
+   */
+  constructor(id: number, owner: string | null, title: ChatComponent | null, pages: ChatComponent[][]) {
+    this.id = id;
+    this.owner = owner;
+    this.title = title;
+    this.pages = pages;
+  }
+}
+
+/**
+ * Split output into lines. Strings are split on newlines and may contain
+ * legacy formatting codes.
+ * @param output
+ */
+export function splitLines(output: ChatInput | ChatInput[]): ChatComponent[] {
+  let inputs = Array.isArray(output) ? output : [output];
+  let lines: ChatComponent[] = [];
+  for (let input of inputs) {
+    if (typeof input !== 'string') {
+      lines.push(toComponent(input));
+      continue;
+    }
+    for (let line of input.split('\n')) {
+      // keep single lines from taking up more than a page
+      let start = 0;
+      do {
+        lines.push(fromLegacy(line.slice(start, start + MAX_PAGE_CHARACTERS)));
+        start += MAX_PAGE_CHARACTERS;
+      } while (start < line.length);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Split lines into pages
+ * @param lines
+ * @param pageSize Lines per page
+ */
+export function paginate(lines: ChatComponent[], pageSize = DEFAULT_PAGE_SIZE): ChatComponent[][] {
+  let pages: ChatComponent[][] = [];
+  let page: ChatComponent[] = [];
+  let characters = 0;
+  for (let line of lines) {
+    let length = JSON.stringify(line).length;
+    if (page.length >= pageSize || (page.length && characters + length > MAX_PAGE_CHARACTERS)) {
+      pages.push(page);
+      page = [];
+      characters = 0;
+    }
+    page.push(line);
+    characters += length;
+  }
+  if (page.length || !pages.length) pages.push(page);
+  return pages;
+}
+
+/** Keeps paginated outputs so earlier pages can be shown again */
+export class OutputStore {
+  /** Outputs by id */
+  public outputs = new Map<number, PagedOutput>();
+  /** Id of the next output */
+  public nextId = 1;
+  /** Removes expired outputs while there are any */
+  public pruneTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Store output
+   * @param client Client the output belongs to
+   * @param title
+   * @param pages
+   */
+  add(client: mc.Client | null, title: ChatComponent | null, pages: ChatComponent[][]): PagedOutput {
+    this._prune();
+    let owner = client?.username ?? null;
+    let output = new PagedOutput(this.nextId++, owner, title, pages);
+    this.outputs.set(output.id, output);
+    let owned = [...this.outputs.values()].filter(other => other.owner === owner);
+    for (let old of owned.slice(0, -MAX_OUTPUTS_PER_CLIENT)) this.outputs.delete(old.id);
+    if (!this.pruneTimer) {
+      this.pruneTimer = setInterval(() => this._prune(), OUTPUT_RETENTION);
+      this.pruneTimer.unref();
+    }
+    return output;
+  }
+
+  /**
+   * Find output of a client
+   * @param client
+   * @param id Id of the output, or null for the latest one
+   */
+  get(client: mc.Client | null, id: number | null = null): PagedOutput | null {
+    this._prune();
+    let owner = client?.username ?? null;
+    if (id !== null) {
+      let output = this.outputs.get(id);
+      return output?.owner === owner ? output : null;
+    }
+    let owned = [...this.outputs.values()].filter(output => output.owner === owner);
+    return owned[owned.length - 1] ?? null;
+  }
+
+  /**
+   * Render a page of output with controls to switch pages
+   * @param output
+   * @param page Page number, starting at 1
+   * @param prefix Command prefix
+   */
+  render(output: PagedOutput, page: number, prefix: string): ChatComponent[] {
+    let total = output.pages.length;
+    let lines: ChatComponent[] = [];
+    if (output.title) lines.push(output.title);
+    lines.push(...output.pages[page - 1]);
+    if (total > 1) {
+      let control = (label: string, target: number) => target >= 1 && target <= total
+        ? chat(label).color('aqua').runCommand(`${prefix}page ${target} ${output.id}`).hover(`Page ${target}`)
+        : chat(label).color('dark_gray');
+      lines.push(chat()
+        .append(
+          control('« previous', page - 1),
+          chat(` page ${page}/${total} `).color('gray'),
+          control('next »', page + 1)
+        )
+        .toJSON());
+    }
+    return lines;
+  }
+
+  /** Remove expired outputs */
+  _prune() {
+    let expiry = Date.now() - OUTPUT_RETENTION;
+    for (let [id, output] of this.outputs) {
+      if (output.createdAt < expiry) this.outputs.delete(id);
+    }
+    if (!this.outputs.size && this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+}
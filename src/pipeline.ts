@@ -0,0 +1,232 @@
+import type mc from 'minecraft-protocol';
+import { Hooks, Event, Direction } from './hook';
+import logger from './logger';
+
+/** Queue depth above which a warning is logged */
+const QUEUE_WARN_DEPTH = 1000;
+
+/** Callbacks of a pipeline */
+export interface PipelineHandlers {
+  /** Called in order with every packet that should be forwarded */
+  forward: (type: string, data: any, client: mc.Client | null) => void;
+  /** Called with every packet that was dropped */
+  drop?: (type: string, data: any, client: mc.Client | null) => void;
+}
+
+/** Counters of a pipeline */
+export interface PipelineMetrics {
+  /** Packets currently waiting, including the one being processed */
+  depth: number;
+  /** Highest depth seen */
+  maxDepth: number;
+  /** Packets forwarded */
+  forwarded: number;
+  /** Packets dropped by hooks */
+  dropped: number;
+  /** Packets currently held by hooks */
+  held: number;
+  /** Packets currently deferred by hooks */
+  deferred: number;
+}
+
+/** A packet waiting in the pipeline */
+interface QueuedPacket {
+  /** Hook event of the packet */
+  event: Event;
+  /** Generation of the pipeline the packet was pushed in */
+  generation: number;
+  /** Resolves the promise returned by push */
+  done: () => void;
+}
+
+/**
+ * Runs hooks on the packets of one direction and forwards them in arrival
+ * order, even if hooks take a while
+ */
+export class PacketPipeline {
+  /** Hooks to run */
+  public hooks: Hooks;
+  /** Direction of the packets */
+  public direction: Direction;
+  /** Callbacks */
+  public handlers: PipelineHandlers;
+  /** Packets waiting to be processed */
+  public queue: QueuedPacket[] = [];
+  /** Whether the queue is being processed */
+  public processing = false;
+  /**
+   * Incremented when the pipeline is cleared. Packets of an older generation
+   * still held or deferred by hooks are discarded instead of forwarded.
+   */
+  public generation = 0;
+  /** Counters */
+  public metrics: PipelineMetrics = {
+    depth: 0,
+    maxDepth: 0,
+    forwarded: 0,
+    dropped: 0,
+    held: 0,
+    deferred: 0
+  };
+
+  /**
+   * The constructor
+   * @param hooks
+   * @param direction
+   * @param handlers
+   */
+  constructor(hooks: Hooks, direction: Direction, handlers: PipelineHandlers) {
+    this.hooks = hooks;
+    this.direction = direction;
+    this.handlers = handlers;
+  }
+
+  /**
+   * Add a packet to the pipeline
+   * @param type
+   * @param data
+   * @param client Client that sent the packet, if any
+   * @return Promise resolving once the packet was forwarded, dropped or deferred
+   */
+  push(type: string, data: any, client: mc.Client | null = null): Promise<void> {
+    return new Promise(resolve => {
+      let event = new Event(type, this.direction, data, client);
+      this.queue.push({ event, generation: this.generation, done: resolve });
+      this._updateDepth();
+      if (!this.processing) this._process();
+    });
+  }
+
+  /**
+   * Drop all packets that are waiting, for example after a disconnect.
+   * Packets held or deferred by hooks are discarded once released.
+   */
+  clear() {
+    this.generation++;
+    // the packet being processed stays at the front of the queue
+    let waiting = this.queue.splice(this.processing ? 1 : 0);
+    for (let packet of waiting) packet.done();
+    this._updateDepth();
+  }
+
+  /** Process queued packets one after another */
+  async _process() {
+    this.processing = true;
+    while (this.queue.length) {
+      let packet = this.queue[0];
+      try {
+        await this._handle(packet.event, packet.generation);
+      } catch (err) {
+        logger.error(`failed to process ${Direction[this.direction]} packet ${packet.event.type}`, err);
+      }
+      this.queue.shift();
+      this._updateDepth();
+      packet.done();
+    }
+    this.processing = false;
+  }
+
+  /**
+   * Run hooks on a packet and forward it
+   * @param event
+   * @param generation Generation the packet was pushed in
+   */
+  async _handle(event: Event, generation: number) {
+    let forward = await this.hooks.executeEvent(event);
+    if (this._isStale(event, generation)) return;
+    if (!forward) {
+      this._drop(event);
+      return;
+    }
+    if (event.held) {
+      this.metrics.held++;
+      forward = await this._release(event, event.held, 'held');
+      this.metrics.held--;
+      if (this._isStale(event, generation)) return;
+      if (!forward) {
+        this._drop(event);
+        return;
+      }
+    }
+    if (event.deferred) {
+      this.metrics.deferred++;
+      this._release(event, event.deferred, 'deferred').then(forward => {
+        this.metrics.deferred--;
+        if (this._isStale(event, generation)) return;
+        if (forward) this._forward(event);
+        else this._drop(event);
+      }).catch(err => {
+        logger.error(`failed to forward deferred ${Direction[this.direction]} packet ${event.type}`, err);
+      });
+      return;
+    }
+    this._forward(event);
+  }
+
+  /**
+   * Wait for a held or deferred packet to be released. If it takes longer than
+   * the hook time budget, the packet is forwarded or dropped according to the
+   * hook error policy.
+   * @param event
+   * @param released Resolves to whether to forward the packet
+   * @param state How the packet is waiting, for the log message
+   * @return Whether to forward the packet
+   */
+  async _release(event: Event, released: Promise<boolean>, state: 'held' | 'deferred'): Promise<boolean> {
+    let { timeBudget, action } = this.hooks.errorPolicy;
+    if (!timeBudget) return await released;
+    let timeout: NodeJS.Timeout | null = null;
+    let expired = new Promise<boolean>(resolve => {
+      timeout = setTimeout(() => {
+        logger.warn(`${Direction[this.direction]} packet ${event.type} was ${state} for more than ` +
+          `${timeBudget} ms, ${action === 'forward' ? 'forwarding' : 'dropping'} it`);
+        resolve(action === 'forward');
+      }, timeBudget);
+    });
+    try {
+      return await Promise.race([released, expired]);
+    } finally {
+      clearTimeout(timeout!);
+    }
+  }
+
+  /**
+   * Check whether the pipeline was cleared since a packet was pushed
+   * @param event
+   * @param generation Generation the packet was pushed in
+   */
+  _isStale(event: Event, generation: number): boolean {
+    if (generation === this.generation) return false;
+    logger.debug(`discarding ${Direction[this.direction]} packet ${event.type} from before the pipeline was cleared`);
+    return true;
+  }
+
+  /**
+   * Forward a packet
+   * @param event
+   */
+  _forward(event: Event) {
+    this.metrics.forwarded++;
+    this.handlers.forward(event.type, event.data, event.client);
+  }
+
+  /**
+   * Drop a packet
+   * @param event
+   */
+  _drop(event: Event) {
+    this.metrics.dropped++;
+    this.handlers.drop?.(event.type, event.data, event.client);
+  }
+
+  /** Update depth counters */
+  _updateDepth() {
+    let previous = this.metrics.depth;
+    this.metrics.depth = this.queue.length;
+    this.metrics.maxDepth = Math.max(this.metrics.maxDepth, this.metrics.depth);
+    if (previous < QUEUE_WARN_DEPTH && this.metrics.depth >= QUEUE_WARN_DEPTH) {
+      logger.warn(`${Direction[this.direction]} pipeline has ${this.metrics.depth} packets waiting, ` +
+        'is a hook holding it up?');
+    }
+  }
+}
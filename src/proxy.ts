@@ -1,10 +1,20 @@
 import { EventEmitter } from 'events';
+import { promises as fsP } from 'fs';
 import * as path from 'path';
 import mc from 'minecraft-protocol';
-import { Hooks, Direction } from './hook';
+import { Hooks, Direction, HookErrorPolicy, DEFAULT_HOOK_ERROR_POLICY } from './hook';
 import { CommandRegistry } from './command';
-import { ModuleRegistry } from './module';
+import { ModuleRegistry, ModuleWatcher } from './module';
 import CoreModule from './core-module';
+import { WorldState } from './world-state';
+import { Limbo, sendJoinGame } from './limbo';
+import { Reconnector, ReconnectConfiguration } from './reconnect';
+import { PacketRecorder, RecordFlags } from './recording';
+import { ReplaySession } from './replay';
+import { VersionData, VersionDataError } from './data';
+import { PacketPipeline } from './pipeline';
+import { AdminConsole } from './console';
+import { ChatInput, ChatPosition, chat, serializeChat, parseChat, toPlainText, toAnsi } from './chat';
 import logger from './logger';
 
 export let PACKET_DEBUG = process.env.PROXY_DEBUG === '1';
@@ -46,30 +56,132 @@ export interface ProxyConfiguration {
   modules?: string[];
   /** Module configuration */
   moduleConfig?: Record<string, any>;
+  /** Reload modules when their files in modulesDir change */
+  watchModules?: boolean;
   /** Prefix for proxy commands */
   commandPrefix?: string;
+  /** Additional names for proxy commands, mapping alias to command name */
+  commandAliases?: Record<string, string>;
+  /** Maximum number of clients attached as spectators */
+  maxSpectators?: number;
+  /** Keep clients in a limbo world instead of kicking them when the server is unavailable */
+  limbo?: boolean;
+  /**
+   * Reconnect automatically when the server connection is lost, or null to
+   * disable. Clients are kept in limbo while reconnecting.
+   */
+  reconnect?: ReconnectConfiguration | null;
+  /** Directory packet recordings are saved to */
+  recordingsDir?: string;
+  /**
+   * Play back a recording to clients instead of connecting to a server, or
+   * null to connect normally
+   */
+  replay?: string | null;
+  /** Directory containing version data generated by burger */
+  dataDir?: string;
+  /** How hooks that throw or get stuck are handled */
+  hookErrors?: Partial<HookErrorPolicy>;
+  /** Read proxy commands from standard input */
+  console?: boolean;
+  /** Path of a UNIX socket accepting console sessions, or null to disable */
+  consoleSocket?: string | null;
 }
 
 type ProxyConfigurationNonOptional = Required<ProxyConfiguration>
 
+/** Configuration keys that authentication modules may overwrite at runtime */
+const CREDENTIAL_KEYS: (keyof ProxyConfiguration)[] = ['username', 'password', 'accessToken', 'clientToken', 'session'];
+/** Configuration keys that only take effect on startup */
+const RESTART_REQUIRED_KEYS: (keyof ProxyConfiguration)[] = [
+  'proxyPort', 'motd', 'version', 'maxSpectators', 'replay', 'console', 'consoleSocket'
+];
+
+/**
+ * Copy a configuration value from one configuration to another
+ * @param target
+ * @param source
+ * @param key
+ */
+function copyConfigValue<K extends keyof ProxyConfiguration>(
+  target: ProxyConfigurationNonOptional,
+  source: ProxyConfigurationNonOptional,
+  key: K
+) {
+  target[key] = source[key];
+}
+
+/** Time to wait for the server to close the connection when switching servers, in milliseconds */
+const SERVER_END_TIMEOUT = 5000;
+
+/** Teleport ids at or above this value are generated by the proxy */
+export const PROXY_TELEPORT_ID_BASE = 0x7f000000;
+
+/**
+ * Rewrite a server to client packet for a spectating client
+ * @param type
+ * @param data
+ * @return Rewritten packet data, or null if the packet should not be sent
+ */
+function toSpectatorPacket(type: string, data: any): any {
+  switch (type) {
+    case 'login': return { ...data, gameMode: 3 };
+    case 'respawn': return { ...data, gamemode: 3 };
+    // do not let game mode changes and abilities take spectators out of spectator mode
+    case 'game_state_change': return data.reason === 3 ? null : data;
+    case 'abilities': return null;
+    default: return data;
+  }
+}
+
 /** Represents a proxy instance */
 export default class MinecraftProxy extends EventEmitter {
   /** Local proxy server */
   public server: mc.Server;
   /** Client for connecting to remote server */
   public connectClient: mc.Client | null = null;
-  /** Client currently connected to the proxy server */
+  /** Client currently in control of the session */
   public proxyClient: mc.Client | null = null;
+  /** Clients attached to the session as read-only spectators */
+  public spectators = new Set<mc.Client>();
+  /** Cached world state of the current session */
+  public worldState = new WorldState();
+  /** Limbo world used while not connected to a server */
+  public limbo: Limbo;
+  /** Automatic reconnect handler */
+  public reconnector: Reconnector;
+  /** Data for the configured version, if available */
+  public data: VersionData | null = null;
+  /** Replay session played back instead of a server, if in replay mode */
+  public replay: ReplaySession | null = null;
+  /** Active packet recorder, if recording */
+  public recorder: PacketRecorder | null = null;
+  /** Reason of the last kick by the server, if any */
+  public lastKickReason: string | null = null;
   /** Proxy options */
   public config: ProxyConfigurationNonOptional;
+  /** Configuration as originally provided, before defaults were applied */
+  public initialConfig: ProxyConfiguration;
   /** Hook instance */
   public hooks: Hooks;
+  /** Ordered pipeline for packets from the controlling client */
+  public toServerPipeline: PacketPipeline;
+  /** Ordered pipeline for packets from the server */
+  public toClientPipeline: PacketPipeline;
   /** Command registry instance */
   public commandRegistry: CommandRegistry;
   /** Module registery instance */
   public moduleRegistry: ModuleRegistry;
+  /** Reloads modules when their files change, if enabled */
+  public moduleWatcher: ModuleWatcher;
   /** Core module instance */
   public coreModule: CoreModule | null = null;
+  /** Console on standard input and the console socket */
+  public console: AdminConsole;
+  /** Next teleport id for proxy generated position packets */
+  private _nextTeleportId = PROXY_TELEPORT_ID_BASE;
+  /** Clients that have been sent a world */
+  private _clientsInWorld = new WeakSet<mc.Client>();
 
   /**
    * The constructor
@@ -77,23 +189,57 @@ export default class MinecraftProxy extends EventEmitter {
    */
   constructor(config: ProxyConfiguration) {
     super();
+    this.initialConfig = config;
     this.config = this.processConfig(config);
     this.server = mc.createServer({
       'online-mode': false,
       'port': this.config.proxyPort,
       'motd': this.config.motd,
-      'maxPlayers': 1, // TODO: disconnects aren't fired properly
+      'maxPlayers': 1 + this.config.maxSpectators,
       'version': config.version,
       'keepAlive': false
     });
     this.hooks = new Hooks();
+    this.hooks.errorPolicy = { ...DEFAULT_HOOK_ERROR_POLICY, ...this.config.hookErrors };
+    this.toServerPipeline = new PacketPipeline(this.hooks, Direction.ClientToServer, {
+      forward: (type, data) => {
+        this.recorder?.record(Direction.ClientToServer, type, data);
+        this.worldState.updateFromClient(type, data);
+        if (this.connectClient?.state === mc.states.PLAY) this.connectClient.write(type, data);
+      },
+      drop: (type, data) => this.recorder?.record(Direction.ClientToServer, type, data, RecordFlags.Cancelled)
+    });
+    this.toClientPipeline = new PacketPipeline(this.hooks, Direction.ServerToClient, {
+      forward: (type, data) => {
+        this.recorder?.record(Direction.ServerToClient, type, data);
+        this._writeToClients(type, data);
+      },
+      drop: (type, data) => this.recorder?.record(Direction.ServerToClient, type, data, RecordFlags.Cancelled)
+    });
     this.commandRegistry = new CommandRegistry(this);
     this.moduleRegistry = new ModuleRegistry(this);
+    this.moduleWatcher = new ModuleWatcher(this.moduleRegistry);
+    this.limbo = new Limbo(this);
+    this.reconnector = new Reconnector(this);
+    this.console = new AdminConsole(this);
+    if (this.config.replay) this.replay = new ReplaySession(this, this.config.replay);
     this._init();
   }
 
   /** Initialize the proxy server */
   private async _init() {
+    try {
+      this.data = await VersionData.load(this.config.dataDir, this.config.version);
+    } catch (err) {
+      // modules that need the data will complain
+      if (!(err instanceof VersionDataError)) throw err;
+      logger.warn(err.message);
+    }
+    if (this.config.limbo && !this.limbo.available) {
+      logger.warn(`limbo is not available for version ${this.config.version}, ` +
+        'clients will be disconnected while the server is unavailable');
+    }
+
     // WARNING: RELATIVE PATHS WILL BE INTERPRETED RELATIVE TO module.js
     await this.moduleRegistry.importFromPath('./core-module');
     this.coreModule = await this.moduleRegistry.load('core') as CoreModule;
@@ -101,17 +247,19 @@ export default class MinecraftProxy extends EventEmitter {
     if (this.config.modulesDir) {
       await this.moduleRegistry.importAllFromDirectory(this.config.modulesDir);
     }
-    // this will throw away module load errors, but they are logged by the
-    // module loader anyways
-    await Promise.all(this.config.modules!
-      .map(async (moduleName: string) => {
-        try {
-          await this.moduleRegistry.load(moduleName);
-        } catch (err) {
-          logger.warn(`module [${moduleName}] failed to load`, err);
-        }
-      })
-    );
+    // failures are logged by the module loader, the proxy works without them
+    await this.moduleRegistry.loadAll(this.config.modules);
+    if (this.config.watchModules) await this.moduleWatcher.start();
+    await this.console.start();
+
+    if (this.replay) {
+      // report a missing or broken recording now instead of on first connect
+      try {
+        await this.replay.load();
+      } catch (err) {
+        logger.error(`could not load recording ${this.replay.file}: ${err.message}`);
+      }
+    }
 
     this.server.on('login', this._connectionHandler.bind(this));
   }
@@ -121,63 +269,306 @@ export default class MinecraftProxy extends EventEmitter {
     // TODO: hook these or spam more configuration
     logger.info(`connection received from ${client.socket.remoteAddress}`);
     if (this.proxyClient) {
-      client.end('too many connections');
+      if (!this.sessionActive || !this.worldState.login) {
+        client.end('[proxy] Not connected to a server yet');
+        return;
+      }
+      if (this.spectators.size >= this.config.maxSpectators) {
+        client.end('[proxy] Too many connections');
+        return;
+      }
+    }
+    client.on('end', () => this._clientEnded(client, null));
+    // this may fire in addition to end
+    client.on('error', (error: Error | string) => this._clientEnded(client, error));
+    client.on('packet', (data, meta) => {
+      this._clientPacket(client, data, meta)
+        .catch(err => logger.error(`failed to handle ${meta.name} packet from ${client.username}`, err));
+    });
+    if (this.proxyClient) {
+      await this._attachSpectator(client);
       return;
     }
+
     this.proxyClient = client;
-    this.proxyClient!.on('end', () => {
-      this.hooks.execute(Direction.Local, 'clientDisconnected', null);
-      this.proxyClient = null;
-    });
-    this.proxyClient!.on('error', (error: Error | string) => {
-      // this may fire twice
-      this.hooks.execute(Direction.Local, 'clientDisconnected', error);
-    });
-    await this.hooks.execute(Direction.Local, 'clientConnected', this.proxyClient);
-    if (!this.connectClient) {
-      await this.hooks.execute(Direction.Local, 'beforeServerConnect', null);
+    if (this.sessionActive && this.worldState.login) {
+      // the upstream session was kept alive, replay it to the new client
+      logger.info(`resuming session for ${client.username}`);
+      this._writeSnapshot(client, false);
+    } else if (this.limbo.active) {
+      this.limbo.sendTo(client);
+    }
+    await this.hooks.execute(Direction.Local, 'clientConnected', client, client);
+    if (this.replay) {
+      if (this.replay.started) return;
       try {
-        await this.doConnect();
+        await this.replay.start();
       } catch (err) {
-        logger.warn('failed in proxy connect', err);
-        this.hooks.execute(Direction.Local, 'serverDisconnected', err);
-        this.connectClient = null;
-        return;
+        logger.error(`could not play recording ${this.replay.file}: ${err.message}`);
+        this.kickClient(chat(`[proxy] Could not play recording: ${err.message}`).color('red'), client);
       }
-      this.connectClient!.on('end', (reason: string) => {
-        this.hooks.execute(Direction.Local, 'serverDisconnected', reason ?? null);
-        this.connectClient = null;
-      });
-      this.connectClient!.on('error', (error: any) => {
-        // invalid token emits error but not end
-        logger.debug('connectClient error event arguments:', error);
-        this.hooks.execute(Direction.Local, 'serverDisconnected', error);
-        this.connectClient = null;
-      });
-      await this.hooks.execute(Direction.Local, 'serverConnected', this.connectClient);
+    } else if (!this.connectClient) await this.connectServer();
+  }
+
+  /** Whether there is a session to attach clients to, either a server connection or a replay */
+  get sessionActive(): boolean {
+    return this.connectClient !== null || (this.replay?.started ?? false);
+  }
+
+  /**
+   * Connect to the remote server, running the associated local hooks. Failure
+   * to connect is reported through the serverDisconnected hook.
+   * @return Whether the connection succeeded
+   */
+  public async connectServer(): Promise<boolean> {
+    if (this.connectClient) throw new Error('already connected to a server');
+    if (this.replay) throw new Error('cannot connect to a server in replay mode');
+    this.reconnector.cancel();
+    await this.hooks.execute(Direction.Local, 'beforeServerConnect', null, this.proxyClient);
+    try {
+      await this.doConnect();
+    } catch (err) {
+      logger.warn('failed in proxy connect', err);
+      this.connectClient = null;
+      await this.hooks.execute(Direction.Local, 'serverDisconnected', this.lastKickReason ?? err);
+      return false;
     }
-    this.proxyClient!.on('packet', async (data, meta) => {
-      if (shouldDebugType(meta.name)) {
-        logger.silly('client -> server type %s:', meta.name, data);
-      }
-      if (!await this.hooks.execute(Direction.ClientToServer, meta.name, data)) {
-        return;
-      }
-      if (this.connectClient) this.connectClient.write(meta.name, data);
+    let connectClient = this.connectClient!;
+    let onDisconnect = (reason: any) => {
+      // the connection may already have been replaced by a newer one
+      if (this.connectClient !== connectClient) return;
+      this.connectClient = null;
+      // packets of the old connection must not end up in whatever comes next
+      this.toClientPipeline.clear();
+      this.toServerPipeline.clear();
+      this.worldState.reset();
+      this.hooks.execute(Direction.Local, 'serverDisconnected', this.lastKickReason ?? reason);
+    };
+    connectClient.on('end', (reason: string) => onDisconnect(reason ?? null));
+    connectClient.on('error', (error: any) => {
+      // invalid token emits error but not end
+      logger.debug('connectClient error event arguments:', error);
+      onDisconnect(error);
     });
+    this.reconnector.reset();
+    await this.hooks.execute(Direction.Local, 'serverConnected', connectClient, this.proxyClient);
+    return true;
+  }
+
+  /**
+   * Disconnect from the current server, if any, and connect to the configured
+   * server. Clients are kept in limbo in the meantime.
+   * @return Whether the connection succeeded
+   */
+  public async switchServer(): Promise<boolean> {
+    let old = this.connectClient;
+    this.reconnector.reset();
+    if (old) {
+      this.reconnector.expectDisconnect = true;
+      let timeout: NodeJS.Timeout | null = null;
+      let ended = new Promise(resolve => old!.once('end', resolve));
+      let timedOut = new Promise<void>(resolve => timeout = setTimeout(() => {
+        logger.warn('server did not close the connection, closing it forcefully');
+        old!.socket.destroy();
+        resolve();
+      }, SERVER_END_TIMEOUT));
+      old.end('');
+      await Promise.race([ended, timedOut]);
+      clearTimeout(timeout!);
+    }
+    if (this.connectClient) return false; // someone else connected in the meantime
+    return await this.connectServer();
+  }
+
+  /**
+   * Send a login (join game) packet to a client, making sure the client
+   * discards any world it was in before
+   * @param client
+   * @param login
+   */
+  public joinGame(client: mc.Client, login: any) {
+    sendJoinGame(client, login, this._clientsInWorld.has(client));
+    this._clientsInWorld.add(client);
   }
 
-  public injectClient(type: string, data: any) {
+  /**
+   * Bring a client up to date with the cached world state
+   * @param client
+   * @param spectator Whether the client is a spectator
+   */
+  private _writeSnapshot(client: mc.Client, spectator: boolean) {
+    for (let [name, data] of this.worldState.snapshot({ teleportId: this.nextTeleportId() })) {
+      let rewritten = spectator ? toSpectatorPacket(name, data) : data;
+      if (!rewritten) continue;
+      if (name === 'login') this.joinGame(client, rewritten);
+      else client.write(name, rewritten);
+    }
+  }
+
+  /**
+   * Attach a client to the current session as a read-only spectator
+   * @param client
+   */
+  private async _attachSpectator(client: mc.Client) {
+    logger.info(`attaching ${client.username} as spectator`);
+    this.spectators.add(client);
+    this._writeSnapshot(client, true);
+    await this.hooks.execute(Direction.Local, 'spectatorConnected', client, client);
+  }
+
+  /**
+   * Handle a packet sent by an attached client
+   * @param client
+   * @param data
+   * @param meta
+   */
+  private async _clientPacket(client: mc.Client, data: any, meta: mc.PacketMeta) {
+    if (client !== this.proxyClient) {
+      // spectators are read-only, but may still use commands that allow them
+      if (meta.name === 'chat') this.commandRegistry.execute(data.message, client);
+      return;
+    }
+    if (shouldDebugType(meta.name)) {
+      logger.silly('client -> server type %s:', meta.name, data);
+    }
+    await this.toServerPipeline.push(meta.name, data, client);
+  }
+
+  /**
+   * Handle a client disconnecting
+   * @param client
+   * @param error Error that caused the disconnect, if any
+   */
+  private _clientEnded(client: mc.Client, error: Error | string | null) {
+    if (this.spectators.delete(client)) {
+      logger.info(`spectator ${client.username} disconnected`);
+      this.hooks.execute(Direction.Local, 'spectatorDisconnected', error, client);
+      return;
+    }
+    if (client !== this.proxyClient) return; // already handled
+    this.proxyClient = null;
+    // packets of the old client must not be sent on behalf of the next one
+    this.toServerPipeline.clear();
+    // hand control to the longest attached spectator, if there is one
+    let [next] = this.spectators;
+    if (next) this.transferControl(next);
+    this.hooks.execute(Direction.Local, 'clientDisconnected', error, client);
+  }
+
+  /**
+   * Write a server to client packet to all attached clients
+   * @param type
+   * @param data
+   */
+  private _writeToClients(type: string, data: any) {
+    this.worldState.update(type, data);
+    if (type === 'login') {
+      // a new world from the server ends limbo
+      this.limbo.leave().catch(err => logger.error('failed to leave limbo', err));
+      if (this.proxyClient) this.joinGame(this.proxyClient, data);
+      for (let spectator of this.spectators) this.joinGame(spectator, toSpectatorPacket(type, data));
+      return;
+    }
+    if (this.proxyClient) this.proxyClient.write(type, data);
+    for (let spectator of this.spectators) {
+      let rewritten = toSpectatorPacket(type, data);
+      if (rewritten) spectator.write(type, rewritten);
+    }
+  }
+
+  /**
+   * Handle a packet sent by the server, running hooks and forwarding it to
+   * clients in order. Also used to feed recorded packets in replay mode.
+   * @param type
+   * @param data
+   * @return Promise resolving once the packet was handled
+   */
+  public async receiveServerPacket(type: string, data: any) {
+    if (shouldDebugType(type)) {
+      logger.silly('server -> client type %s:', type, data);
+    }
+    await this.toClientPipeline.push(type, data);
+  }
+
+  /** All clients attached to the proxy, controlling client first */
+  get clients(): mc.Client[] {
+    let clients = [...this.spectators];
+    if (this.proxyClient) clients.unshift(this.proxyClient);
+    return clients;
+  }
+
+  /**
+   * Hand control of the session to an attached spectator. The previously
+   * controlling client, if any, becomes a spectator.
+   * @param client
+   */
+  public async transferControl(client: mc.Client) {
+    if (client === this.proxyClient) return;
+    if (!this.spectators.delete(client)) throw new Error('client is not attached to the proxy');
+    let previous = this.proxyClient;
+    this.proxyClient = client;
+    this.toServerPipeline.clear();
+    logger.info(`handing control to ${client.username}`);
+    if (previous) {
+      this.spectators.add(previous);
+      previous.write('game_state_change', { reason: 3, gameMode: 3 });
+    }
+    let state = this.worldState;
+    if (state.gameMode !== null) {
+      client.write('game_state_change', { reason: 3, gameMode: state.gameMode });
+    }
+    if (state.latest.abilities) client.write('abilities', state.latest.abilities);
+    if (state.position) {
+      client.write('position', { ...state.position, teleportId: this.nextTeleportId() });
+    }
+    await this.hooks.execute(Direction.Local, 'controlTransferred', previous, client);
+  }
+
+  /**
+   * Get a teleport id for a proxy generated position packet. Confirmations of
+   * these ids must not be forwarded to the server.
+   */
+  public nextTeleportId(): number {
+    let id = this._nextTeleportId++;
+    if (this._nextTeleportId > 0x7fffffff) this._nextTeleportId = PROXY_TELEPORT_ID_BASE;
+    return id;
+  }
+
+  /**
+   * Send a packet to a client
+   * @param type
+   * @param data
+   * @param client Client to send to, defaults to the controlling client
+   */
+  public injectClient(type: string, data: any, client = this.proxyClient) {
     if (shouldDebugType(type)) {
       logger.silly('inject -> client type %s:', type, data);
     }
-    if (this.proxyClient) this.proxyClient.write(type, data);
+    if (client && client === this.proxyClient) {
+      this.recorder?.record(Direction.ServerToClient, type, data, RecordFlags.Injected);
+    }
+    if (client) client.write(type, data);
+  }
+
+  /**
+   * Send a chat message to a client
+   * @param message
+   * @param client Client to send to, defaults to the controlling client
+   * @param position Where the message is shown
+   */
+  public sendChat(message: ChatInput, client = this.proxyClient, position = ChatPosition.System) {
+    this.injectClient('chat', {
+      message: serializeChat(message),
+      position,
+      sender: '00000000-0000-0000-0000-000000000000'
+    }, client);
   }
 
   public injectServer(type: string, data: any) {
     if (shouldDebugType(type)) {
       logger.silly('inject -> server type %s:', type, data);
     }
+    this.recorder?.record(Direction.ClientToServer, type, data, RecordFlags.Injected);
     if (this.connectClient) this.connectClient.write(type, data);
   }
 
@@ -185,6 +576,7 @@ export default class MinecraftProxy extends EventEmitter {
   doConnect(): Promise<void> {
     return new Promise((resolve, reject) => {
       logger.info('connecting to remote server');
+      this.lastKickReason = null;
       this.connectClient = mc.createClient({
         username: this.config.username,
         password: this.config.password ?? undefined,
@@ -197,18 +589,16 @@ export default class MinecraftProxy extends EventEmitter {
         version: this.config.version,
         keepAlive: false
       });
+      let onKick = (data: any) => {
+        this.lastKickReason = toPlainText(parseChat(data.reason));
+      };
+      // kicked during login or play
+      this.connectClient.on('disconnect', onKick);
+      this.connectClient.on('kick_disconnect', onKick);
       this.connectClient.on('state', (newState: string) => {
         // wait for connection to be ready
         if (newState === 'play') {
-          this.connectClient!.on('packet', async (data, meta) => {
-            if (shouldDebugType(meta.name)) {
-              logger.silly('server -> client type %s:', meta.name, data);
-            }
-            if (!await this.hooks.execute(Direction.ServerToClient, meta.name, data)) {
-              return;
-            }
-            if (this.proxyClient) this.proxyClient.write(meta.name, data);
-          });
+          this.connectClient!.on('packet', (data, meta) => this.receiveServerPacket(meta.name, data));
         }
       });
       let listener = () => {
@@ -216,7 +606,7 @@ export default class MinecraftProxy extends EventEmitter {
         removeListeners();
       };
       let failListener = (reason: Error) => {
-        reject(reason);
+        reject(this.lastKickReason ? new Error(this.lastKickReason) : reason);
         removeListeners();
       };
       let removeListeners = () => {
@@ -244,38 +634,174 @@ export default class MinecraftProxy extends EventEmitter {
       modules: [],
       moduleConfig: {},
       modulesDir: './build/modules',
+      watchModules: false,
       password: null,
       clientToken: null,
       accessToken: null,
       session: null,
-      commandPrefix: '/p:'
+      commandPrefix: '/p:',
+      commandAliases: {},
+      maxSpectators: 4,
+      limbo: true,
+      reconnect: null,
+      recordingsDir: './recordings',
+      replay: null,
+      dataDir: './versiondata',
+      hookErrors: {},
+      console: true,
+      consoleSocket: null
     }, config);
     nonOptionalConfig.modulesDir = path.resolve(nonOptionalConfig.modulesDir!);
+    nonOptionalConfig.recordingsDir = path.resolve(nonOptionalConfig.recordingsDir);
+    nonOptionalConfig.dataDir = path.resolve(nonOptionalConfig.dataDir);
+    if (nonOptionalConfig.consoleSocket) {
+      nonOptionalConfig.consoleSocket = path.resolve(nonOptionalConfig.consoleSocket);
+    }
+    if (nonOptionalConfig.replay) {
+      nonOptionalConfig.replay = path.resolve(nonOptionalConfig.recordingsDir, nonOptionalConfig.replay);
+    }
     return nonOptionalConfig;
   }
 
-  public reloadConfig(newConfig: ProxyConfiguration) {
-    this.config = this.processConfig(newConfig);
-    // TODO: rewrite command graph from core module
+  /**
+   * Apply a new configuration to the running proxy. Credentials set at runtime
+   * (for example by authentication modules) are kept unless they were changed
+   * in the new configuration.
+   * @param newConfig
+   */
+  public async reloadConfig(newConfig: ProxyConfiguration) {
+    let oldConfig = this.config;
+    let config = this.processConfig(newConfig);
+    for (let key of CREDENTIAL_KEYS) {
+      if (JSON.stringify(newConfig[key]) === JSON.stringify(this.initialConfig[key])) {
+        copyConfigValue(config, oldConfig, key);
+      }
+    }
+    for (let key of RESTART_REQUIRED_KEYS) {
+      if (config[key] !== oldConfig[key]) {
+        logger.warn(`configuration key [${key}] cannot be changed without a restart`);
+      }
+    }
+    this.initialConfig = newConfig;
+    this.config = config;
+    this.hooks.errorPolicy = { ...DEFAULT_HOOK_ERROR_POLICY, ...config.hookErrors };
+
+    if (config.commandPrefix !== oldConfig.commandPrefix) {
+      this.commandRegistry.updatePrefix(oldConfig.commandPrefix);
+    }
+
+    let registry = this.moduleRegistry;
+    for (let module of registry.modules.values()) {
+      let moduleConfig = config.moduleConfig[module.name] ?? null;
+      if (JSON.stringify(moduleConfig) === JSON.stringify(module.config)) continue;
+      try {
+        await module.updateConfig(moduleConfig);
+      } catch (err) {
+        logger.warn(`module [${module.name}] failed to apply new configuration`, err);
+      }
+    }
+
+    let wanted = new Set(config.modules);
+    let removed = oldConfig.modules.filter(moduleName => !wanted.has(moduleName));
+    // unload modules before the modules they depend on
+    for (let moduleName of registry.resolveLoadOrder(removed).reverse()) {
+      if (!removed.includes(moduleName) || !registry.get(moduleName)?.loaded) continue;
+      try {
+        await registry.unload(moduleName);
+      } catch (err) {
+        logger.warn(`module [${moduleName}] failed to unload`, err);
+      }
+    }
+    for (let moduleName of config.modules) {
+      if (registry.get(moduleName) || !config.modulesDir) continue;
+      try {
+        registry.importFromPath(path.join(config.modulesDir, moduleName));
+      } catch (err) {
+        logger.warn(`module [${moduleName}] failed to import`, err);
+      }
+    }
+    await registry.loadAll(config.modules);
+    if (config.watchModules !== oldConfig.watchModules || config.modulesDir !== oldConfig.modulesDir) {
+      this.moduleWatcher.stop();
+      if (config.watchModules) await this.moduleWatcher.start();
+    }
+    // the prefix, aliases and loaded modules all change the command graph
+    if (this.coreModule?.commandGraph) this.coreModule.updateAndSendCommandGraph();
+
     this.emit('reloadConfiguration');
   }
 
-  public kickClient(reason?: string | Record<string, any>) {
-    if (!this.proxyClient) return;
-    let parsed: Record<string, any>;
-    if (!reason) parsed = {};
-    else if (typeof reason === 'string') parsed = { text: reason };
-    else parsed = reason; // reason was provided as json text component
-    let stringified = JSON.stringify(parsed);
+  /**
+   * Start recording packets of the session to a file. The recording starts
+   * with a snapshot of the current world state.
+   * @param file Path of the recording, relative to the recordings directory
+   */
+  public async startRecording(file: string): Promise<PacketRecorder> {
+    if (this.recorder) throw new Error('already recording');
+    file = path.resolve(this.config.recordingsDir, file);
+    await fsP.mkdir(path.dirname(file), { recursive: true });
+    let recorder = await PacketRecorder.open(file, {
+      minecraftVersion: this.config.version,
+      startTime: Date.now(),
+      server: this.connectClient ? `${this.config.serverAddress}:${this.config.serverPort}` : null
+    });
+    recorder.on('error', err => {
+      logger.error(`recording to ${file} failed`, err);
+      if (this.recorder !== recorder) return;
+      this.recorder = null;
+      this.hooks.execute(Direction.Local, 'recordingStopped', recorder);
+    });
+    for (let [name, data] of this.worldState.snapshot()) {
+      recorder.record(Direction.ServerToClient, name, data, RecordFlags.Snapshot);
+    }
+    this.recorder = recorder;
+    logger.info(`recording packets to ${file}`);
+    await this.hooks.execute(Direction.Local, 'recordingStarted', recorder);
+    return recorder;
+  }
 
-    if (this.proxyClient.state === 'play') {
-      this.proxyClient.write('kick_disconnect', { reason: stringified });
-    } else if (this.proxyClient.state === 'login') {
-      this.proxyClient.write('disconnect', { reason: stringified });
+  /**
+   * Stop the current recording
+   * @return The finished recording, or null if not recording
+   */
+  public async stopRecording(): Promise<PacketRecorder | null> {
+    let recorder = this.recorder;
+    if (!recorder) return null;
+    this.recorder = null;
+    await recorder.close();
+    logger.info(`recorded ${recorder.packetCount} packets to ${recorder.file}`);
+    await this.hooks.execute(Direction.Local, 'recordingStopped', recorder);
+    return recorder;
+  }
+
+  /**
+   * Disconnect a client from the proxy
+   * @param reason
+   * @param client Client to kick, defaults to the controlling client
+   */
+  public kickClient(reason: ChatInput = '', client = this.proxyClient) {
+    if (!client) return;
+    let stringified = serializeChat(reason);
+    logger.debug(`kicking client ${client.username}: ${toAnsi(reason)}`);
+
+    if (client.state === 'play') {
+      client.write('kick_disconnect', { reason: stringified });
+    } else if (client.state === 'login') {
+      client.write('disconnect', { reason: stringified });
     }
   }
 
-  public disconnectServer() {
-    this.connectClient?.end('');
+  /**
+   * Disconnect from the server
+   * @param reconnect Whether the disconnect may be followed by an automatic
+   *   reconnect, for example when the connection timed out
+   */
+  public disconnectServer(reconnect = false) {
+    if (!this.connectClient) return;
+    if (!reconnect) {
+      this.reconnector.reset();
+      this.reconnector.expectDisconnect = true;
+    }
+    this.connectClient.end('');
   }
 }
@@ -0,0 +1,165 @@
+import MinecraftProxy from './proxy';
+import { Direction } from './hook';
+import logger from './logger';
+
+/** How to handle a disconnect whose reason matches a pattern */
+export interface ReconnectRule {
+  /** Regular expression matched case-insensitively against the disconnect reason */
+  pattern: string;
+  /** Whether to reconnect at all */
+  retry: boolean;
+  /** Minimum delay before reconnecting, in milliseconds */
+  minDelay?: number;
+}
+
+/** Automatic reconnect policy */
+export interface ReconnectConfiguration {
+  /** Delay before the first attempt, in milliseconds */
+  initialDelay?: number;
+  /** Maximum delay between attempts, in milliseconds */
+  maxDelay?: number;
+  /** Factor the delay is multiplied by after every attempt */
+  multiplier?: number;
+  /** Maximum number of attempts, or 0 for no limit */
+  maxAttempts?: number;
+  /** Rules for specific disconnect reasons, first match wins */
+  rules?: ReconnectRule[];
+}
+
+/** Default rules for disconnect reasons */
+export const DEFAULT_RECONNECT_RULES: ReconnectRule[] = [
+  { pattern: 'banned', retry: false },
+  { pattern: 'logged in from another location|duplicate_login', retry: false },
+  { pattern: 'not[ _]white-?listed', retry: false },
+  { pattern: 'throttled', retry: true, minDelay: 10 * 1000 }
+];
+
+/** Information about a scheduled reconnect attempt */
+export interface ReconnectAttempt {
+  /** Number of the attempt, starting at 1 */
+  attempt: number;
+  /** Maximum number of attempts, or 0 for no limit */
+  maxAttempts: number;
+  /** Delay until the attempt, in milliseconds */
+  delay: number;
+  /** Reason of the disconnect that caused the attempt */
+  reason: string;
+}
+
+/** Reconnects to the server with exponential backoff after a disconnect */
+export class Reconnector {
+  /** Associated proxy instance */
+  public proxy: MinecraftProxy;
+  /** Number of attempts made since the last successful connection */
+  public attempts = 0;
+  /** Timer for the next attempt */
+  public timeout: NodeJS.Timeout | null = null;
+  /** Set if the next disconnect was requested and should not be retried */
+  public expectDisconnect = false;
+
+  /**
+   * The constructor
+   * @param proxy
+   */
+  constructor(proxy: MinecraftProxy) {
+    this.proxy = proxy;
+  }
+
+  /** Current reconnect policy with defaults applied, or null if disabled */
+  get options(): Required<ReconnectConfiguration> | null {
+    let config = this.proxy.config.reconnect;
+    if (!config) return null;
+    return {
+      initialDelay: 1000,
+      maxDelay: 60 * 1000,
+      multiplier: 2,
+      maxAttempts: 10,
+      rules: DEFAULT_RECONNECT_RULES,
+      ...config
+    };
+  }
+
+  /** Whether an attempt is currently scheduled */
+  get pending(): boolean {
+    return this.timeout !== null;
+  }
+
+  /**
+   * Find the rule applying to a disconnect reason
+   * @param rules
+   * @param reason
+   */
+  findRule(rules: ReconnectRule[], reason: string): ReconnectRule | null {
+    for (let rule of rules) {
+      if (new RegExp(rule.pattern, 'i').test(reason)) return rule;
+    }
+    return null;
+  }
+
+  /**
+   * Decide whether to reconnect after a disconnect, and schedule the attempt
+   * @param reason Disconnect reason
+   * @return The scheduled attempt, or null if not reconnecting
+   */
+  async handleDisconnect(reason: string): Promise<ReconnectAttempt | null> {
+    if (this.expectDisconnect) {
+      this.expectDisconnect = false;
+      return null;
+    }
+    let options = this.options;
+    if (!options) return null;
+    let rule = this.findRule(options.rules, reason);
+    if (rule && !rule.retry) {
+      logger.info(`not reconnecting, disconnect reason matches [${rule.pattern}]`);
+      await this._fail(reason);
+      return null;
+    }
+    if (options.maxAttempts && this.attempts >= options.maxAttempts) {
+      logger.info(`not reconnecting, gave up after ${this.attempts} attempts`);
+      await this._fail(reason);
+      return null;
+    }
+    let delay = Math.min(options.initialDelay * options.multiplier ** this.attempts, options.maxDelay);
+    if (rule?.minDelay) delay = Math.max(delay, rule.minDelay);
+    this.attempts++;
+    let attempt: ReconnectAttempt = {
+      attempt: this.attempts,
+      maxAttempts: options.maxAttempts,
+      delay,
+      reason
+    };
+    if (!await this.proxy.hooks.execute(Direction.Local, 'serverReconnecting', attempt)) {
+      logger.info('reconnect cancelled by hook');
+      this.reset();
+      return null;
+    }
+    logger.info(`reconnecting in ${delay} ms (attempt ${attempt.attempt})`);
+    this.timeout = setTimeout(() => {
+      this.timeout = null;
+      if (!this.proxy.connectClient) this.proxy.connectServer();
+    }, delay);
+    return attempt;
+  }
+
+  /**
+   * Report that reconnecting was given up
+   * @param reason Reason of the last disconnect
+   */
+  async _fail(reason: string) {
+    let attempts = this.attempts;
+    this.reset();
+    await this.proxy.hooks.execute(Direction.Local, 'serverReconnectFailed', { attempts, reason });
+  }
+
+  /** Cancel a scheduled attempt */
+  cancel() {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+  }
+
+  /** Cancel any scheduled attempt and reset the attempt counter */
+  reset() {
+    this.cancel();
+    this.attempts = 0;
+  }
+}
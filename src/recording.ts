@@ -0,0 +1,344 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import * as readline from 'readline';
+import { EventEmitter, once } from 'events';
+import { Direction } from './hook';
+import logger from './logger';
+
+/**
+ * Recordings are gzipped newline-delimited JSON. The first line is a
+ * RecordingHeader, every following line is a packet record in the form
+ * [time, direction, flags, name, data]. Buffers in packet data are stored as
+ * { $buffer: <base64> }.
+ */
+
+/** Identifies recording files */
+export const RECORDING_FORMAT = 'mcpi-recording';
+/** Current version of the recording format */
+export const RECORDING_VERSION = 1;
+/**
+ * Bytes of packets waiting to be compressed and written after which the
+ * recording is stopped, so a slow disk cannot make the proxy run out of memory
+ */
+export const MAX_RECORDING_BACKLOG = 16 * 1024 * 1024;
+
+/** Flags of a packet record */
+export enum RecordFlags {
+  None = 0,
+  /** Packet was injected by the proxy */
+  Injected = 1 << 0,
+  /** Packet was cancelled by a hook and never forwarded */
+  Cancelled = 1 << 1,
+  /** Packet is part of the world state snapshot taken when recording started */
+  Snapshot = 1 << 2
+}
+
+/** First line of a recording */
+export interface RecordingHeader {
+  /** Always RECORDING_FORMAT */
+  format: string;
+  /** Format version */
+  version: number;
+  /** Minecraft version of the recorded session */
+  minecraftVersion: string;
+  /** Time recording started, as unix timestamp in milliseconds */
+  startTime: number;
+  /** Address of the server the session was connected to */
+  server: string | null;
+}
+
+/** A single recorded packet */
+export interface PacketRecord {
+  /** Milliseconds since the start of the recording */
+  time: number;
+  /** Direction the packet was travelling */
+  direction: Direction;
+  /** Combination of RecordFlags */
+  flags: number;
+  /** Packet name */
+  name: string;
+  /** Packet data */
+  data: any;
+}
+
+/** Thrown when a file is not a recording or uses an unsupported version */
+export class RecordingFormatError extends Error {
+  /**
+   * The constructor
+   * @param file
+   * @param message
+   */
+  constructor(public file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'RecordingFormatError';
+  }
+}
+
+/** JSON.stringify replacer encoding buffers as base64 */
+function replacer(this: any, key: string, value: any): any {
+  // buffers are already converted by their toJSON at this point
+  let original = this[key];
+  if (Buffer.isBuffer(original)) return { $buffer: original.toString('base64') };
+  return value;
+}
+
+/** JSON.parse reviver decoding base64 buffers */
+function reviver(_key: string, value: any): any {
+  if (value && typeof value === 'object' && typeof value.$buffer === 'string') {
+    return Buffer.from(value.$buffer, 'base64');
+  }
+  return value;
+}
+
+/**
+ * Writes packets to a recording file. Emits 'error' if writing fails, the
+ * recorder is closed in that case.
+ */
+export class PacketRecorder extends EventEmitter {
+  /** Path of the recording file */
+  public file: string;
+  /** Header written to the recording */
+  public header: RecordingHeader;
+  /** Number of packets recorded */
+  public packetCount = 0;
+  /** Whether the recorder was closed */
+  public closed = false;
+  /** Error that stopped the recording, if any */
+  public error: Error | null = null;
+  /** Whether the gzip stream is full and waiting to drain */
+  public draining = false;
+  /** Gzip stream packets are written to */
+  public gzip: zlib.Gzip;
+  /** Underlying file stream */
+  public fileStream: fs.WriteStream;
+
+  /**
+   * The constructor. Opens the file and writes the header. Use
+   * PacketRecorder.open instead.
+   * @param file
+   * @param header Header fields, format and version are filled in
+   */
+  constructor(file: string, header: Omit<RecordingHeader, 'format' | 'version'>) {
+    super();
+    this.file = file;
+    this.header = { format: RECORDING_FORMAT, version: RECORDING_VERSION, ...header };
+    this.gzip = zlib.createGzip();
+    this.fileStream = fs.createWriteStream(file);
+    this.gzip.on('error', err => this._fail(err));
+    this.fileStream.on('error', err => this._fail(err));
+    this.gzip.pipe(this.fileStream);
+    this.gzip.write(JSON.stringify(this.header) + '\n');
+  }
+
+  /**
+   * Create a recording file and start writing to it
+   * @param file
+   * @param header Header fields, format and version are filled in
+   * @return The recorder, once the file is open
+   */
+  static async open(file: string, header: Omit<RecordingHeader, 'format' | 'version'>): Promise<PacketRecorder> {
+    let recorder = new PacketRecorder(file, header);
+    await new Promise<void>((resolve, reject) => {
+      recorder.once('error', reject);
+      recorder.fileStream.once('open', () => {
+        recorder.removeListener('error', reject);
+        resolve();
+      });
+    });
+    return recorder;
+  }
+
+  /**
+   * Stop recording after a write error
+   * @param err
+   */
+  _fail(err: Error) {
+    if (this.error) return;
+    this.error = err;
+    this.closed = true;
+    this.gzip.unpipe(this.fileStream);
+    this.gzip.destroy();
+    this.fileStream.destroy();
+    this.emit('error', err);
+  }
+
+  /**
+   * Record a packet
+   * @param direction
+   * @param name
+   * @param data
+   * @param flags Combination of RecordFlags
+   */
+  record(direction: Direction, name: string, data: any, flags = RecordFlags.None) {
+    if (this.closed) return;
+    let time = Date.now() - this.header.startTime;
+    let line = JSON.stringify([time, direction, flags, name, data], replacer) + '\n';
+    // packets cannot wait for the file, give up instead of buffering forever
+    if (this.backlog + line.length > MAX_RECORDING_BACKLOG) {
+      this._fail(new Error(`writing the recording fell more than ${MAX_RECORDING_BACKLOG} bytes behind`));
+      return;
+    }
+    if (!this.gzip.write(line)) this._reportBacklog();
+    this.packetCount++;
+  }
+
+  /** Bytes written but not yet taken by the file stream */
+  get backlog(): number {
+    return this.gzip.writableLength + this.gzip.readableLength;
+  }
+
+  /** Log once when the file stream cannot keep up */
+  _reportBacklog() {
+    if (this.draining) return;
+    this.draining = true;
+    logger.debug(`recording ${this.file} is buffering, ${this.backlog} bytes behind`);
+    this.gzip.once('drain', () => {
+      this.draining = false;
+    });
+  }
+
+  /** Finish the recording and close the file. Rejects if writing fails. */
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+    let finished = once(this.fileStream, 'finish');
+    this.gzip.end();
+    await finished;
+  }
+}
+
+/** Reads packets from a recording file */
+export class RecordingReader {
+  /** Path of the recording file */
+  public file: string;
+  /** Header of the recording */
+  public header: RecordingHeader;
+  /** Decompressed file stream */
+  public input: zlib.Gunzip;
+  /** Line reader over the decompressed file */
+  public lines: readline.Interface;
+  /** Iterator over remaining lines */
+  public _iterator: AsyncIterator<string>;
+  /** Set if the recording ended early, such as a file cut short by a crash */
+  public truncated: Error | null = null;
+
+  /**
+   * The constructor. Use RecordingReader.open instead.
+   * @param file
+   * @param header
+   * @param input
+   * @param lines
+   * @param iterator
+   */
+  constructor(
+    file: string,
+    header: RecordingHeader,
+    input: zlib.Gunzip,
+    lines: readline.Interface,
+    iterator: AsyncIterator<string>
+  ) {
+    this.file = file;
+    this.header = header;
+    this.input = input;
+    this.lines = lines;
+    this._iterator = iterator;
+  }
+
+  /**
+   * Open a recording and read its header
+   * @param file
+   */
+  static async open(file: string): Promise<RecordingReader> {
+    let fileStream = fs.createReadStream(file);
+    let input = zlib.createGunzip();
+    // errors opening the file surface through the gunzip stream
+    fileStream.on('error', err => input.destroy(err));
+    fileStream.pipe(input);
+    let lines = readline.createInterface({ input, crlfDelay: Infinity });
+    let iterator = lines[Symbol.asyncIterator]();
+    let reader: RecordingReader | null = null;
+    try {
+      let first = await iterator.next();
+      if (first.done) throw new RecordingFormatError(file, 'file is empty');
+      let header: RecordingHeader = JSON.parse(first.value);
+      if (header?.format !== RECORDING_FORMAT) throw new RecordingFormatError(file, 'not a recording');
+      if (header.version > RECORDING_VERSION) {
+        throw new RecordingFormatError(file, `unsupported recording version ${header.version}`);
+      }
+      reader = new RecordingReader(file, header, input, lines, iterator);
+      return reader;
+    } catch (err) {
+      if (err instanceof RecordingFormatError) throw err;
+      throw new RecordingFormatError(file, `could not read header: ${err.message}`);
+    } finally {
+      if (!reader) {
+        lines.close();
+        input.destroy();
+        fileStream.destroy();
+      }
+    }
+  }
+
+  /**
+   * Read the next packet, or null at the end of the recording. A damaged end
+   * is logged and treated as the end.
+   */
+  async next(): Promise<PacketRecord | null> {
+    if (this.truncated) return null;
+    while (true) {
+      let line: string;
+      try {
+        let result = await this._iterator.next();
+        if (result.done) return null;
+        line = result.value;
+      } catch (err) {
+        return this._truncate(err);
+      }
+      if (!line) continue;
+      try {
+        let [time, direction, flags, name, data] = JSON.parse(line, reviver);
+        return { time, direction, flags, name, data };
+      } catch (err) {
+        return this._truncate(err);
+      }
+    }
+  }
+
+  /**
+   * Stop reading at damaged data
+   * @param err
+   */
+  _truncate(err: Error): null {
+    this.truncated = err;
+    logger.warn(`recording ${this.file} ends early: ${err.message}`);
+    return null;
+  }
+
+  /** Iterate over all remaining packets */
+  async *[Symbol.asyncIterator](): AsyncGenerator<PacketRecord> {
+    let record: PacketRecord | null;
+    while ((record = await this.next())) yield record;
+  }
+
+  /** Close the recording */
+  close() {
+    this.lines.close();
+    this.input.destroy();
+  }
+}
+
+/**
+ * Read all packets of a recording. A recording with a damaged end, for
+ * example after a crash, yields the packets before the damage.
+ * @param file
+ */
+export async function readRecording(file: string): Promise<{ header: RecordingHeader, packets: PacketRecord[] }> {
+  let reader = await RecordingReader.open(file);
+  let packets: PacketRecord[] = [];
+  try {
+    for await (let record of reader) packets.push(record);
+  } finally {
+    reader.close();
+  }
+  return { header: reader.header, packets };
+}
@@ -0,0 +1,217 @@
+import MinecraftProxy from './proxy';
+import { Direction } from './hook';
+import { chat } from './chat';
+import { readRecording, RecordingHeader, PacketRecord, RecordFlags } from './recording';
+import logger from './logger';
+
+/**
+ * Format a recording time for display
+ * @param time Time in milliseconds
+ */
+export function formatReplayTime(time: number): string {
+  let seconds = Math.floor(time / 1000);
+  let minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Parse a time given as seconds or minutes:seconds
+ * @param text
+ * @return Time in milliseconds, or null if invalid
+ */
+export function parseReplayTime(text: string): number | null {
+  let parts = text.split(':');
+  // Number('') is 0, so empty parts have to be rejected explicitly
+  if (parts.length > 2 || parts.some(part => !part.trim())) return null;
+  let seconds = parts.length === 2 ? +parts[0] * 60 + +parts[1] : +parts[0];
+  if (Number.isNaN(seconds)) return null;
+  return seconds * 1000;
+}
+
+/**
+ * Plays the server side of a recorded session back to clients with the
+ * original timing. Packets go through server to client hooks as if they came
+ * from a server.
+ */
+export class ReplaySession {
+  /** Associated proxy instance */
+  public proxy: MinecraftProxy;
+  /** Path of the recording */
+  public file: string;
+  /** Header of the recording, once loaded */
+  public header: RecordingHeader | null = null;
+  /** Server to client packets of the recording */
+  public packets: PacketRecord[] = [];
+  /** Index of the next packet to play */
+  public index = 0;
+  /** Recording time at clockStart, in milliseconds */
+  public time = 0;
+  /** Real time playback last (re)started at */
+  public clockStart = 0;
+  /** Playback speed multiplier */
+  public speed = 1;
+  /** Whether playback is paused */
+  public paused = false;
+  /** Whether playback has started */
+  public started = false;
+  /** Whether the end of the recording was reached */
+  public finished = false;
+  /** Timer for the next packet */
+  public timeout: NodeJS.Timeout | null = null;
+  /** Incremented to abandon playback in progress, for example when seeking */
+  private _generation = 0;
+
+  /**
+   * The constructor
+   * @param proxy
+   * @param file Path of the recording
+   */
+  constructor(proxy: MinecraftProxy, file: string) {
+    this.proxy = proxy;
+    this.file = file;
+  }
+
+  /** Length of the recording in milliseconds */
+  get duration(): number {
+    return this.packets.length ? this.packets[this.packets.length - 1].time : 0;
+  }
+
+  /** Current playback position in milliseconds */
+  get currentTime(): number {
+    if (this.paused || !this.started) return this.time;
+    return Math.min(this.time + (Date.now() - this.clockStart) * this.speed, this.duration);
+  }
+
+  /** Read the recording, if not done yet */
+  async load() {
+    if (this.header) return;
+    let { header, packets } = await readRecording(this.file);
+    if (header.minecraftVersion !== this.proxy.config.version) {
+      logger.warn(`recording is of version ${header.minecraftVersion}, ` +
+        `but the proxy uses ${this.proxy.config.version}`);
+    }
+    // packets injected by the proxy during recording will be injected again
+    this.packets = packets.filter(record => record.direction === Direction.ServerToClient &&
+      !(record.flags & RecordFlags.Injected));
+    this.header = header;
+    logger.info(`loaded recording ${this.file}: ${this.packets.length} packets, ` +
+      `${formatReplayTime(this.duration)} long`);
+  }
+
+  /** Start playback from the beginning */
+  async start() {
+    await this.load();
+    this.stop();
+    this.started = true;
+    this.clockStart = Date.now();
+    await this.proxy.hooks.execute(Direction.Local, 'replayStarted', this);
+    this._schedule();
+  }
+
+  /** Stop playback and rewind */
+  stop() {
+    this._cancel();
+    this.started = false;
+    this.finished = false;
+    this.paused = false;
+    this.index = 0;
+    this.time = 0;
+    this.proxy.worldState.reset();
+  }
+
+  /** Pause playback */
+  pause() {
+    if (this.paused) return;
+    this.time = this.currentTime;
+    this.paused = true;
+    this._cancel();
+  }
+
+  /** Resume paused playback */
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.clockStart = Date.now();
+    this._schedule();
+  }
+
+  /**
+   * Change playback speed
+   * @param speed Multiplier of the original speed
+   */
+  setSpeed(speed: number) {
+    if (!(speed > 0)) throw new Error('speed must be positive');
+    this.time = this.currentTime;
+    this.clockStart = Date.now();
+    this.speed = speed;
+    this._cancel();
+    this._schedule();
+  }
+
+  /**
+   * Jump to a position in the recording. Seeking backwards plays the recording
+   * from the start again, clients are sent a fresh world in the process.
+   * @param target Time in milliseconds
+   */
+  async seek(target: number) {
+    if (!this.started) throw new Error('replay has not started');
+    target = Math.max(0, Math.min(target, this.duration));
+    this._cancel();
+    this.finished = false;
+    if (this.index > 0 && target < this.packets[this.index - 1].time) {
+      this.index = 0;
+      this.proxy.worldState.reset();
+    }
+    if (!await this._playUntil(target)) return;
+    this.time = target;
+    this.clockStart = Date.now();
+    this._schedule();
+  }
+
+  /**
+   * Play all packets up to a time
+   * @param time
+   * @return False if playback was abandoned in the meantime
+   */
+  async _playUntil(time: number): Promise<boolean> {
+    let generation = this._generation;
+    while (this.index < this.packets.length && this.packets[this.index].time <= time) {
+      let { name, data } = this.packets[this.index++];
+      await this.proxy.receiveServerPacket(name, data);
+      if (generation !== this._generation) return false;
+    }
+    return true;
+  }
+
+  /** Schedule playback of the next packet */
+  _schedule() {
+    if (!this.started || this.paused || this.timeout) return;
+    if (this.index >= this.packets.length) {
+      if (!this.finished) this._finish();
+      return;
+    }
+    let delay = (this.packets[this.index].time - this.currentTime) / this.speed;
+    this.timeout = setTimeout(async () => {
+      this.timeout = null;
+      if (await this._playUntil(this.currentTime)) this._schedule();
+    }, Math.max(delay, 0));
+  }
+
+  /** Cancel scheduled playback and abandon playback in progress */
+  _cancel() {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+    this._generation++;
+  }
+
+  /** Called when the end of the recording is reached */
+  async _finish() {
+    this.finished = true;
+    logger.info('replay finished');
+    for (let client of this.proxy.clients) {
+      let message = `[proxy] Replay finished, use ${this.proxy.config.commandPrefix}replay seek to watch again`;
+      this.proxy.sendChat(chat(message).color('gold'), client);
+    }
+    await this.proxy.hooks.execute(Direction.Local, 'replayFinished', this);
+  }
+}
@@ -1,2 +1,39 @@
-// reserved for later use maybe?
-export default null;
+/**
+ * Compute the Levenshtein edit distance between two strings
+ * @param a
+ * @param b
+ */
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      let cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+}
+
+/**
+ * Find candidates that are close to the input, closest first
+ * @param input
+ * @param candidates
+ * @param maxDistance Maximum edit distance to consider a match
+ */
+export function closestMatches(input: string, candidates: Iterable<string>, maxDistance = 3): string[] {
+  let matches: [string, number][] = [];
+  for (let candidate of candidates) {
+    let distance = levenshtein(input.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance) matches.push([candidate, distance]);
+  }
+  return matches
+    .sort((a, b) => a[1] - b[1])
+    .map(([candidate]) => candidate);
+}
@@ -0,0 +1,655 @@
+/** A single packet, as packet name and data */
+export type Packet = [string, any];
+
+/** Cached state of a single chunk column */
+export interface CachedChunk {
+  /** Last full map_chunk packet */
+  chunk: any;
+  /** Last update_light packet for the chunk, if any */
+  light: any;
+  /** Partial map_chunk packets received after the full chunk, in order */
+  partial: any[];
+  /** Block states changed after the chunk was sent, by position within the chunk */
+  blocks: Map<number, number>;
+  /** Latest tile_entity_data packets, by position and action */
+  tileEntities: Map<string, any>;
+}
+
+/** Cached state of a single entity */
+export interface CachedEntity {
+  /** Spawn packet, with position kept up to date */
+  spawn: Packet;
+  /** Latest state updating packets, keyed by packet name (and sub key) */
+  updates: Map<string, Packet>;
+}
+
+/** Options for generating a world state snapshot */
+export interface SnapshotOptions {
+  /** Teleport id to use for the player position packet */
+  teleportId?: number;
+}
+
+/** Packets that spawn entities */
+const SPAWN_PACKETS = new Set([
+  'spawn_entity',
+  'spawn_entity_living',
+  'spawn_entity_experience_orb',
+  'spawn_entity_painting',
+  'named_entity_spawn'
+]);
+
+/** Packets that update entity state where only the latest one matters */
+const ENTITY_STATE_PACKETS = new Set([
+  'entity_head_rotation',
+  'entity_update_attributes',
+  'set_passengers'
+]);
+
+/** Packets where only the latest one matters */
+const LATEST_PACKET_NAMES = [
+  'difficulty',
+  'abilities',
+  'held_item_slot',
+  'declare_recipes',
+  'tags',
+  'playerlist_header',
+  'update_view_distance',
+  'update_view_position',
+  'update_time',
+  'spawn_position',
+  'update_health',
+  'experience'
+] as const;
+
+/** Name of a packet where only the latest one matters */
+export type LatestPacketName = typeof LATEST_PACKET_NAMES[number];
+
+const LATEST_PACKETS = new Set<string>(LATEST_PACKET_NAMES);
+
+/**
+ * Check whether only the latest packet with a name matters
+ * @param name
+ */
+function isLatestPacket(name: string): name is LatestPacketName {
+  return LATEST_PACKETS.has(name);
+}
+
+/**
+ * Get the key of a chunk in the chunk map
+ * @param x Chunk x coordinate
+ * @param z Chunk z coordinate
+ */
+export function chunkKey(x: number, z: number): string {
+  return `${x},${z}`;
+}
+
+/**
+ * Get the key of a block in the block map of its chunk
+ * @param x Block x coordinate, only the position within the chunk is used
+ * @param y Block y coordinate
+ * @param z Block z coordinate, only the position within the chunk is used
+ */
+function blockKey(x: number, y: number, z: number): number {
+  return (y << 8) | ((x & 15) << 4) | (z & 15);
+}
+
+/** Create the cached state of a chunk without any data */
+function emptyChunk(): CachedChunk {
+  return { chunk: null, light: null, partial: [], blocks: new Map(), tileEntities: new Map() };
+}
+
+/**
+ * Tracks world state from server to client packets, so that clients attaching
+ * to an existing session can be brought up to date with a consistent login
+ * sequence
+ */
+export class WorldState {
+  /** Last login (join game) packet, updated with the current dimension */
+  public login: any = null;
+  /** Server brand plugin message */
+  public brand: any = null;
+  /** Last packet of each name where only the latest one matters */
+  public latest: Partial<Record<LatestPacketName, any>> = {};
+  /** Entity status packet setting the permission level of the player */
+  public opLevel: any = null;
+  /** Recipe book state, as an unlock_recipes init packet */
+  public unlockedRecipes: any = null;
+  /** Last known player position, as a position packet with absolute coordinates */
+  public position: any = null;
+  /** Current game mode of the player */
+  public gameMode: number | null = null;
+  /** Player list entries, by UUID */
+  public players = new Map<string, any>();
+  /** Loaded chunks */
+  public chunks = new Map<string, CachedChunk>();
+  /** World border, as a world_border initialize packet */
+  public worldBorder: any = null;
+  /** Weather state */
+  public weather = { raining: false, rainLevel: 0, thunderLevel: 0 };
+  /** Player inventory, as a window_items packet for window 0 */
+  public inventory: any = null;
+  /** State updating packets for the player entity itself */
+  public playerUpdates = new Map<string, Packet>();
+  /** Spawned entities */
+  public entities = new Map<number, CachedEntity>();
+  /** Boss bars, as boss_bar add packets by UUID */
+  public bossBars = new Map<string, any>();
+  /** Scoreboard objectives, as scoreboard_objective create packets by name */
+  public objectives = new Map<string, any>();
+  /** Scoreboard display slots, as scoreboard_display_objective packets by position */
+  public displaySlots = new Map<number, any>();
+  /** Scores, by objective and entry name */
+  public scores = new Map<string, any>();
+  /** Teams, as teams create packets by name */
+  public teams = new Map<string, any>();
+
+  /** Forget all cached state */
+  reset() {
+    this.login = null;
+    this.brand = null;
+    this.latest = {};
+    this.opLevel = null;
+    this.unlockedRecipes = null;
+    this.position = null;
+    this.gameMode = null;
+    this.players.clear();
+    this.inventory = null;
+    this.bossBars.clear();
+    this.objectives.clear();
+    this.displaySlots.clear();
+    this.scores.clear();
+    this.teams.clear();
+    this.resetWorld();
+  }
+
+  /** Forget state bound to the current world, for example on dimension change */
+  resetWorld() {
+    this.chunks.clear();
+    this.entities.clear();
+    this.playerUpdates.clear();
+    this.worldBorder = null;
+    this.weather = { raining: false, rainLevel: 0, thunderLevel: 0 };
+  }
+
+  /**
+   * Get the map of state updating packets for an entity
+   * @param id Entity id
+   * @return Update map, or null if the entity is unknown
+   */
+  _entityUpdates(id: number): Map<string, Packet> | null {
+    if (this.login && id === this.login.entityId) return this.playerUpdates;
+    return this.entities.get(id)?.updates ?? null;
+  }
+
+  /**
+   * Update cached state with a server to client packet
+   * @param name Packet name
+   * @param data Packet data
+   */
+  update(name: string, data: any) {
+    if (isLatestPacket(name)) {
+      this.latest[name] = data;
+      return;
+    }
+    if (SPAWN_PACKETS.has(name)) {
+      this.entities.set(data.entityId, { spawn: [name, { ...data }], updates: new Map() });
+      return;
+    }
+    if (ENTITY_STATE_PACKETS.has(name)) {
+      this._entityUpdates(data.entityId)?.set(name, [name, data]);
+      return;
+    }
+    switch (name) {
+      case 'login': {
+        this.reset();
+        this.login = data;
+        this.gameMode = data.gameMode;
+        break;
+      }
+      case 'respawn': {
+        this.resetWorld();
+        this.gameMode = data.gamemode;
+        if (this.login) {
+          this.login = {
+            ...this.login,
+            dimension: data.dimension,
+            worldName: data.worldName,
+            hashedSeed: data.hashedSeed,
+            gameMode: data.gamemode,
+            previousGameMode: data.previousGamemode,
+            isDebug: data.isDebug,
+            isFlat: data.isFlat
+          };
+        }
+        break;
+      }
+      case 'custom_payload': {
+        if (data.channel === 'minecraft:brand') this.brand = data;
+        break;
+      }
+      case 'entity_status': {
+        // statuses 24 to 28 set the permission level of the player
+        if (this.login && data.entityId === this.login.entityId &&
+          data.entityStatus >= 24 && data.entityStatus <= 28) {
+          this.opLevel = data;
+        }
+        break;
+      }
+      case 'unlock_recipes': {
+        this._updateRecipeBook(data);
+        break;
+      }
+      case 'game_state_change': {
+        switch (data.reason) {
+          case 1: this.weather.raining = false; break;
+          case 2: this.weather.raining = true; break;
+          case 3: this.gameMode = data.gameMode; break;
+          case 7: this.weather.rainLevel = data.gameMode; break;
+          case 8: this.weather.thunderLevel = data.gameMode; break;
+        }
+        break;
+      }
+      case 'position': {
+        this.position = this._resolvePosition(data);
+        break;
+      }
+      case 'player_info': {
+        this._updatePlayerInfo(data);
+        break;
+      }
+      case 'map_chunk': {
+        let key = chunkKey(data.x, data.z);
+        let existing = this.chunks.get(key);
+        if (data.groundUp) {
+          this.chunks.set(key, { ...emptyChunk(), chunk: data, light: existing?.light ?? null });
+        } else if (existing) {
+          this._updatePartialChunk(existing, data);
+        }
+        break;
+      }
+      case 'update_light': {
+        let key = chunkKey(data.chunkX, data.chunkZ);
+        let existing = this.chunks.get(key);
+        if (existing) existing.light = data;
+        else this.chunks.set(key, { ...emptyChunk(), light: data });
+        break;
+      }
+      case 'block_change': {
+        let { x, y, z } = data.location;
+        this.chunks.get(chunkKey(x >> 4, z >> 4))?.blocks.set(blockKey(x, y, z), data.type);
+        break;
+      }
+      case 'multi_block_change': {
+        let chunk = this.chunks.get(chunkKey(data.chunkX, data.chunkZ));
+        if (!chunk) break;
+        for (let record of data.records) {
+          chunk.blocks.set(blockKey(record.horizontalPos >> 4, record.y, record.horizontalPos & 15), record.blockId);
+        }
+        break;
+      }
+      case 'tile_entity_data': {
+        let { x, y, z } = data.location;
+        this.chunks.get(chunkKey(x >> 4, z >> 4))?.tileEntities.set(`${x},${y},${z}:${data.action}`, data);
+        break;
+      }
+      case 'unload_chunk': {
+        this.chunks.delete(chunkKey(data.chunkX, data.chunkZ));
+        break;
+      }
+      case 'world_border': {
+        this._updateWorldBorder(data);
+        break;
+      }
+      case 'window_items': {
+        if (data.windowId === 0) this.inventory = { windowId: 0, items: [...data.items] };
+        break;
+      }
+      case 'set_slot': {
+        if (data.windowId === 0 && this.inventory && data.slot >= 0) {
+          this.inventory.items[data.slot] = data.item;
+        }
+        break;
+      }
+      case 'entity_destroy': {
+        for (let id of data.entityIds) this.entities.delete(id);
+        break;
+      }
+      case 'rel_entity_move':
+      case 'entity_move_look':
+      case 'entity_look':
+      case 'entity_teleport': {
+        let entity = this.entities.get(data.entityId);
+        if (!entity) break;
+        let spawn = entity.spawn[1];
+        if (name === 'entity_teleport') {
+          spawn.x = data.x;
+          spawn.y = data.y;
+          spawn.z = data.z;
+        } else if (name !== 'entity_look' && spawn.x !== undefined) {
+          // relative moves are in units of 1/4096 blocks
+          spawn.x += data.dX / 4096;
+          spawn.y += data.dY / 4096;
+          spawn.z += data.dZ / 4096;
+        }
+        if (data.yaw !== undefined && spawn.yaw !== undefined) {
+          spawn.yaw = data.yaw;
+          spawn.pitch = data.pitch;
+        }
+        break;
+      }
+      case 'entity_metadata': {
+        let updates = this._entityUpdates(data.entityId);
+        if (!updates) break;
+        let previous = updates.get(name);
+        let merged = new Map<number, any>();
+        if (previous) for (let entry of previous[1].metadata) merged.set(entry.key, entry);
+        for (let entry of data.metadata) merged.set(entry.key, entry);
+        updates.set(name, [name, {
+          entityId: data.entityId,
+          metadata: [...merged.values()]
+        }]);
+        break;
+      }
+      case 'entity_equipment': {
+        let updates = this._entityUpdates(data.entityId);
+        if (!updates) break;
+        for (let equipment of data.equipments) {
+          updates.set(`${name}:${equipment.slot}`, [name, {
+            entityId: data.entityId,
+            equipments: [equipment]
+          }]);
+        }
+        break;
+      }
+      case 'entity_effect': {
+        this._entityUpdates(data.entityId)?.set(`${name}:${data.effectId}`, [name, data]);
+        break;
+      }
+      case 'remove_entity_effect': {
+        this._entityUpdates(data.entityId)?.delete(`entity_effect:${data.effectId}`);
+        break;
+      }
+      case 'boss_bar': {
+        this._updateBossBar(data);
+        break;
+      }
+      case 'scoreboard_objective': {
+        if (data.action === 1) this.objectives.delete(data.name);
+        else this.objectives.set(data.name, { ...data, action: 0 });
+        break;
+      }
+      case 'scoreboard_display_objective': {
+        this.displaySlots.set(data.position, data);
+        break;
+      }
+      case 'scoreboard_score': {
+        if (data.action === 1) {
+          for (let [key, score] of this.scores) {
+            if (score.itemName === data.itemName && (!data.scoreName || score.scoreName === data.scoreName)) {
+              this.scores.delete(key);
+            }
+          }
+        } else {
+          this.scores.set(`${data.scoreName}\0${data.itemName}`, data);
+        }
+        break;
+      }
+      case 'teams': {
+        this._updateTeam(data);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Update the cached player position with a client to server movement packet
+   * @param name Packet name
+   * @param data Packet data
+   */
+  updateFromClient(name: string, data: any) {
+    if (!this.position) return;
+    if (name === 'position' || name === 'position_look') {
+      this.position.x = data.x;
+      this.position.y = data.y;
+      this.position.z = data.z;
+    }
+    if (name === 'look' || name === 'position_look') {
+      this.position.yaw = data.yaw;
+      this.position.pitch = data.pitch;
+    }
+  }
+
+  /**
+   * Resolve relative fields of a position packet against the cached position
+   * @param data position packet
+   * @return Equivalent position packet with absolute coordinates
+   */
+  _resolvePosition(data: any): any {
+    let resolved = { ...data, flags: 0 };
+    let previous = this.position;
+    if (data.flags && previous) {
+      if (data.flags & 0x01) resolved.x += previous.x;
+      if (data.flags & 0x02) resolved.y += previous.y;
+      if (data.flags & 0x04) resolved.z += previous.z;
+      if (data.flags & 0x08) resolved.yaw += previous.yaw;
+      if (data.flags & 0x10) resolved.pitch += previous.pitch;
+    }
+    return resolved;
+  }
+
+  /**
+   * Apply a partial map_chunk packet to a cached chunk. The packet replaces
+   * the sections it contains, so earlier changes to them are dropped.
+   * @param chunk
+   * @param data
+   */
+  _updatePartialChunk(chunk: CachedChunk, data: any) {
+    let sections = data.bitMap;
+    chunk.partial = chunk.partial.filter(previous => (previous.bitMap & ~sections) !== 0);
+    chunk.partial.push(data);
+    for (let key of chunk.blocks.keys()) {
+      if (sections & (1 << (key >> 12))) chunk.blocks.delete(key);
+    }
+  }
+
+  /**
+   * Apply an unlock_recipes packet to the cached recipe book
+   * @param data
+   */
+  _updateRecipeBook(data: any) {
+    let known = new Set<string>(data.action === 0 ? [] : this.unlockedRecipes?.recipes1 ?? []);
+    if (data.action === 2) for (let recipe of data.recipes1) known.delete(recipe);
+    else for (let recipe of data.recipes1) known.add(recipe);
+    this.unlockedRecipes = {
+      action: 0,
+      craftingBookOpen: data.craftingBookOpen,
+      filteringCraftable: data.filteringCraftable,
+      smeltingBookOpen: data.smeltingBookOpen,
+      filteringSmeltable: data.filteringSmeltable,
+      recipes1: [...known],
+      recipes2: []
+    };
+  }
+
+  /**
+   * Apply a player_info packet to the cached player list
+   * @param data
+   */
+  _updatePlayerInfo(data: any) {
+    for (let entry of data.data) {
+      let existing = this.players.get(entry.UUID);
+      switch (data.action) {
+        case 0: this.players.set(entry.UUID, { ...entry }); break;
+        case 1: if (existing) existing.gamemode = entry.gamemode; break;
+        case 2: if (existing) existing.ping = entry.ping; break;
+        case 3: if (existing) existing.displayName = entry.displayName; break;
+        case 4: this.players.delete(entry.UUID); break;
+      }
+    }
+  }
+
+  /**
+   * Apply a world_border packet to the cached world border
+   * @param data
+   */
+  _updateWorldBorder(data: any) {
+    if (data.action === 3) {
+      this.worldBorder = { ...data };
+      return;
+    }
+    let border = this.worldBorder;
+    if (!border) return;
+    switch (data.action) {
+      case 0: {
+        border.old_radius = border.new_radius = data.radius;
+        border.speed = 0;
+        break;
+      }
+      case 1: {
+        border.old_radius = data.old_radius;
+        border.new_radius = data.new_radius;
+        border.speed = data.speed;
+        break;
+      }
+      case 2: {
+        border.x = data.x;
+        border.z = data.z;
+        break;
+      }
+      case 4: border.warning_time = data.warning_time; break;
+      case 5: border.warning_blocks = data.warning_blocks; break;
+    }
+  }
+
+  /**
+   * Apply a boss_bar packet to the cached boss bars
+   * @param data
+   */
+  _updateBossBar(data: any) {
+    if (data.action === 0) {
+      this.bossBars.set(data.entityUUID, { ...data });
+      return;
+    }
+    if (data.action === 1) {
+      this.bossBars.delete(data.entityUUID);
+      return;
+    }
+    let bar = this.bossBars.get(data.entityUUID);
+    if (!bar) return;
+    switch (data.action) {
+      case 2: bar.health = data.health; break;
+      case 3: bar.title = data.title; break;
+      case 4: {
+        bar.color = data.color;
+        bar.dividers = data.dividers;
+        break;
+      }
+      case 5: bar.flags = data.flags; break;
+    }
+  }
+
+  /**
+   * Apply a teams packet to the cached teams
+   * @param data
+   */
+  _updateTeam(data: any) {
+    let team = this.teams.get(data.team);
+    switch (data.mode) {
+      case 0: this.teams.set(data.team, { ...data, players: [...data.players] }); break;
+      case 1: this.teams.delete(data.team); break;
+      case 2: if (team) this.teams.set(data.team, { ...data, mode: 0, players: team.players }); break;
+      case 3: if (team) team.players.push(...data.players); break;
+      case 4: {
+        if (!team) break;
+        let removed = new Set(data.players);
+        team.players = team.players.filter((player: string) => !removed.has(player));
+        break;
+      }
+    }
+  }
+
+  /**
+   * Get the last known position of the player
+   * @return Position and rotation, or null if unknown
+   */
+  getPlayerPosition(): { x: number, y: number, z: number, yaw: number, pitch: number } | null {
+    if (!this.position) return null;
+    return {
+      x: this.position.x,
+      y: this.position.y,
+      z: this.position.z,
+      yaw: this.position.yaw,
+      pitch: this.position.pitch
+    };
+  }
+
+  /**
+   * Generate packets that bring a freshly logged in client up to date with
+   * the cached world state. The order follows the login sequence of the
+   * vanilla server.
+   * @param options
+   * @return List of packets to send, in order
+   */
+  snapshot(options: SnapshotOptions = {}): Packet[] {
+    if (!this.login) return [];
+    let packets: Packet[] = [];
+    let push = (name: string, data: any) => {
+      if (data) packets.push([name, data]);
+    };
+    push('login', this.login);
+    push('custom_payload', this.brand);
+    push('difficulty', this.latest.difficulty);
+    push('abilities', this.latest.abilities);
+    push('held_item_slot', this.latest.held_item_slot);
+    push('declare_recipes', this.latest.declare_recipes);
+    push('tags', this.latest.tags);
+    push('entity_status', this.opLevel);
+    push('unlock_recipes', this.unlockedRecipes);
+    for (let team of this.teams.values()) push('teams', team);
+    for (let objective of this.objectives.values()) push('scoreboard_objective', objective);
+    for (let slot of this.displaySlots.values()) push('scoreboard_display_objective', slot);
+    for (let score of this.scores.values()) push('scoreboard_score', score);
+    if (this.position) {
+      push('position', {
+        ...this.position,
+        teleportId: options.teleportId ?? this.position.teleportId
+      });
+    }
+    if (this.players.size) push('player_info', { action: 0, data: [...this.players.values()] });
+    push('playerlist_header', this.latest.playerlist_header);
+    push('update_view_distance', this.latest.update_view_distance);
+    push('update_view_position', this.latest.update_view_position);
+    for (let chunk of this.chunks.values()) {
+      if (!chunk.chunk) continue;
+      push('update_light', chunk.light);
+      push('map_chunk', chunk.chunk);
+      for (let partial of chunk.partial) push('map_chunk', partial);
+      if (chunk.blocks.size) {
+        push('multi_block_change', {
+          chunkX: chunk.chunk.x,
+          chunkZ: chunk.chunk.z,
+          records: [...chunk.blocks].map(([key, blockId]) => ({ horizontalPos: key & 0xff, y: key >> 8, blockId }))
+        });
+      }
+      for (let tileEntity of chunk.tileEntities.values()) push('tile_entity_data', tileEntity);
+    }
+    push('world_border', this.worldBorder);
+    push('update_time', this.latest.update_time);
+    push('spawn_position', this.latest.spawn_position);
+    if (this.weather.raining) {
+      push('game_state_change', { reason: 2, gameMode: 0 });
+      push('game_state_change', { reason: 7, gameMode: this.weather.rainLevel });
+      push('game_state_change', { reason: 8, gameMode: this.weather.thunderLevel });
+    }
+    push('window_items', this.inventory);
+    packets.push(...this.playerUpdates.values());
+    push('update_health', this.latest.update_health);
+    push('experience', this.latest.experience);
+    for (let entity of this.entities.values()) {
+      packets.push(entity.spawn);
+      packets.push(...entity.updates.values());
+    }
+    for (let bar of this.bossBars.values()) push('boss_bar', bar);
+    return packets;
+  }
+}
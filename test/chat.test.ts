@@ -0,0 +1,117 @@
+import { strict as assert } from 'assert';
+import {
+  chat,
+  translate,
+  parseChat,
+  serializeChat,
+  toPlainText,
+  toLegacy,
+  fromLegacy,
+  formatLegacy,
+  toAnsi
+} from '../src/chat';
+
+describe('ChatBuilder', () => {
+  it('builds components', () => {
+    let component = chat('click me')
+      .color('gold')
+      .bold()
+      .suggestCommand('/help')
+      .hover('tooltip')
+      .append('!', chat('more').italic())
+      .toJSON();
+    assert.deepEqual(component, {
+      text: 'click me',
+      color: 'gold',
+      bold: true,
+      clickEvent: { action: 'suggest_command', value: '/help' },
+      hoverEvent: { action: 'show_text', contents: { text: 'tooltip' } },
+      extra: [{ text: '!' }, { text: 'more', italic: true }]
+    });
+    assert.equal(serializeChat(chat('a').color('red')), '{"text":"a","color":"red"}');
+  });
+});
+
+describe('parseChat', () => {
+  it('treats text that is not JSON as plain text', () => {
+    assert.deepEqual(parseChat('hello {world'), { text: 'hello {world' });
+  });
+
+  it('normalizes shorthand forms', () => {
+    assert.deepEqual(parseChat('"text"'), { text: 'text' });
+    assert.deepEqual(parseChat('["a", {"text": "b", "color": "red"}]'), {
+      text: 'a',
+      extra: [{ text: 'b', color: 'red' }]
+    });
+  });
+});
+
+describe('toPlainText', () => {
+  it('joins text of all components', () => {
+    assert.equal(toPlainText(chat('a').append(chat('b').append('c'), 'd')), 'abcd');
+  });
+
+  it('shows translation keys with their arguments', () => {
+    assert.equal(toPlainText(translate('chat.type.text', 'someone', chat('hi'))), 'chat.type.text (someone, hi)');
+  });
+});
+
+describe('toLegacy', () => {
+  it('resets formatting when styles are removed', () => {
+    let component = chat('a').color('red').append(chat('b').bold(), 'c');
+    assert.equal(toLegacy(component), '§ca§r§c§lb§r§cc');
+  });
+
+  it('drops colors without legacy codes', () => {
+    assert.equal(toLegacy(chat('x').color('#ff0000')), 'x');
+  });
+
+  it('round trips with fromLegacy', () => {
+    let text = '§ared §r§a§nunderlined§r plain';
+    assert.equal(toLegacy(fromLegacy(text)), text);
+  });
+});
+
+describe('fromLegacy', () => {
+  it('splits text at formatting codes', () => {
+    assert.deepEqual(fromLegacy('§cred §lbold§r plain'), {
+      text: '',
+      extra: [
+        { text: 'red ', color: 'red' },
+        { text: 'bold', color: 'red', bold: true },
+        { text: ' plain' }
+      ]
+    });
+  });
+
+  it('resets styles on color codes', () => {
+    assert.deepEqual(fromLegacy('§lbold§Agreen').extra, [
+      { text: 'bold', bold: true },
+      { text: 'green', color: 'green' }
+    ]);
+  });
+
+  it('drops unknown codes and keeps a trailing format character', () => {
+    assert.deepEqual(fromLegacy('§zhi'), { text: 'hi' });
+    assert.deepEqual(fromLegacy('a§'), { text: 'a§' });
+  });
+});
+
+describe('formatLegacy', () => {
+  it('wraps text in a code and a reset', () => {
+    assert.equal(formatLegacy('x', 'gold'), '§6x§r');
+    assert.equal(formatLegacy('x', 'italic'), '§ox§r');
+  });
+});
+
+describe('toAnsi', () => {
+  it('converts named and hex colors and styles', () => {
+    let component = chat('a').color('red').append(chat('b').color('#102030').underlined(), 'c');
+    assert.equal(toAnsi(component), '\x1b[91ma\x1b[0m\x1b[38;2;16;32;48;4mb\x1b[0m\x1b[91mc\x1b[0m');
+  });
+
+  it('leaves unstyled text alone', () => {
+    assert.equal(toAnsi('plain'), 'plain');
+    assert.equal(toAnsi(chat('secret').obfuscated()), 'secret');
+  });
+});
@@ -0,0 +1,135 @@
+import { strict as assert } from 'assert';
+import { CommandNode } from '../src/command';
+import {
+  parseCommand,
+  findCompletions,
+  getUsages,
+  numberRange,
+  CommandSyntaxError,
+  StringArgumentMode
+} from '../src/command-parser';
+
+/** Graph for `tp here | tp <pos> | tp <target> [<count>]` */
+function tpCommand() {
+  return new CommandNode('tp')
+    .asLiteral()
+    .setExecutable(false)
+    .defineChild(new CommandNode('here').asLiteral())
+    .defineChild(new CommandNode('pos').asArgument({ parser: 'minecraft:block_pos' }))
+    .defineChild(new CommandNode('target')
+      .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord })
+      .defineChild(new CommandNode('count')
+        .asArgument({ parser: 'brigadier:integer', properties: numberRange(1, 10) })));
+}
+
+/** Graph for `say <message> [<rest>]` */
+function sayCommand() {
+  return new CommandNode('say')
+    .asLiteral()
+    .setExecutable(false)
+    .defineChild(new CommandNode('message')
+      .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.QuotablePhrase })
+      .defineChild(new CommandNode('rest')
+        .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.GreedyPhrase })));
+}
+
+/**
+ * Parse input and return the syntax error it fails with
+ * @param root
+ * @param input
+ */
+function parseError(root: CommandNode, input: string): CommandSyntaxError {
+  try {
+    parseCommand(root, input, root.name!.length);
+  } catch (err) {
+    assert.ok(err instanceof CommandSyntaxError);
+    return err;
+  }
+  throw new Error(`expected [${input}] to fail`);
+}
+
+describe('parseCommand', () => {
+  it('prefers literals over arguments', () => {
+    let root = tpCommand();
+    let result = parseCommand(root, 'tp here', 2);
+    assert.deepEqual(result.nodes.map(node => node.name), ['here']);
+    assert.deepEqual(result.args, {});
+  });
+
+  it('parses positions', () => {
+    let { args } = parseCommand(tpCommand(), 'tp 1 ~2 ~', 2);
+    assert.deepEqual(args.pos, {
+      x: { value: 1, relative: false },
+      y: { value: 2, relative: true },
+      z: { value: 0, relative: true },
+      local: false
+    });
+  });
+
+  it('backtracks to the next matching argument', () => {
+    let result = parseCommand(tpCommand(), 'tp someone 5', 2);
+    assert.deepEqual(result.nodes.map(node => node.name), ['target', 'count']);
+    assert.deepEqual(result.args, { target: 'someone', count: 5 });
+  });
+
+  it('parses quoted and greedy strings', () => {
+    let { args } = parseCommand(sayCommand(), 'say "hello \\"world\\"" and  the rest', 3);
+    assert.deepEqual(args, { message: 'hello "world"', rest: 'and  the rest' });
+  });
+
+  it('reports the furthest error', () => {
+    let err = parseError(tpCommand(), 'tp someone 11');
+    assert.equal(err.message, 'Integer must not be more than 10, found 11');
+    assert.equal(err.cursor, 11);
+    assert.equal(err.context, '...p someone ');
+    assert.equal(err.rest, '11');
+  });
+
+  it('reports incomplete and excess input', () => {
+    assert.equal(parseError(tpCommand(), 'tp').message, 'Incomplete command, expected here, <pos>, <target>');
+    assert.equal(parseError(tpCommand(), 'tp someone 5 6').message, 'Too many arguments');
+    assert.equal(parseError(sayCommand(), 'say "unclosed').message, 'Unclosed quoted string');
+  });
+});
+
+describe('findCompletions', () => {
+  it('lists every child that could match a partial word', () => {
+    let candidates = findCompletions(tpCommand(), 'tp so', 2);
+    assert.deepEqual(candidates.map(candidate => candidate.node.name), ['here', 'pos', 'target']);
+    for (let candidate of candidates) {
+      assert.equal(candidate.start, 3);
+      assert.equal(candidate.partial, 'so');
+    }
+  });
+
+  it('follows complete arguments', () => {
+    let candidates = findCompletions(tpCommand(), 'tp someone 5', 2);
+    assert.equal(candidates.length, 1);
+    let [candidate] = candidates;
+    assert.equal(candidate.node.name, 'count');
+    assert.equal(candidate.start, 11);
+    assert.equal(candidate.partial, '5');
+    assert.deepEqual(candidate.args, { target: 'someone' });
+    assert.deepEqual(candidate.nodes.map(node => node.name), ['target']);
+  });
+
+  it('finds nothing without a separating space', () => {
+    assert.deepEqual(findCompletions(tpCommand(), 'tp', 2), []);
+  });
+});
+
+describe('getUsages', () => {
+  it('lists executable paths', () => {
+    assert.deepEqual(getUsages(tpCommand(), '/tp'), ['/tp here', '/tp <pos>', '/tp <target>', '/tp <target> <count>']);
+  });
+
+  it('stops at the limit', () => {
+    assert.deepEqual(getUsages(tpCommand(), '/tp', 2), ['/tp here', '/tp <pos>']);
+  });
+
+  it('follows redirects', () => {
+    let tp = tpCommand();
+    let teleport = new CommandNode('teleport').asLiteral().setExecutable(false).setRedirect(tp);
+    assert.deepEqual(getUsages(teleport, 'teleport', 1), ['teleport here']);
+  });
+});
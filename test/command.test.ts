@@ -0,0 +1,378 @@
+import { strict as assert } from 'assert';
+import type mc from 'minecraft-protocol';
+import type MinecraftProxy from '../src/proxy';
+import type { Module } from '../src/module';
+import { CommandRegistry, CommandContext, CommandNode, CommandAbortedError } from '../src/command';
+import { StringArgumentMode } from '../src/command-parser';
+import { toPlainText } from '../src/chat';
+import logger from '../src/logger';
+import { createFakeProxy, createClient, SentMessage } from './fake-proxy';
+
+describe('CommandRegistry', () => {
+  let proxy: MinecraftProxy;
+  let registry: CommandRegistry;
+  let messages: SentMessage[];
+  let calls: string[];
+  let texts = () => messages.map(message => message.text);
+  let record = (name: string) => async (ctx: CommandContext) => {
+    calls.push(`${name} ${JSON.stringify(ctx.parsedArgs)}`);
+  };
+
+  /**
+   * Execute a command and wait for its handler
+   * @param message
+   * @param client
+   */
+  async function run(message: string, client: mc.Client | null = null): Promise<boolean> {
+    let contexts: CommandContext[] = [];
+    let handled = registry.execute(message, client, args => {
+      let ctx = new CommandContext(args, proxy, client);
+      contexts.push(ctx);
+      return ctx;
+    });
+    for (let ctx of contexts) await ctx.finished;
+    return handled;
+  }
+
+  beforeEach(() => {
+    ({ proxy, messages } = createFakeProxy());
+    registry = proxy.commandRegistry;
+    calls = [];
+  });
+
+  it('ignores messages without the prefix', async () => {
+    registry.register({ name: 'test', description: 'test', autocomplete: null, handler: record('test') });
+    assert.equal(await run('test'), false);
+    assert.equal(await run('/test'), false);
+    assert.deepEqual(calls, []);
+  });
+
+  it('suggests close names for unknown commands', async () => {
+    registry.register({ name: 'status', description: 'test', autocomplete: null, handler: record('status') });
+    assert.equal(await run('/p:stauts'), true);
+    assert.deepEqual(texts(), ['[proxy] Command not found, did you mean /p:status?']);
+  });
+
+  describe('handlers', () => {
+    it('runs the handler of the deepest matched node', async () => {
+      registry.register({
+        name: 'tp',
+        description: 'test',
+        handler: record('fallback'),
+        autocomplete: new CommandNode('tp')
+          .asLiteral()
+          .defineChild(new CommandNode('here').asLiteral().setHandler(record('here')))
+          .defineChild(new CommandNode('target')
+            .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord }))
+      });
+      await run('/p:tp here');
+      await run('/p:tp someone');
+      await run('/p:tp');
+      assert.deepEqual(calls, ['here {}', 'fallback {"target":"someone"}', 'fallback {}']);
+    });
+
+    it('reports syntax errors and incomplete commands with usage', async () => {
+      registry.register({
+        name: 'give',
+        description: 'test',
+        autocomplete: new CommandNode('give')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('count')
+            .asArgument({ parser: 'brigadier:integer', properties: {} })
+            .setHandler(record('give')))
+      });
+      await run('/p:give');
+      await run('/p:give lots');
+      assert.deepEqual(calls, []);
+      assert.equal(messages.length, 2);
+      assert.match(messages[0].text, /^\[proxy\] Incomplete command/);
+      assert.match(messages[0].text, /Usage:\n {2}\/p:give <count>$/);
+      assert.match(messages[1].text, /lots<--\[HERE\]/);
+    });
+
+    it('reports errors of handlers instead of throwing', async () => {
+      registry.register({
+        name: 'fail',
+        description: 'test',
+        autocomplete: null,
+        handler: async () => {
+          throw new Error('something broke');
+        }
+      });
+      logger.silent = true;
+      try {
+        assert.equal(await run('/p:fail'), true);
+      } finally {
+        logger.silent = false;
+      }
+      assert.deepEqual(texts(), ['[proxy] /p:fail failed: something broke']);
+    });
+
+    it('aborts commands that take longer than their timeout', async () => {
+      let contexts: CommandContext[] = [];
+      registry.register({
+        name: 'slow',
+        description: 'test',
+        autocomplete: null,
+        timeout: 10,
+        handler: ctx => {
+          contexts.push(ctx);
+          return new Promise<void>(() => {});
+        }
+      });
+      await run('/p:slow');
+      assert.equal(contexts[0].signal.aborted, true);
+      assert.deepEqual(texts(), ['[proxy] /p:slow timed out after 0.01s']);
+      assert.equal(registry.running.size, 0);
+    });
+
+    it('cancels running commands of an owner only', async () => {
+      registry.register({
+        name: 'wait',
+        description: 'test',
+        autocomplete: null,
+        timeout: null,
+        handler: () => new Promise<void>(() => {})
+      });
+      let first = createClient('first');
+      let second = createClient('second');
+      proxy.proxyClient = first;
+      registry.execute('/p:wait', first);
+      registry.execute('/p:wait', first);
+      proxy.proxyClient = second;
+      registry.execute('/p:wait', second);
+      assert.equal(registry.running.size, 3);
+
+      assert.equal(registry.cancel(first), 2);
+      await new Promise(resolve => setImmediate(resolve));
+      let running = [...registry.running];
+      assert.deepEqual(running.map(ctx => ctx.owner), [second]);
+      assert.deepEqual(messages.map(message => [message.client, message.text]), [
+        [first, '[proxy] /p:wait was cancelled'],
+        [first, '[proxy] /p:wait was cancelled']
+      ]);
+
+      assert.equal(registry.cancel(second, running[0]), 0);
+      running[0].abort(new CommandAbortedError('was cancelled'));
+      await running[0].finished;
+      assert.equal(registry.running.size, 0);
+    });
+  });
+
+  describe('spectators', () => {
+    let controller: mc.Client;
+    let spectator: mc.Client;
+    beforeEach(() => {
+      controller = createClient('controller');
+      spectator = createClient('spectator');
+      proxy.proxyClient = controller;
+      proxy.spectators.add(spectator);
+      registry.register({ name: 'server', description: 'test', autocomplete: null, handler: record('server') });
+      registry.register({
+        name: 'status',
+        description: 'test',
+        autocomplete: null,
+        allowSpectators: true,
+        handler: record('status')
+      });
+    });
+
+    it('only lets spectators run commands that allow them', async () => {
+      assert.equal(await run('/p:server', spectator), true);
+      assert.equal(await run('/p:status', spectator), true);
+      assert.deepEqual(calls, ['status {}']);
+      assert.deepEqual(messages, [{ client: spectator, text: '[proxy] Spectators cannot use /p:server' }]);
+    });
+
+    it('lets the controlling client and the console run any command', async () => {
+      await run('/p:server', controller);
+      await run('/p:server');
+      assert.deepEqual(calls, ['server {}', 'server {}']);
+      assert.deepEqual(messages, []);
+    });
+  });
+
+  describe('names', () => {
+    let module = (name: string) => ({ name }) as Module;
+    beforeEach(() => {
+      // conflicts are logged as warnings
+      logger.silent = true;
+    });
+    afterEach(() => {
+      logger.silent = false;
+    });
+
+    it('resolves names, aliases and qualified names case-insensitively', () => {
+      let command = registry.register({
+        name: 'Server',
+        description: 'test',
+        autocomplete: null,
+        aliases: ['S'],
+        handler: record('server')
+      }, module('misc'));
+      assert.equal(command.qualifiedName, 'misc:server');
+      assert.equal(registry.resolve('SERVER'), command);
+      assert.equal(registry.resolve('s'), command);
+      assert.equal(registry.resolve('misc:server'), command);
+      assert.equal(registry.resolve('other'), null);
+      assert.throws(() => registry.register({ name: 'server', description: 'test', autocomplete: null },
+        module('misc')), /already exists/);
+    });
+
+    it('keeps the first command of a name and makes later ones use their qualified name', async () => {
+      let first = registry.register({ name: 'go', description: 'test', autocomplete: null, handler: record('a') },
+        module('a'));
+      let second = registry.register({ name: 'go', description: 'test', autocomplete: null, handler: record('b') },
+        module('b'));
+      assert.equal(registry.invocationName(first), 'go');
+      assert.equal(registry.invocationName(second), 'b:go');
+      await run('/p:go');
+      await run('/p:b:go');
+      assert.deepEqual(calls, ['a {}', 'b {}']);
+
+      first.unregister();
+      assert.equal(registry.invocationName(second), 'go');
+      assert.equal(registry.resolve('go'), second);
+    });
+
+    it('applies aliases from the configuration', async () => {
+      registry.register({ name: 'go', description: 'test', autocomplete: null, handler: record('a') }, module('a'));
+      registry.register({ name: 'go', description: 'test', autocomplete: null, handler: record('b') }, module('b'));
+      proxy.config.commandAliases = { g: 'b:go', go: 'b:go', broken: 'nothing' };
+      await run('/p:g');
+      // commands keep their own names
+      await run('/p:go');
+      assert.deepEqual(calls, ['b {}', 'a {}']);
+      assert.equal(registry.resolve('broken'), null);
+      assert.ok(registry.allNames.includes('g'));
+    });
+
+    it('lists aliases and qualified names in the autocomplete graph', () => {
+      registry.register({
+        name: 'go',
+        description: 'test',
+        aliases: ['walk'],
+        autocomplete: new CommandNode('go').asLiteral(),
+        handler: record('a')
+      }, module('a'));
+      registry.register({
+        name: 'go',
+        description: 'test',
+        autocomplete: new CommandNode('go').asLiteral(),
+        handler: record('b')
+      }, module('b'));
+      proxy.config.commandAliases = { g: 'b:go' };
+      let nodes = [...registry.getAutocompleteNodes()];
+      assert.deepEqual(nodes.map(node => node.name).sort(), ['p:b:go', 'p:g', 'p:go', 'p:walk']);
+    });
+  });
+
+  describe('usages', () => {
+    it('lists usages with the prefix and invocation name', () => {
+      let command = registry.register({
+        name: 'tp',
+        description: 'test',
+        autocomplete: new CommandNode('tp')
+          .asLiteral()
+          .defineChild(new CommandNode('here').asLiteral())
+          .defineChild(new CommandNode('target')
+            .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord }))
+      });
+      let usages = registry.formatUsages(command);
+      assert.deepEqual(usages.map(usage => toPlainText(usage)), ['/p:tp', '/p:tp here', '/p:tp <target>']);
+      assert.deepEqual(usages.map(usage => usage.clickEvent?.value), ['/p:tp', '/p:tp here', '/p:tp ']);
+    });
+
+    it('uses the command name for commands without a graph', () => {
+      let command = registry.register({ name: 'test', description: 'test', autocomplete: null });
+      assert.deepEqual(registry.formatUsages(command).map(usage => toPlainText(usage)), ['/p:test']);
+    });
+  });
+
+  describe('getSuggestions', () => {
+    beforeEach(() => {
+      registry.register({
+        name: 'give',
+        description: 'test',
+        autocomplete: new CommandNode('give')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('all').asLiteral())
+          .defineChild(new CommandNode('player')
+            .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord })
+            .defineChild(new CommandNode('item')
+              .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord }))),
+        suggestions: {
+          player: async () => ['alice', { text: 'albert', tooltip: 'spectator' }, 'bob'],
+          item: async ctx => [`${ctx.args.player}_sword`, 'stone']
+        }
+      });
+    });
+
+    it('ignores texts that are not commands with a graph', async () => {
+      registry.register({ name: 'plain', description: 'test', autocomplete: null });
+      assert.equal(await registry.getSuggestions('/give '), null);
+      assert.equal(await registry.getSuggestions('/p:unknown '), null);
+      assert.equal(await registry.getSuggestions('/p:plain '), null);
+    });
+
+    it('merges literals and provider suggestions matching the typed text', async () => {
+      assert.deepEqual(await registry.getSuggestions('/p:give al'), {
+        start: 8,
+        length: 2,
+        matches: [{ text: 'all' }, { text: 'alice' }, { text: 'albert', tooltip: 'spectator' }]
+      });
+    });
+
+    it('passes earlier arguments to providers', async () => {
+      assert.deepEqual(await registry.getSuggestions('/p:give bob '), {
+        start: 12,
+        length: 0,
+        matches: [{ text: 'bob_sword' }, { text: 'stone' }]
+      });
+    });
+
+    it('only keeps suggestions replacing the latest span', async () => {
+      registry.register({
+        name: 'say',
+        description: 'test',
+        autocomplete: new CommandNode('say')
+          .asLiteral()
+          .setExecutable(false)
+          .defineChild(new CommandNode('message')
+            .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.GreedyPhrase }))
+          .defineChild(new CommandNode('target')
+            .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord })
+            .defineChild(new CommandNode('now').asLiteral())),
+        suggestions: {
+          message: async () => ['hello nobody']
+        }
+      });
+      let result = await registry.getSuggestions('/p:say hello no');
+      assert.deepEqual(result, { start: 13, length: 2, matches: [{ text: 'now' }] });
+    });
+
+    it('skips failing providers', async () => {
+      registry.register({
+        name: 'broken',
+        description: 'test',
+        autocomplete: new CommandNode('broken')
+          .asLiteral()
+          .defineChild(new CommandNode('arg')
+            .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.SingleWord })),
+        suggestions: {
+          arg: async () => {
+            throw new Error('provider failed');
+          }
+        }
+      });
+      logger.silent = true;
+      try {
+        assert.deepEqual(await registry.getSuggestions('/p:broken x'), { start: 11, length: 0, matches: [] });
+      } finally {
+        logger.silent = false;
+      }
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { strict as assert } from 'assert';
+import { validateConfig, parseConfig, ConfigurationError } from '../src/config';
+
+describe('validateConfig', () => {
+  let minimal = { serverAddress: 'localhost', username: 'someone' };
+  let validate = (overrides: object) => validateConfig({ ...minimal, ...overrides });
+
+  it('accepts a minimal configuration', () => {
+    assert.deepEqual(validateConfig(minimal), []);
+  });
+
+  it('rejects configurations that are not objects', () => {
+    assert.deepEqual(validateConfig(null), ['expected configuration to be an object, got null']);
+    assert.deepEqual(validateConfig([]), ['expected configuration to be an object, got array']);
+  });
+
+  it('reports missing required keys', () => {
+    assert.deepEqual(validateConfig({ username: 'someone' }), ['serverAddress: required but not provided']);
+  });
+
+  it('checks types, ranges and nullability', () => {
+    assert.deepEqual(validate({ proxyPort: 70000 }), ['proxyPort: must be at most 65535']);
+    assert.deepEqual(validate({ serverPort: 25565.5 }), ['serverPort: expected integer, got 25565.5']);
+    assert.deepEqual(validate({ limbo: 'yes' }), ['limbo: expected boolean, got string']);
+    assert.deepEqual(validate({ commandPrefix: '' }), ['commandPrefix: must be at least 1 characters long']);
+    assert.deepEqual(validate({ username: null }), ['username: must not be null']);
+    assert.deepEqual(validate({ password: null }), []);
+  });
+
+  it('validates nested objects and arrays', () => {
+    let config = {
+      ...minimal,
+      modules: ['eval', 3],
+      hookErrors: { action: 'explode' },
+      reconnect: { rules: [{ pattern: 'banned' }] }
+    };
+    assert.deepEqual(validateConfig(config), [
+      'modules[1]: expected string, got number',
+      'reconnect.rules[0].retry: required but not provided',
+      'hookErrors.action: must be one of forward, drop'
+    ]);
+  });
+
+  it('rejects invalid regular expressions in reconnect rules', () => {
+    let rules = [{ pattern: 'kicked', retry: true }, { pattern: '(', retry: false }];
+    assert.deepEqual(validate({ reconnect: { rules } }), ['reconnect.rules[1].pattern: invalid regular expression']);
+  });
+
+  it('suggests close matches for unknown keys', () => {
+    assert.deepEqual(validate({ serverPrt: 25565 }), ['serverPrt: unknown key (did you mean serverPort?)']);
+    assert.deepEqual(validate({ xyzzy: true }), ['xyzzy: unknown key']);
+  });
+});
+
+describe('parseConfig', () => {
+  it('parses JSON and YAML by extension', () => {
+    assert.deepEqual(parseConfig('config.json', '{"username": "someone"}'), { username: 'someone' });
+    assert.deepEqual(parseConfig('config.yml', 'username: someone\n'), { username: 'someone' });
+  });
+
+  it('wraps parse errors', () => {
+    assert.throws(() => parseConfig('config.json', '{'), (err: any) => {
+      assert.ok(err instanceof ConfigurationError);
+      assert.equal(err.file, 'config.json');
+      assert.match(err.problems[0], /^parse error: /);
+      return true;
+    });
+  });
+});
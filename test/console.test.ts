@@ -0,0 +1,186 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import type MinecraftProxy from '../src/proxy';
+import { ConsoleSession, AdminConsole } from '../src/console';
+import { CommandNode } from '../src/command';
+import { StringArgumentMode } from '../src/command-parser';
+import logger from '../src/logger';
+import { createFakeProxy } from './fake-proxy';
+
+/**
+ * Wait until a condition holds
+ * @param condition
+ * @param timeout Time to wait at most, in milliseconds
+ */
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  let start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('console', () => {
+  let proxy: MinecraftProxy;
+  let evalModule: any;
+  beforeEach(() => {
+    evalModule = null;
+    ({ proxy } = createFakeProxy({}, {
+      moduleRegistry: { get: (name: string) => name === 'eval' ? evalModule : null }
+    }));
+    proxy.commandRegistry.register({
+      name: 'echo',
+      description: 'test',
+      autocomplete: new CommandNode('echo')
+        .asLiteral()
+        .defineChild(new CommandNode('text')
+          .asArgument({ parser: 'brigadier:string', properties: StringArgumentMode.GreedyPhrase })),
+      suggestions: {
+        text: async () => ['hello', 'help']
+      },
+      handler: async ctx => ctx.reply(`echo: ${ctx.parsedArgs.text}`)
+    });
+    proxy.commandRegistry.register({
+      name: 'whoami',
+      description: 'test',
+      autocomplete: null,
+      handler: async ctx => ctx.reply(ctx.owner === null ? 'nobody' : ctx.owner.constructor.name)
+    });
+    logger.silent = true;
+  });
+  afterEach(() => {
+    logger.silent = false;
+  });
+
+  describe('ConsoleSession', () => {
+    let input: PassThrough;
+    let output: PassThrough;
+    let written: string;
+    let session: ConsoleSession;
+    beforeEach(() => {
+      input = new PassThrough();
+      output = new PassThrough();
+      written = '';
+      output.on('data', data => {
+        written += data.toString();
+      });
+      session = new ConsoleSession(proxy, input, output);
+      session.start();
+    });
+    afterEach(() => {
+      session.close();
+    });
+
+    it('runs commands with or without the prefix', async () => {
+      input.write('echo one\n');
+      input.write('/p:echo two\n');
+      await waitFor(() => written.includes('echo: two'));
+      assert.ok(written.includes('echo: one'));
+      assert.ok(written.startsWith('proxy console'));
+    });
+
+    it('runs commands as the session', async () => {
+      input.write('whoami\n');
+      await waitFor(() => written.includes('ConsoleSession'));
+    });
+
+    it('completes command names and arguments', async () => {
+      assert.deepEqual(await session._complete('ec'), [['echo'], 'ec']);
+      assert.deepEqual(await session._complete('/p:wh'), [['/p:whoami'], '/p:wh']);
+      assert.deepEqual(await session._complete('echo hel'), [['hello', 'help'], 'hel']);
+      assert.deepEqual(await session._complete('unknown x'), [[], 'unknown x']);
+    });
+
+    it('ends on .exit and at the end of input', async () => {
+      let closed = false;
+      session.on('close', () => {
+        closed = true;
+      });
+      input.write('.exit\n');
+      await waitFor(() => closed);
+      assert.equal(session.closed, true);
+
+      let otherInput = new PassThrough();
+      let other = new ConsoleSession(proxy, otherInput, new PassThrough());
+      other.start();
+      otherInput.end();
+      await waitFor(() => other.closed);
+    });
+
+    it('needs the eval module for eval sessions', async () => {
+      input.write('.eval\n');
+      await waitFor(() => written.includes('the eval module is not loaded'));
+      assert.equal(session.repl, null);
+      assert.notEqual(session.readline, null);
+    });
+
+    it('evaluates code with the eval module', async () => {
+      evalModule = {
+        loaded: true,
+        evaluate: async (code: string) => ({ value: code.trim(), error: false, ref: '$1' })
+      };
+      input.write('.eval\n');
+      await waitFor(() => session.repl !== null);
+      input.write('abc\n');
+      await waitFor(() => written.includes("$1 = 'abc'"));
+      input.write('.exit\n');
+      await waitFor(() => session.readline !== null);
+      input.write('echo back\n');
+      await waitFor(() => written.includes('echo: back'));
+    });
+  });
+
+  describe('AdminConsole', () => {
+    let dir: string;
+    let socketPath: string;
+    let adminConsole: AdminConsole;
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcpi-console-'));
+      socketPath = path.join(dir, 'proxy.sock');
+      adminConsole = new AdminConsole(proxy);
+    });
+    afterEach(async () => {
+      await adminConsole.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('accepts sessions on a socket only the owner can use', async () => {
+      // left behind by a proxy that crashed
+      let stale = net.createServer();
+      await new Promise<void>(resolve => stale.listen(socketPath, resolve));
+      await new Promise<void>(resolve => {
+        // closing unlinks the socket, keep a copy of it around instead
+        fs.renameSync(socketPath, `${socketPath}.tmp`);
+        stale.close(() => resolve());
+      });
+      fs.renameSync(`${socketPath}.tmp`, socketPath);
+
+      await adminConsole.listen(socketPath);
+      assert.equal(fs.statSync(socketPath).mode & 0o777, 0o600);
+
+      let socket = net.connect(socketPath);
+      let received = '';
+      socket.on('data', data => {
+        received += data.toString();
+      });
+      socket.write('echo over the socket\n');
+      await waitFor(() => received.includes('echo: over the socket'));
+      assert.equal(adminConsole.sessions.size, 1);
+
+      socket.end();
+      await waitFor(() => adminConsole.sessions.size === 0);
+      await adminConsole.stop();
+      assert.equal(fs.existsSync(socketPath), false);
+    });
+
+    it('refuses to replace files that are not sockets', async () => {
+      fs.writeFileSync(socketPath, 'important');
+      await assert.rejects(adminConsole.listen(socketPath), /EADDRINUSE/);
+      assert.equal(fs.readFileSync(socketPath, 'utf8'), 'important');
+    });
+  });
+});
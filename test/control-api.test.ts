@@ -0,0 +1,126 @@
+import { strict as assert } from 'assert';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import type MinecraftProxy from '../src/proxy';
+import ControlApiModule from '../modules/control-api';
+import { Direction } from '../src/hook';
+import logger from '../src/logger';
+import { createFakeProxy } from './fake-proxy';
+
+/** Response of a test request */
+interface Response {
+  status: number;
+  body: any;
+}
+
+describe('ControlApiModule', () => {
+  let proxy: MinecraftProxy;
+  let module: ControlApiModule;
+  let port: number;
+
+  /**
+   * Make a request to the API
+   * @param method
+   * @param path
+   * @param body Raw request body
+   * @param token Bearer token to send
+   */
+  function request(method: string, path: string, body: string | null = null, token: string | null = 'secret') {
+    let headers: http.OutgoingHttpHeaders = {};
+    if (token) headers.authorization = `Bearer ${token}`;
+    return new Promise<Response>((resolve, reject) => {
+      let req = http.request({ host: '127.0.0.1', port, method, path, headers }, res => {
+        let chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(Buffer.concat(chunks).toString()) }));
+      });
+      req.on('error', reject);
+      req.end(body ?? undefined);
+    });
+  }
+
+  /**
+   * Open a packet stream
+   * @param query
+   */
+  function connect(query: string) {
+    let ws = new WebSocket(`ws://127.0.0.1:${port}/packets?${query}`);
+    return new Promise<WebSocket>((resolve, reject) => {
+      ws.once('open', () => resolve(ws));
+      ws.once('unexpected-response', (_req, res) => reject(new Error(`status ${res.statusCode}`)));
+      ws.once('error', reject);
+    });
+  }
+
+  beforeEach(async () => {
+    ({ proxy } = createFakeProxy({}, { moduleRegistry: { modules: new Map(), get: () => null } }));
+    proxy.commandRegistry.register({
+      name: 'echo',
+      description: 'test',
+      autocomplete: null,
+      handler: async ctx => ctx.reply(`echo: ${ctx.args.slice(1).join(' ')}`)
+    });
+    module = new ControlApiModule(proxy);
+    module.config = { port: 0, token: 'secret' };
+    await module.load();
+    port = (module.server!.address() as AddressInfo).port;
+    logger.silent = true;
+  });
+  afterEach(async () => {
+    logger.silent = false;
+    await module.unload();
+  });
+
+  it('requires the token as bearer token', async () => {
+    assert.deepEqual(await request('POST', '/commands', null, null), { status: 401, body: { error: 'invalid token' } });
+    assert.equal((await request('POST', '/commands', null, 'wrong')).status, 401);
+    // only accepted for packet streams
+    assert.equal((await request('POST', '/commands?token=secret', null, null)).status, 401);
+  });
+
+  it('runs commands', async () => {
+    let response = await request('POST', '/commands', JSON.stringify({ command: 'echo hello there' }));
+    assert.equal(response.status, 200);
+    assert.deepEqual(response.body.output, ['echo: hello there']);
+  });
+
+  it('rejects invalid requests', async () => {
+    assert.equal((await request('POST', '/nothing')).status, 404);
+    assert.equal((await request('GET', '/commands')).status, 405);
+    assert.deepEqual(await request('POST', '/modules/%E0%A4%A/load'), {
+      status: 400,
+      body: { error: 'malformed path' }
+    });
+    assert.equal((await request('POST', '/commands', '{')).status, 400);
+    assert.deepEqual(await request('POST', '/commands', '[]'), {
+      status: 400,
+      body: { error: 'request body must be an object' }
+    });
+    assert.deepEqual(await request('POST', '/commands', '{}'), {
+      status: 400,
+      body: { error: 'command must be a non-empty string' }
+    });
+  });
+
+  it('streams packets matching the filter', async () => {
+    await assert.rejects(connect('token=wrong'), /status 401/);
+    await assert.rejects(connect('token=secret&direction=sideways'), /status 400/);
+    let ws = await connect('token=secret&types=chat&direction=servertoclient');
+    assert.notEqual(module.packetHook, null);
+    let received = new Promise<any>(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))));
+    await proxy.hooks.execute(Direction.ClientToServer, 'chat', { message: 'ignored' });
+    await proxy.hooks.execute(Direction.ServerToClient, 'map_chunk', { x: 0 });
+    await proxy.hooks.execute(Direction.ServerToClient, 'chat', { message: 'hi', raw: Buffer.from('hi') });
+    let packet = await received;
+    assert.equal(packet.direction, 'ServerToClient');
+    assert.equal(packet.type, 'chat');
+    assert.deepEqual(packet.data, { message: 'hi', raw: Buffer.from('hi').toString('base64') });
+
+    let closed = new Promise(resolve => ws.once('close', resolve));
+    ws.close();
+    await closed;
+    while (module.subscribers.size) await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(module.packetHook, null);
+  });
+});
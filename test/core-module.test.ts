@@ -0,0 +1,192 @@
+import { strict as assert } from 'assert';
+import type mc from 'minecraft-protocol';
+import type MinecraftProxy from '../src/proxy';
+import CoreModule from '../src/core-module';
+import { CommandContext } from '../src/command';
+import { Direction } from '../src/hook';
+import logger from '../src/logger';
+import { createFakeProxy, createClient, SentMessage } from './fake-proxy';
+
+describe('CoreModule', () => {
+  let proxy: MinecraftProxy;
+  let messages: SentMessage[];
+  let controller: mc.Client;
+  let core: CoreModule;
+  let limbo: { available: boolean, entered: string[] };
+  let reconnectAttempt: object | null;
+  let kicked: [string, mc.Client | null][];
+  let texts = () => messages.map(message => message.text);
+
+  /**
+   * Send a chat message through the command hook and wait for the command
+   * @param message
+   * @param client
+   */
+  async function run(message: string, client: mc.Client | null = controller): Promise<void> {
+    let contexts: CommandContext[] = [];
+    let registry = proxy.commandRegistry;
+    let execute = registry.execute;
+    registry.execute = (text, sender, createContext) => execute.call(registry, text, sender, args => {
+      let ctx = createContext ? createContext(args) : new CommandContext(args, proxy, sender);
+      contexts.push(ctx);
+      return ctx;
+    });
+    try {
+      let forwarded = await proxy.hooks.execute(Direction.ClientToServer, 'chat', { message }, client);
+      assert.equal(forwarded, false, 'commands should not reach the server');
+    } finally {
+      registry.execute = execute;
+    }
+    for (let ctx of contexts) await ctx.finished;
+  }
+
+  beforeEach(async () => {
+    controller = createClient('controller');
+    limbo = { available: true, entered: [] };
+    reconnectAttempt = null;
+    kicked = [];
+    ({ proxy, messages } = createFakeProxy({ limbo: true }, {
+      moduleRegistry: { modules: new Map() },
+      limbo: {
+        get available() {
+          return limbo.available;
+        },
+        enter: async (status: string) => {
+          limbo.entered.push(status);
+        }
+      },
+      reconnector: {
+        handleDisconnect: async () => reconnectAttempt
+      },
+      kickClient: (reason: string, client: mc.Client | null) => {
+        kicked.push([reason, client]);
+      }
+    }));
+    proxy.proxyClient = controller;
+    core = new CoreModule(proxy);
+    // load as if reloading, which leaves the process error handlers alone
+    await core.load(true);
+    // output is logged
+    logger.silent = true;
+  });
+  afterEach(() => {
+    logger.silent = false;
+  });
+
+  it('lets other chat messages through', async () => {
+    assert.equal(await proxy.hooks.execute(Direction.ClientToServer, 'chat', { message: 'hello' }, controller), true);
+  });
+
+  describe('help', () => {
+    it('lists commands with their owner and summary', async () => {
+      await run('/p:help');
+      assert.equal(messages[0].text, 'Available commands:');
+      assert.ok(texts().includes('/p:cancel [core] - Cancel your running commands'));
+      assert.ok(texts().includes('/p:help [core] - Show available commands'));
+    });
+
+    it('shows description and usage of a command', async () => {
+      await run('/p:help /p:page');
+      assert.deepEqual(texts(), [
+        '/p:page [core]',
+        'Show a page of long command output\n' +
+          '  page <page> - show a page of the latest output\n' +
+          '  page <page> <output> - show a page of earlier output',
+        'Usage:\n  /p:page <page>\n  /p:page <page> <output>'
+      ]);
+    });
+
+    it('suggests commands for unknown names', async () => {
+      await run('/p:help cancle');
+      assert.deepEqual(texts(), ['Unknown command cancle, did you mean cancel?']);
+    });
+
+    it('is available to spectators', async () => {
+      let spectator = createClient('spectator');
+      proxy.spectators.add(spectator);
+      await run('/p:help cancel', spectator);
+      assert.equal(messages[0].client, spectator);
+      assert.equal(messages[0].text, '/p:cancel [core]');
+    });
+  });
+
+  describe('cancel', () => {
+    it('cancels the running commands of the client', async () => {
+      proxy.commandRegistry.register({
+        name: 'wait',
+        description: 'test',
+        autocomplete: null,
+        timeout: null,
+        handler: () => new Promise<void>(() => {})
+      });
+      proxy.commandRegistry.execute('/p:wait', controller);
+      await run('/p:cancel');
+      await new Promise(resolve => setImmediate(resolve));
+      assert.deepEqual(texts(), ['Cancelled 1 command', '[proxy] /p:wait was cancelled']);
+
+      messages.length = 0;
+      await run('/p:cancel');
+      assert.deepEqual(texts(), ['No commands running']);
+    });
+  });
+
+  describe('hooks', () => {
+    it('enables and disables hooks by id', async () => {
+      let hook = proxy.hooks.register(Direction.ServerToClient, 'chat', async () => {});
+      await run(`/p:hooks disable #${hook.seq}`);
+      assert.equal(hook.enabled, false);
+      await run(`/p:hooks enable ${hook.seq}`);
+      assert.equal(hook.enabled, true);
+      assert.deepEqual(texts(), [`Disabled ${hook}`, `Enabled ${hook}`]);
+    });
+
+    it('rejects malformed and unknown ids', async () => {
+      await run('/p:hooks disable abc');
+      await run('/p:hooks disable #');
+      await run('/p:hooks disable 9999');
+      assert.deepEqual(texts(), [
+        'Invalid hook id abc, expected a number such as #3',
+        'Invalid hook id #, expected a number such as #3',
+        'No such hook'
+      ]);
+      for (let hook of proxy.hooks) assert.equal(hook.enabled, true);
+    });
+
+    it('lists hooks matching a filter', async () => {
+      proxy.hooks.register(Direction.ServerToClient, 'map_chunk', async () => {}, { name: 'chunks' });
+      await run('/p:hooks map_chunk');
+      assert.equal(messages[0].text, '1 hooks:');
+      assert.match(messages[1].text, /^#\d+ chunks ServerToClient map_chunk \[unknown\] priority 100: 0 calls/);
+    });
+  });
+
+  describe('serverDisconnected', () => {
+    let disconnect = () => proxy.hooks.execute(Direction.Local, 'serverDisconnected', 'Connection lost');
+
+    it('waits in limbo while reconnecting', async () => {
+      reconnectAttempt = { attempt: 1, maxAttempts: 10, delay: 2000 };
+      await disconnect();
+      assert.deepEqual(limbo.entered, ['Connection lost, reconnecting in 2s (attempt 1/10)']);
+      assert.deepEqual(kicked, []);
+    });
+
+    it('waits in limbo for the retry command if limbo is enabled', async () => {
+      await disconnect();
+      assert.deepEqual(limbo.entered, ['Connection lost (use /p:retry to reconnect)']);
+      proxy.config.limbo = false;
+      await disconnect();
+      assert.equal(limbo.entered.length, 1);
+      assert.deepEqual(kicked, [['[proxy] Connection lost', controller]]);
+    });
+
+    it('kicks clients if there is no limbo for the version', async () => {
+      limbo.available = false;
+      reconnectAttempt = { attempt: 1, maxAttempts: 10, delay: 2000 };
+      let spectator = createClient('spectator');
+      proxy.spectators.add(spectator);
+      await disconnect();
+      assert.deepEqual(limbo.entered, []);
+      assert.deepEqual(kicked, [['[proxy] Connection lost', controller], ['[proxy] Connection lost', spectator]]);
+    });
+  });
+});
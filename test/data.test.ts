@@ -0,0 +1,117 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { VersionData, VersionDataError } from '../src/data';
+import logger from '../src/logger';
+
+// tests run from build/test, fixtures are not copied there
+const FIXTURES = path.join(__dirname, '..', '..', 'test', 'fixtures', 'burger');
+
+describe('VersionData', () => {
+  let data: VersionData;
+  before(async () => {
+    data = await VersionData.load(FIXTURES, '1.16.1');
+  });
+
+  it('reads the version and protocol', () => {
+    assert.equal(data.version, '1.16.1');
+    assert.equal(data.protocol, 736);
+    assert.deepEqual(data.missing, []);
+  });
+
+  it('looks up blocks by name, id and state id', () => {
+    let stone = data.getBlock('stone')!;
+    assert.deepEqual(stone, {
+      name: 'minecraft:stone',
+      id: 1,
+      displayName: 'Stone',
+      minStateId: 1,
+      maxStateId: 1,
+      defaultStateId: 1,
+      hardness: 1.5,
+      resistance: 6
+    });
+    assert.equal(data.getBlock('minecraft:stone'), stone);
+    assert.equal(data.getBlock(1), stone);
+    assert.equal(data.getBlockByStateId(9)!.name, 'minecraft:grass_block');
+    assert.equal(data.getBlock('grass_block')!.defaultStateId, 9);
+    assert.equal(data.getBlockByStateId(0)!.name, 'minecraft:air');
+  });
+
+  it('looks up items, entities and sounds', () => {
+    assert.equal(data.getItem('diamond_sword')!.maxStackSize, 1);
+    assert.equal(data.getItem(1)!.name, 'minecraft:stone');
+    assert.equal(data.getEntity('zombie')!.height, 1.95);
+    assert.equal(data.getEntity(102)!.displayName, 'Zombie');
+    assert.equal(data.getSound('block.stone.break')!.id, 1070);
+    assert.equal(data.getSound(1070)!.name, 'minecraft:block.stone.break');
+  });
+
+  it('looks up packets by state, direction and id', () => {
+    assert.equal(data.getPacket('play', 'CLIENTBOUND', 14)!.className, 'ne.class');
+    assert.equal(data.getPacket('PLAY', 'SERVERBOUND', 3)!.className, 'ra.class');
+    assert.equal(data.getPacket('PLAY', 'SERVERBOUND', 14), null);
+  });
+
+  it('returns null for unknown names, ids and state ids', () => {
+    assert.equal(data.getBlock('nonexistent'), null);
+    assert.equal(data.getBlock(999), null);
+    assert.equal(data.getBlockByStateId(5), null);
+    assert.equal(data.getBlockByStateId(100), null);
+    assert.equal(data.getItem(999), null);
+    assert.equal(data.getEntity('creeper'), null);
+    assert.equal(data.getSound(1), null);
+  });
+
+  it('throws for sections missing from the data', () => {
+    let partial = new VersionData('1.16.1', { version: { name: '1.16.1' }, blocks: { block: {} } });
+    assert.deepEqual(partial.missing, ['items', 'entities', 'packets', 'sounds']);
+    assert.equal(partial.getBlock('stone'), null);
+    assert.throws(() => partial.getItem('stone'), (err: any) => {
+      assert.ok(err instanceof VersionDataError);
+      assert.match(err.message, /no items data/);
+      return true;
+    });
+  });
+
+  describe('load', () => {
+    let dir: string;
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcpi-data-'));
+    });
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reports versions without data', async () => {
+      await assert.rejects(VersionData.load(FIXTURES, '1.12.2'), (err: any) => {
+        assert.ok(err instanceof VersionDataError);
+        assert.equal(err.version, '1.12.2');
+        assert.match(err.message, /does not exist/);
+        return true;
+      });
+    });
+
+    it('reports files with data for another version', async () => {
+      fs.copyFileSync(path.join(FIXTURES, '1.16.1.json'), path.join(dir, '1.16.2.json'));
+      await assert.rejects(VersionData.load(dir, '1.16.2'), /contains data for 1\.16\.1 instead/);
+    });
+
+    it('reports files that are not JSON', async () => {
+      fs.writeFileSync(path.join(dir, '1.16.1.json'), '[{');
+      await assert.rejects(VersionData.load(dir, '1.16.1'), /could not parse/);
+    });
+
+    it('warns about missing sections', async () => {
+      fs.writeFileSync(path.join(dir, '1.16.1.json'), JSON.stringify({ version: { name: '1.16.1' } }));
+      logger.silent = true;
+      try {
+        let partial = await VersionData.load(dir, '1.16.1');
+        assert.equal(partial.missing.length, 5);
+      } finally {
+        logger.silent = false;
+      }
+    });
+  });
+});
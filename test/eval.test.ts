@@ -0,0 +1,111 @@
+import { strict as assert } from 'assert';
+import type mc from 'minecraft-protocol';
+import type MinecraftProxy from '../src/proxy';
+import EvalModule from '../modules/eval';
+import { CommandContext } from '../src/command';
+import logger from '../src/logger';
+import { createFakeProxy, createClient, SentMessage } from './fake-proxy';
+
+describe('EvalModule', () => {
+  let proxy: MinecraftProxy;
+  let messages: SentMessage[];
+  let module: EvalModule;
+
+  /**
+   * Execute a command as the controlling client and wait for it
+   * @param message
+   * @param client
+   */
+  async function run(message: string, client: mc.Client | null = null) {
+    if (client) proxy.proxyClient = client;
+    let contexts: CommandContext[] = [];
+    proxy.commandRegistry.execute(message, client, args => {
+      let ctx = new CommandContext(args, proxy, client);
+      contexts.push(ctx);
+      return ctx;
+    });
+    for (let ctx of contexts) await ctx.finished;
+  }
+
+  beforeEach(async () => {
+    ({ proxy, messages } = createFakeProxy());
+    module = new EvalModule(proxy);
+    await module.load();
+    // output is logged
+    logger.silent = true;
+  });
+  afterEach(() => {
+    logger.silent = false;
+  });
+
+  describe('evaluate', () => {
+    it('keeps results as $1, $2 and $_', async () => {
+      assert.deepEqual(await module.evaluate('1 + 1'), { value: 2, error: false, ref: '$1' });
+      assert.deepEqual(await module.evaluate('$1 * 10'), { value: 20, error: false, ref: '$2' });
+      assert.equal((await module.evaluate('$_ + $1')).value, 22);
+    });
+
+    it('awaits expressions and statements using await', async () => {
+      assert.equal((await module.evaluate('await Promise.resolve(5)')).value, 5);
+      assert.equal((await module.evaluate('await Promise.resolve(5);')).value, 5);
+      let statements = await module.evaluate('let a = await Promise.resolve(2);\nreturn a * 3;');
+      assert.equal(statements.value, 6);
+    });
+
+    it('returns errors without storing them', async () => {
+      let result = await module.evaluate('null.property');
+      assert.equal(result.error, true);
+      // errors come from the eval context, which has its own Error class
+      assert.equal(result.value.name, 'TypeError');
+      assert.equal(result.ref, null);
+      assert.equal((await module.evaluate('await Promise.reject(new Error("nope"))')).value.message, 'nope');
+      assert.equal((await module.evaluate('1')).ref, '$1');
+    });
+
+    it('shares the context between evaluations', async () => {
+      await module.evaluate('var counter = 1');
+      await module.evaluate('counter++');
+      assert.equal((await module.evaluate('counter')).value, 2);
+      assert.equal((await module.evaluate('proxy')).value, proxy);
+    });
+  });
+
+  describe('buffers', () => {
+    it('runs lines buffered by a client once it reconnects', async () => {
+      await run('/p:evalc let x = 20;', createClient('player'));
+      await run('/p:evalc (x + 1)', createClient('player'));
+      // other clients and the console have their own buffers
+      await run('/p:evalx', createClient('other'));
+      await run('/p:evalx');
+      assert.deepEqual(messages.map(message => message.text), [
+        '1 line(s) buffered, execute',
+        '2 line(s) buffered, execute',
+        'eval buffer is empty',
+        'eval buffer is empty'
+      ]);
+
+      messages.length = 0;
+      await run('/p:evalx * 2', createClient('player'));
+      assert.equal(messages[0].text, 'eval> let x = 20;\n(x + 1)\n* 2');
+      assert.equal(messages[1].text, '$1 = 42');
+
+      messages.length = 0;
+      await run('/p:evalx', createClient('player'));
+      assert.deepEqual(messages.map(message => message.text), ['eval buffer is empty']);
+    });
+
+    it('shows and discards the buffer', async () => {
+      let client = createClient('player');
+      await run('/p:evalc 1', client);
+      await run('/p:evalc 2', client);
+      messages.length = 0;
+      await run('/p:evalc', client);
+      assert.deepEqual(messages.map(message => message.text), ['eval buffer', '1| 1', '2| 2']);
+
+      messages.length = 0;
+      await run('/p:evalclear', client);
+      await run('/p:evalc', client);
+      assert.deepEqual(messages.map(message => message.text), ['discarded 2 line(s)', 'eval buffer is empty']);
+    });
+  });
+});
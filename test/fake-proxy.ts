@@ -0,0 +1,62 @@
+import type mc from 'minecraft-protocol';
+import type MinecraftProxy from '../src/proxy';
+import { Hooks } from '../src/hook';
+import { CommandRegistry } from '../src/command';
+import { ChatInput, toPlainText } from '../src/chat';
+
+/** A chat message sent through a fake proxy */
+export interface SentMessage {
+  /** Client the message was sent to */
+  client: mc.Client | null;
+  /** Plain text of the message */
+  text: string;
+}
+
+/** Stand-in for the proxy, recording what would be sent to clients */
+export interface FakeProxy {
+  /** The fake, to pass where a proxy is expected */
+  proxy: MinecraftProxy;
+  /** Chat messages sent to clients */
+  messages: SentMessage[];
+  /** Other packets injected, as type, data and client (null for the server) */
+  injected: [string, any, mc.Client | null][];
+}
+
+/**
+ * Create a fake client
+ * @param username
+ */
+export function createClient(username: string): mc.Client {
+  return { username } as mc.Client;
+}
+
+/**
+ * Create a proxy with hooks and a command registry, but no connections
+ * @param config Configuration overrides
+ * @param properties Other members of the proxy used by a test
+ */
+export function createFakeProxy(config: object = {}, properties: object = {}): FakeProxy {
+  let messages: SentMessage[] = [];
+  let injected: [string, any, mc.Client | null][] = [];
+  let proxy: any = {
+    config: { commandPrefix: '/p:', commandAliases: {}, ...config },
+    hooks: new Hooks(),
+    proxyClient: null,
+    spectators: new Set<mc.Client>(),
+    get clients(): mc.Client[] {
+      return this.proxyClient ? [this.proxyClient, ...this.spectators] : [...this.spectators];
+    },
+    sendChat: (message: ChatInput, client: mc.Client | null = proxy.proxyClient) => {
+      messages.push({ client, text: toPlainText(message) });
+    },
+    injectClient: (type: string, data: any, client: mc.Client | null = proxy.proxyClient) => {
+      injected.push([type, data, client]);
+    },
+    injectServer: (type: string, data: any) => {
+      injected.push([type, data, null]);
+    },
+    ...properties
+  };
+  proxy.commandRegistry = new CommandRegistry(proxy);
+  return { proxy, messages, injected };
+}
@@ -0,0 +1,259 @@
+import { strict as assert } from 'assert';
+import { Hooks, Hook, HookOptions, HookOrderError, Direction, ANY_TYPE, orderHooks } from '../src/hook';
+import type { Module } from '../src/module';
+import logger from '../src/logger';
+
+let noop = async () => {};
+
+describe('orderHooks', () => {
+  let hooks: Hooks;
+  let create = (options: HookOptions) => new Hook(hooks, Direction.Local, 'test', hooks.seq++, noop, options);
+  let names = (list: Hook[]) => list.map(hook => hook.name);
+  beforeEach(() => {
+    hooks = new Hooks();
+  });
+
+  it('orders by priority, then registration order', () => {
+    let list = [
+      create({ name: 'c', priority: 200 }),
+      create({ name: 'a' }),
+      create({ name: 'b' }),
+      create({ name: 'first', priority: 0 })
+    ];
+    assert.deepEqual(names(orderHooks(list)), ['first', 'a', 'b', 'c']);
+  });
+
+  it('satisfies before and after constraints over priority', () => {
+    let list = [
+      create({ name: 'a', priority: 0, after: 'c' }),
+      create({ name: 'b', priority: 10 }),
+      create({ name: 'c', priority: 20 }),
+      create({ name: 'd', priority: 30, before: ['b'] })
+    ];
+    assert.deepEqual(names(orderHooks(list)), ['c', 'a', 'd', 'b']);
+  });
+
+  it('matches constraints by module and module:name', () => {
+    let module = { name: 'mod' } as Module;
+    let list = [
+      create({ name: 'x', after: 'mod' }),
+      create({ name: 'y', module, before: 'mod:z' }),
+      create({ name: 'z', module })
+    ];
+    assert.deepEqual(names(orderHooks(list)), ['y', 'z', 'x']);
+  });
+
+  it('throws HookOrderError on cycles', () => {
+    let list = [
+      create({ name: 'a', before: 'b' }),
+      create({ name: 'b', before: 'c' }),
+      create({ name: 'c', before: 'a' }),
+      create({ name: 'd' })
+    ];
+    assert.throws(() => orderHooks(list), (err: any) => {
+      assert.ok(err instanceof HookOrderError);
+      assert.equal(err.cycle.length, 4);
+      assert.equal(err.cycle[0], err.cycle[3]);
+      assert.deepEqual(new Set(names(err.cycle)), new Set(['a', 'b', 'c']));
+      return true;
+    });
+  });
+});
+
+describe('Hooks', () => {
+  let hooks: Hooks;
+  beforeEach(() => {
+    hooks = new Hooks();
+  });
+
+  it('rejects and removes a hook whose constraints form a cycle', () => {
+    hooks.register(Direction.Local, 'test', noop, { name: 'a', before: 'b' });
+    assert.throws(
+      () => hooks.register(Direction.Local, 'test', noop, { name: 'b', before: 'a' }),
+      HookOrderError
+    );
+    assert.deepEqual([...hooks].map(hook => hook.name), ['a']);
+  });
+
+  it('rejects cycles across wildcard and any-direction hooks', () => {
+    hooks.register(Direction.ClientToServer, 'chat', noop, { name: 'a', before: 'b' });
+    assert.throws(
+      () => hooks.register(Direction.Any, ANY_TYPE, noop, { name: 'b', before: 'a' }),
+      HookOrderError
+    );
+  });
+
+  it('runs merged hooks in constraint order and picks up new hooks', async () => {
+    let calls: string[] = [];
+    let handler = (name: string) => async () => {
+      calls.push(name);
+    };
+    hooks.register(Direction.ClientToServer, 'chat', handler('specific'));
+    hooks.register(Direction.Any, ANY_TYPE, handler('wildcard'), { name: 'wildcard', before: 'late' });
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.deepEqual(calls, ['specific', 'wildcard']);
+
+    calls = [];
+    hooks.register(Direction.ClientToServer, 'chat', handler('late'), { name: 'late', priority: 0 });
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.deepEqual(calls, ['specific', 'wildcard', 'late']);
+  });
+});
+
+describe('Hooks wildcards and filters', () => {
+  let hooks: Hooks;
+  let calls: string[];
+  let handler = (name: string) => async () => {
+    calls.push(name);
+  };
+  beforeEach(() => {
+    hooks = new Hooks();
+    calls = [];
+  });
+
+  it('runs ANY_TYPE hooks for every packet of their direction', async () => {
+    hooks.register(Direction.ServerToClient, ANY_TYPE, handler('any'));
+    await hooks.execute(Direction.ServerToClient, 'chat', {});
+    await hooks.execute(Direction.ServerToClient, 'map_chunk', {});
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.deepEqual(calls, ['any', 'any']);
+  });
+
+  it('runs Direction.Any hooks for packets in both directions but not local events', async () => {
+    hooks.register(Direction.Any, 'chat', handler('chat'));
+    hooks.register(Direction.Any, ANY_TYPE, handler('all'));
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    await hooks.execute(Direction.ServerToClient, 'chat', {});
+    await hooks.execute(Direction.ServerToClient, 'position', {});
+    await hooks.execute(Direction.Local, 'chat', {});
+    assert.deepEqual(calls, ['chat', 'all', 'chat', 'all', 'all']);
+  });
+
+  it('rejects executing hooks for Direction.Any', async () => {
+    await assert.rejects(hooks.execute(Direction.Any, 'chat', {}), /single direction/);
+  });
+
+  it('only runs hooks whose filter matches', async () => {
+    hooks.register(Direction.ClientToServer, 'chat', handler('filtered'), {
+      filter: event => event.data.message.startsWith('!')
+    });
+    await hooks.execute(Direction.ClientToServer, 'chat', { message: 'hello' });
+    await hooks.execute(Direction.ClientToServer, 'chat', { message: '!cmd' });
+    assert.deepEqual(calls, ['filtered']);
+  });
+
+  it('ignores unregistering a hook twice', async () => {
+    let first = hooks.register(Direction.ClientToServer, 'chat', handler('first'));
+    hooks.register(Direction.ClientToServer, 'chat', handler('second'));
+    first.unregister();
+    first.unregister();
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.deepEqual(calls, ['second']);
+    assert.equal(hooks.hooks[Direction.ClientToServer].get('chat')!.length, 1);
+  });
+});
+
+describe('Hooks error policy', () => {
+  let hooks: Hooks;
+  let calls: string[];
+  let fail = async () => {
+    throw new Error('hook failed');
+  };
+  let record = (name: string) => async () => {
+    calls.push(name);
+  };
+  let never = () => new Promise<void>(() => {});
+  // failures are logged as errors, which are expected here
+  before(() => {
+    logger.silent = true;
+  });
+  after(() => {
+    logger.silent = false;
+  });
+  beforeEach(() => {
+    hooks = new Hooks();
+    hooks.errorPolicy = { action: 'forward', maxErrors: 3, errorWindow: 60000, timeBudget: 0 };
+    calls = [];
+  });
+
+  it('keeps running other hooks and forwards the packet when a hook fails', async () => {
+    let failing = hooks.register(Direction.ClientToServer, 'chat', fail);
+    hooks.register(Direction.ClientToServer, 'chat', record('after'));
+    assert.equal(await hooks.execute(Direction.ClientToServer, 'chat', {}), true);
+    assert.deepEqual(calls, ['after']);
+    assert.equal(failing.recentErrors.length, 1);
+  });
+
+  it('drops the packet when the policy says so', async () => {
+    hooks.errorPolicy.action = 'drop';
+    hooks.register(Direction.ClientToServer, 'chat', fail);
+    hooks.register(Direction.ClientToServer, 'chat', record('after'));
+    assert.equal(await hooks.execute(Direction.ClientToServer, 'chat', {}), false);
+    assert.deepEqual(calls, []);
+  });
+
+  it('treats a throwing filter like a failing hook', async () => {
+    hooks.errorPolicy.action = 'drop';
+    let hook = hooks.register(Direction.ClientToServer, 'chat', record('filtered'), {
+      filter: () => {
+        throw new Error('broken filter');
+      }
+    });
+    assert.equal(await hooks.execute(Direction.ClientToServer, 'chat', {}), false);
+    assert.deepEqual(calls, []);
+    assert.equal(hook.recentErrors.length, 1);
+  });
+
+  it('disables a hook after maxErrors errors within errorWindow', async () => {
+    let disabled: any[] = [];
+    hooks.register(Direction.Local, 'hookDisabled', async event => {
+      disabled.push(event.data);
+    });
+    let failing = hooks.register(Direction.ClientToServer, 'chat', async () => {
+      calls.push('failing');
+      throw new Error('hook failed');
+    });
+    for (let i = 0; i < 3; i++) await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.equal(failing.enabled, false);
+    assert.equal(failing.disabledBy!.message, 'hook failed');
+    assert.equal(disabled.length, 1);
+    assert.equal(disabled[0].hook, failing);
+
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.equal(calls.length, 3);
+    failing.enable();
+    assert.deepEqual(failing.recentErrors, []);
+    assert.equal(failing.disabledBy, null);
+  });
+
+  it('forgets errors older than errorWindow', async () => {
+    let failing = hooks.register(Direction.ClientToServer, 'chat', fail);
+    failing.recentErrors = [Date.now() - 120000, Date.now() - 90000];
+    await hooks.execute(Direction.ClientToServer, 'chat', {});
+    assert.equal(failing.enabled, true);
+    assert.equal(failing.recentErrors.length, 1);
+  });
+
+  it('counts packet hooks exceeding the time budget as errors', async () => {
+    hooks.errorPolicy.timeBudget = 10;
+    hooks.errorPolicy.maxErrors = 2;
+    let slow = hooks.register(Direction.ServerToClient, 'chat', never);
+    hooks.register(Direction.ServerToClient, 'chat', record('after'));
+    assert.equal(await hooks.execute(Direction.ServerToClient, 'chat', {}), true);
+    assert.deepEqual(calls, ['after']);
+    assert.equal(slow.recentErrors.length, 1);
+    assert.equal(slow.enabled, true);
+    await hooks.execute(Direction.ServerToClient, 'chat', {});
+    assert.equal(slow.enabled, false);
+  });
+
+  it('does not limit hooks on local events', async () => {
+    hooks.errorPolicy.timeBudget = 10;
+    hooks.register(Direction.Local, 'test', async () => {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      calls.push('slow');
+    });
+    assert.equal(await hooks.execute(Direction.Local, 'test', {}), true);
+    assert.deepEqual(calls, ['slow']);
+  });
+});
@@ -0,0 +1,113 @@
+import { strict as assert } from 'assert';
+import type mc from 'minecraft-protocol';
+import type MinecraftProxy from '../src/proxy';
+import { Limbo, LIMBO_WORLD_NAME, respawnFromLogin, sendJoinGame } from '../src/limbo';
+import { WorldState } from '../src/world-state';
+import { Direction } from '../src/hook';
+import logger from '../src/logger';
+import { createFakeProxy } from './fake-proxy';
+
+/** Client recording the packets written to it */
+function createWritingClient(username: string): mc.Client & { written: [string, any][] } {
+  let written: [string, any][] = [];
+  return { username, written, write: (name: string, data: any) => written.push([name, data]) } as any;
+}
+
+describe('Limbo', () => {
+  let proxy: MinecraftProxy;
+  let limbo: Limbo;
+  let joined: [mc.Client, any][];
+  beforeEach(() => {
+    joined = [];
+    ({ proxy } = createFakeProxy({ version: '1.16.1' }, {
+      worldState: new WorldState(),
+      joinGame: (client: mc.Client, login: any) => joined.push([client, login]),
+      nextTeleportId: () => 1
+    }));
+    limbo = new Limbo(proxy);
+    logger.silent = true;
+  });
+  afterEach(async () => {
+    await limbo.leave();
+    logger.silent = false;
+  });
+
+  it('is only available for versions minecraft-data has a login packet for', () => {
+    assert.equal(limbo.available, true);
+    proxy.config.version = '1.8.9';
+    assert.equal(limbo.available, false);
+    proxy.config.version = '0.0.1';
+    assert.equal(limbo.available, false);
+  });
+
+  it('refuses to enter without a login packet for the version', async () => {
+    proxy.config.version = '0.0.1';
+    await assert.rejects(limbo.enter('Connection lost'), /limbo is not available for version 0\.0\.1/);
+    assert.equal(limbo.active, false);
+  });
+
+  it('builds a spectator login into the limbo world keeping the entity id', () => {
+    proxy.worldState.update('login', { entityId: 42, gameMode: 0 });
+    let login = limbo.createLoginPacket();
+    assert.equal(login.entityId, 42);
+    assert.equal(login.gameMode, 3);
+    assert.equal(login.worldName, LIMBO_WORLD_NAME);
+  });
+
+  it('sends clients into limbo and tells them why', async () => {
+    let client = createWritingClient('controller');
+    proxy.proxyClient = client;
+    let events: string[] = [];
+    proxy.hooks.register(Direction.Local, 'limboEntered', async event => {
+      events.push(`entered ${event.data}`);
+    });
+    proxy.hooks.register(Direction.Local, 'limboLeft', async () => {
+      events.push('left');
+    });
+    await limbo.enter('Connection lost');
+    assert.equal(limbo.active, true);
+    assert.equal(joined.length, 1);
+    assert.equal(joined[0][0], client);
+    assert.deepEqual(client.written.map(([name]) => name), ['position']);
+
+    await limbo.enter('Reconnecting');
+    assert.equal(joined.length, 1);
+    assert.equal(limbo.status, 'Reconnecting');
+
+    await limbo.leave();
+    assert.equal(limbo.active, false);
+    assert.equal(limbo.statusInterval, null);
+    assert.deepEqual(events, ['entered Connection lost', 'left']);
+  });
+});
+
+describe('sendJoinGame', () => {
+  let login = {
+    entityId: 1,
+    dimension: 'minecraft:overworld',
+    worldName: 'minecraft:overworld',
+    hashedSeed: [0, 1],
+    gameMode: 1,
+    previousGameMode: 0,
+    isDebug: false,
+    isFlat: true
+  };
+
+  it('only sends the login to clients without a world', () => {
+    let client = createWritingClient('player');
+    sendJoinGame(client, login, false);
+    assert.deepEqual(client.written, [['login', login]]);
+  });
+
+  it('respawns clients through another dimension to discard their old world', () => {
+    let client = createWritingClient('player');
+    sendJoinGame(client, login, true);
+    let respawn = respawnFromLogin(login);
+    assert.equal(respawn.gamemode, 1);
+    assert.deepEqual(client.written, [
+      ['login', login],
+      ['respawn', { ...respawn, dimension: 'minecraft:the_nether' }],
+      ['respawn', respawn]
+    ]);
+  });
+});
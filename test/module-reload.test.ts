@@ -0,0 +1,196 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type MinecraftProxy from '../src/proxy';
+import { ModuleRegistry, ModuleWatcher } from '../src/module';
+import logger from '../src/logger';
+import { createFakeProxy, createClient, SentMessage } from './fake-proxy';
+
+/** Compiled module.ts, required by the test modules */
+const MODULE_PATH = path.join(__dirname, '..', 'src', 'module');
+
+/**
+ * Wait until a condition holds
+ * @param condition
+ * @param timeout Time to wait at most, in milliseconds
+ */
+async function waitFor(condition: () => boolean, timeout = 2000) {
+  let start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error('timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('module reloading', () => {
+  let dir: string;
+  let proxy: MinecraftProxy;
+  let messages: SentMessage[];
+  let events: string[];
+  let registry: ModuleRegistry;
+
+  /**
+   * Change the helper file of a test module, which holds its version
+   * @param name
+   * @param version
+   * @param broken Whether loading the module should fail
+   */
+  let writeHelper = (name: string, version: number, broken = false) => {
+    fs.writeFileSync(path.join(dir, name, 'helper.js'), `module.exports = ${JSON.stringify({ version, broken })};\n`);
+  };
+
+  /**
+   * Write a test module recording when it is loaded and unloaded, and import it
+   * @param name
+   * @param dependencies
+   */
+  let addModule = (name: string, dependencies: string[] = []) => {
+    fs.mkdirSync(path.join(dir, name));
+    writeHelper(name, 1);
+    fs.writeFileSync(path.join(dir, name, 'index.js'), [
+      `const { Module } = require(${JSON.stringify(MODULE_PATH)});`,
+      `const { version, broken } = require('./helper');`,
+      `class TestModule extends Module {`,
+      `  constructor(proxy) {`,
+      `    super(proxy);`,
+      `    this.name = ${JSON.stringify(name)};`,
+      `    this.dependencies = ${JSON.stringify(dependencies)};`,
+      `  }`,
+      `  async _load() {`,
+      `    if (broken) throw new Error('broken');`,
+      `    this.proxy.events.push(\`load \${this.name} \${version}\`);`,
+      `  }`,
+      `  async _unload() {`,
+      `    this.proxy.events.push(\`unload \${this.name} \${version}\`);`,
+      `  }`,
+      `}`,
+      `module.exports = TestModule;`
+    ].join('\n'));
+    return registry.importFromPath(path.join(dir, name))!;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcpi-modules-'));
+    events = [];
+    ({ proxy, messages } = createFakeProxy({ moduleConfig: {}, modulesDir: dir }, { events, coreModule: null }));
+    proxy.proxyClient = createClient('controller');
+    registry = new ModuleRegistry(proxy);
+    // failures are logged as errors, which are expected here
+    logger.silent = true;
+  });
+  afterEach(() => {
+    logger.silent = false;
+    for (let file of Object.keys(require.cache)) {
+      if (file.startsWith(dir)) delete require.cache[file];
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('reload', () => {
+    it('reloads loaded dependents after the module', async () => {
+      let a = addModule('a');
+      addModule('b', ['a']);
+      addModule('c', ['b']);
+      addModule('d', ['a']);
+      await registry.load('c');
+      events.length = 0;
+
+      writeHelper('a', 2);
+      assert.deepEqual(await registry.reload('a'), ['a', 'b', 'c']);
+      assert.deepEqual(events, ['unload c 1', 'unload b 1', 'unload a 1', 'load a 2', 'load b 1', 'load c 1']);
+      let newA = registry.modules.get('a')!;
+      assert.notEqual(newA, a);
+      assert.equal(a.current, newA);
+      assert.equal(newA.previous, a);
+      assert.equal(registry.modules.get('d')!.loaded, false);
+    });
+
+    it('picks up changes to files required by the module', async () => {
+      let a = addModule('a');
+      assert.deepEqual(registry.moduleFiles(a).sort(), [
+        path.join(dir, 'a', 'helper.js'),
+        path.join(dir, 'a', 'index.js')
+      ]);
+      await registry.load('a');
+      writeHelper('a', 2);
+      await registry.reload('a');
+      assert.deepEqual(events, ['load a 1', 'unload a 1', 'load a 2']);
+    });
+
+    it('loads the old instance again if the new one fails to load', async () => {
+      let a = addModule('a');
+      let b = addModule('b', ['a']);
+      await registry.load('b');
+      events.length = 0;
+
+      writeHelper('a', 2, true);
+      await assert.rejects(registry.reload('a'), /broken/);
+      assert.equal(registry.modules.get('a'), a);
+      assert.equal(registry.modules.get('b'), b);
+      assert.ok(a.loaded && b.loaded);
+      assert.deepEqual(events, ['unload b 1', 'unload a 1', 'load a 1', 'load b 1']);
+    });
+  });
+
+  describe('ModuleWatcher', () => {
+    let watcher: ModuleWatcher;
+    beforeEach(() => {
+      watcher = new ModuleWatcher(registry, 10);
+    });
+    afterEach(() => {
+      watcher.stop();
+    });
+
+    it('reloads modules when their files change', async () => {
+      addModule('a');
+      await registry.load('a');
+      await watcher.start();
+      writeHelper('a', 2);
+      await waitFor(() => messages.length > 0);
+      await watcher._reloading;
+      assert.deepEqual(messages, [{ client: proxy.proxyClient, text: '[proxy] Reloaded module [a]' }]);
+      assert.deepEqual(events, ['load a 1', 'unload a 1', 'load a 2']);
+    });
+
+    it('reloads every affected module once, dependencies first', async () => {
+      addModule('a');
+      addModule('b', ['a']);
+      addModule('c');
+      await registry.load('b');
+      await registry.load('c');
+      for (let module of registry.modules.values()) watcher._filesOf(module);
+      events.length = 0;
+
+      writeHelper('b', 2);
+      writeHelper('a', 2);
+      watcher.changed.add(path.join(dir, 'b', 'helper.js'));
+      watcher.changed.add(path.join(dir, 'a', 'helper.js'));
+      watcher._flush();
+      await watcher._reloading;
+      assert.deepEqual(events, ['unload b 1', 'unload a 1', 'load a 2', 'load b 2']);
+      assert.deepEqual(messages.map(message => message.text), ['[proxy] Reloaded modules [a], [b]']);
+    });
+
+    it('reports failed reloads and retries once the files are fixed', async () => {
+      addModule('a');
+      await registry.load('a');
+      for (let module of registry.modules.values()) watcher._filesOf(module);
+      let helper = path.join(dir, 'a', 'helper.js');
+
+      writeHelper('a', 2, true);
+      watcher.changed.add(helper);
+      watcher._flush();
+      await watcher._reloading;
+      assert.deepEqual(messages.map(message => message.text), ['[proxy] Failed to reload module [a]: broken']);
+      assert.equal(registry.modules.get('a')!.loaded, true);
+
+      writeHelper('a', 3);
+      watcher.changed.add(helper);
+      watcher._flush();
+      await watcher._reloading;
+      assert.equal(messages[1].text, '[proxy] Reloaded module [a]');
+      assert.deepEqual(events, ['load a 1', 'unload a 1', 'load a 1', 'unload a 1', 'load a 3']);
+    });
+  });
+});
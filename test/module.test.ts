@@ -0,0 +1,129 @@
+import { strict as assert } from 'assert';
+import { Module, ModuleRegistry, ModuleCycleError, ModuleDependencyError } from '../src/module';
+import type MinecraftProxy from '../src/proxy';
+
+/** Names of modules in the order they were loaded */
+let loadOrder: string[] = [];
+
+/** Module recording when it is loaded */
+class TestModule extends Module {
+  /**
+   * The constructor
+   * @param proxy
+   * @param name
+   * @param dependencies
+   * @param optionalDependencies
+   */
+  constructor(proxy: MinecraftProxy, name: string, dependencies: string[], optionalDependencies: string[]) {
+    super(proxy);
+    this.name = name;
+    this.dependencies = dependencies;
+    this.optionalDependencies = optionalDependencies;
+  }
+
+  async _load() {
+    loadOrder.push(this.name);
+  }
+
+  async _unload() {}
+}
+
+describe('ModuleRegistry', () => {
+  let registry: ModuleRegistry;
+  /**
+   * Add a module to the registry
+   * @param name
+   * @param dependencies
+   * @param optionalDependencies
+   */
+  let add = (name: string, dependencies: string[] = [], optionalDependencies: string[] = []) => {
+    let module = new TestModule(registry.proxy, name, dependencies, optionalDependencies);
+    registry.modules.set(name, module);
+    return module;
+  };
+  beforeEach(() => {
+    registry = new ModuleRegistry({ config: { moduleConfig: {} } } as unknown as MinecraftProxy);
+    loadOrder = [];
+  });
+
+  describe('resolveLoadOrder', () => {
+    it('puts dependencies first and includes hard dependencies', () => {
+      add('a', ['b', 'c']);
+      add('b', ['c']);
+      add('c');
+      add('d');
+      assert.deepEqual(registry.resolveLoadOrder(['a']), ['c', 'b', 'a']);
+      assert.deepEqual(registry.resolveLoadOrder(['d', 'a']), ['d', 'c', 'b', 'a']);
+    });
+
+    it('includes optional dependencies only if requested or loaded', () => {
+      add('a', [], ['b']);
+      let b = add('b');
+      assert.deepEqual(registry.resolveLoadOrder(['a']), ['a']);
+      assert.deepEqual(registry.resolveLoadOrder(['a', 'b']), ['b', 'a']);
+      b.loaded = true;
+      assert.deepEqual(registry.resolveLoadOrder(['a']), ['b', 'a']);
+    });
+
+    it('ignores optional dependencies that would form a cycle', () => {
+      add('a', ['b']);
+      add('b', [], ['a']);
+      assert.deepEqual(registry.resolveLoadOrder(['a', 'b']), ['b', 'a']);
+    });
+
+    it('throws ModuleCycleError on cycles of hard dependencies', () => {
+      add('a', ['b']);
+      add('b', ['c']);
+      add('c', ['a']);
+      assert.throws(() => registry.resolveLoadOrder(['a']), (err: any) => {
+        assert.ok(err instanceof ModuleCycleError);
+        assert.deepEqual(err.cycle, ['a', 'b', 'c', 'a']);
+        return true;
+      });
+    });
+
+    it('leaves out excluded modules', () => {
+      add('a', ['b']);
+      add('b');
+      add('c', ['b']);
+      assert.deepEqual(registry.resolveLoadOrder(['a', 'c'], new Set(['a'])), ['b', 'c']);
+    });
+  });
+
+  describe('load', () => {
+    it('loads dependencies first', async () => {
+      add('a', ['b'], ['c']);
+      add('b');
+      add('c');
+      await registry.load('a');
+      assert.deepEqual(loadOrder, ['b', 'a']);
+      await assert.rejects(registry.load('a'), /module is already loaded/);
+    });
+
+    it('reports missing dependencies before loading anything', async () => {
+      add('a', ['b']);
+      add('b', ['missing']);
+      await assert.rejects(registry.load('a'), (err: any) => {
+        assert.ok(err instanceof ModuleDependencyError);
+        assert.equal(err.module, 'b');
+        assert.equal(err.message, 'module [b]: missing dependency [missing]');
+        return true;
+      });
+      assert.deepEqual(loadOrder, []);
+    });
+  });
+
+  describe('loadAll', () => {
+    it('skips modules in cycles and modules depending on failed modules', async () => {
+      add('a', ['b']);
+      add('b', ['a']);
+      add('c', ['a']);
+      add('d');
+      let failed = await registry.loadAll(['a', 'b', 'c', 'd']);
+      assert.deepEqual(loadOrder, ['d']);
+      assert.deepEqual([...failed.keys()].sort(), ['a', 'b', 'c']);
+      assert.ok(failed.get('a') instanceof ModuleCycleError);
+      assert.ok(failed.get('c') instanceof ModuleDependencyError);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { strict as assert } from 'assert';
+import type mc from 'minecraft-protocol';
+import { ChatComponent, toPlainText } from '../src/chat';
+import {
+  paginate,
+  splitLines,
+  OutputStore,
+  MAX_PAGE_CHARACTERS,
+  MAX_OUTPUTS_PER_CLIENT,
+  OUTPUT_RETENTION
+} from '../src/pagination';
+
+/**
+ * Create text lines
+ * @param count
+ * @param length Characters per line
+ */
+function lines(count: number, length = 1): ChatComponent[] {
+  // not Array.from, the collections package replaces it with a version
+  // without a map function
+  let result: ChatComponent[] = [];
+  for (let i = 0; i < count; i++) result.push({ text: String(i).padEnd(length, '.') });
+  return result;
+}
+
+describe('paginate', () => {
+  it('splits lines into pages of the given size', () => {
+    let pages = paginate(lines(25), 10);
+    assert.deepEqual(pages.map(page => page.length), [10, 10, 5]);
+    assert.deepEqual(pages[2][0], { text: '20' });
+  });
+
+  it('starts a new page when a page gets too long', () => {
+    let pages = paginate(lines(3, MAX_PAGE_CHARACTERS / 2), 10);
+    assert.deepEqual(pages.map(page => page.length), [1, 1, 1]);
+  });
+
+  it('keeps a line longer than a page on its own page', () => {
+    let pages = paginate(lines(2, MAX_PAGE_CHARACTERS * 2), 10);
+    assert.deepEqual(pages.map(page => page.length), [1, 1]);
+  });
+
+  it('returns a single empty page for no lines', () => {
+    assert.deepEqual(paginate([]), [[]]);
+  });
+});
+
+describe('splitLines', () => {
+  it('splits strings on newlines and parses legacy codes', () => {
+    assert.deepEqual(splitLines(['a\n§cb', { text: 'c\nd' }]), [
+      { text: 'a' },
+      { text: 'b', color: 'red' },
+      { text: 'c\nd' }
+    ]);
+  });
+
+  it('splits lines longer than a page', () => {
+    let split = splitLines('x'.repeat(MAX_PAGE_CHARACTERS + 1));
+    assert.deepEqual(split.map(line => line.text!.length), [MAX_PAGE_CHARACTERS, 1]);
+  });
+});
+
+describe('OutputStore', () => {
+  let store: OutputStore;
+  let alice = { username: 'alice' } as mc.Client;
+  let bob = { username: 'bob' } as mc.Client;
+  beforeEach(() => {
+    store = new OutputStore();
+  });
+  afterEach(() => {
+    if (store.pruneTimer) clearInterval(store.pruneTimer);
+  });
+
+  it('keeps outputs by username', () => {
+    let output = store.add(alice, null, [[]]);
+    assert.equal(store.get(alice), output);
+    assert.equal(store.get({ username: 'alice' } as mc.Client, output.id), output);
+    assert.equal(store.get(bob), null);
+    assert.equal(store.get(bob, output.id), null);
+    assert.equal(store.get(null), null);
+  });
+
+  it('limits outputs per owner', () => {
+    let first = store.add(alice, null, [[]]);
+    let other = store.add(bob, null, [[]]);
+    for (let i = 0; i < MAX_OUTPUTS_PER_CLIENT; i++) store.add(alice, null, [[]]);
+    assert.equal(store.get(alice, first.id), null);
+    assert.equal(store.get(bob, other.id), other);
+  });
+
+  it('removes expired outputs and stops pruning when empty', () => {
+    let output = store.add(alice, null, [[]]);
+    assert.ok(store.pruneTimer);
+    output.createdAt -= OUTPUT_RETENTION + 1;
+    assert.equal(store.get(alice), null);
+    assert.equal(store.outputs.size, 0);
+    assert.equal(store.pruneTimer, null);
+  });
+
+  it('renders page controls', () => {
+    let output = store.add(alice, { text: 'Title' }, paginate(lines(3), 1));
+    let rendered = store.render(output, 1, '/');
+    assert.deepEqual(rendered.map(toPlainText), ['Title', '0', '« previous page 1/3 next »']);
+    let controls = rendered[2].extra as ChatComponent[];
+    assert.equal(controls[0].clickEvent, undefined);
+    assert.deepEqual(controls[2].clickEvent, { action: 'run_command', value: `/page 2 ${output.id}` });
+    assert.equal(store.render(output, 3, '/')[2].extra!.length, 3);
+  });
+
+  it('renders single pages without controls', () => {
+    let output = store.add(alice, null, [[{ text: 'only' }]]);
+    assert.deepEqual(store.render(output, 1, '/'), [{ text: 'only' }]);
+  });
+});
@@ -0,0 +1,176 @@
+import { strict as assert } from 'assert';
+import { Hooks, Direction, ReleaseFunction } from '../src/hook';
+import { PacketPipeline } from '../src/pipeline';
+import logger from '../src/logger';
+
+let delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('PacketPipeline', () => {
+  let hooks: Hooks;
+  let pipeline: PacketPipeline;
+  let forwarded: string[];
+  let dropped: string[];
+  beforeEach(() => {
+    hooks = new Hooks();
+    hooks.errorPolicy = { action: 'forward', maxErrors: 5, errorWindow: 60000, timeBudget: 0 };
+    forwarded = [];
+    dropped = [];
+    pipeline = new PacketPipeline(hooks, Direction.ServerToClient, {
+      forward: (_type, data) => forwarded.push(data.id),
+      drop: (_type, data) => dropped.push(data.id)
+    });
+  });
+
+  it('keeps arrival order when hooks take different amounts of time', async () => {
+    hooks.register(Direction.ServerToClient, 'chat', async event => {
+      await delay(event.data.wait);
+    });
+    await Promise.all([
+      pipeline.push('chat', { id: 'a', wait: 20 }),
+      pipeline.push('chat', { id: 'b', wait: 0 }),
+      pipeline.push('chat', { id: 'c', wait: 5 })
+    ]);
+    assert.deepEqual(forwarded, ['a', 'b', 'c']);
+    assert.equal(pipeline.metrics.forwarded, 3);
+    assert.equal(pipeline.metrics.maxDepth, 3);
+    assert.equal(pipeline.metrics.depth, 0);
+  });
+
+  it('drops cancelled packets', async () => {
+    hooks.register(Direction.ServerToClient, 'chat', async event => {
+      if (event.data.id === 'b') event.cancel();
+    });
+    await Promise.all([pipeline.push('chat', { id: 'a' }), pipeline.push('chat', { id: 'b' })]);
+    assert.deepEqual(forwarded, ['a']);
+    assert.deepEqual(dropped, ['b']);
+  });
+
+  it('holds later packets until a held packet is released', async () => {
+    let release: ReleaseFunction | null = null;
+    hooks.register(Direction.ServerToClient, 'chat', async event => {
+      if (event.data.id === 'a') release = event.hold();
+    });
+    let pushed = Promise.all([pipeline.push('chat', { id: 'a' }), pipeline.push('chat', { id: 'b' })]);
+    await delay(5);
+    assert.deepEqual(forwarded, []);
+    assert.equal(pipeline.metrics.held, 1);
+    release!();
+    await pushed;
+    assert.deepEqual(forwarded, ['a', 'b']);
+    assert.equal(pipeline.metrics.held, 0);
+  });
+
+  it('drops a held packet released with false', async () => {
+    hooks.register(Direction.ServerToClient, 'chat', async event => {
+      if (event.data.id === 'a') {
+        let release = event.hold();
+        setTimeout(() => release(false), 5);
+      }
+    });
+    await Promise.all([pipeline.push('chat', { id: 'a' }), pipeline.push('chat', { id: 'b' })]);
+    assert.deepEqual(forwarded, ['b']);
+    assert.deepEqual(dropped, ['a']);
+  });
+
+  it('lets later packets pass a deferred packet', async () => {
+    let release: ReleaseFunction | null = null;
+    hooks.register(Direction.ServerToClient, 'chat', async event => {
+      if (event.data.id === 'a') release = event.defer();
+    });
+    await Promise.all([pipeline.push('chat', { id: 'a' }), pipeline.push('chat', { id: 'b' })]);
+    assert.deepEqual(forwarded, ['b']);
+    assert.equal(pipeline.metrics.deferred, 1);
+    release!();
+    await delay(0);
+    assert.deepEqual(forwarded, ['b', 'a']);
+    assert.equal(pipeline.metrics.deferred, 0);
+  });
+
+  describe('time budget', () => {
+    // timeouts are logged as errors, which are expected here
+    before(() => {
+      logger.silent = true;
+    });
+    after(() => {
+      logger.silent = false;
+    });
+    beforeEach(() => {
+      hooks.errorPolicy.timeBudget = 10;
+      hooks.register(Direction.ServerToClient, 'chat', async event => {
+        if (event.data.id === 'held') event.hold();
+        if (event.data.id === 'deferred') event.defer();
+      });
+    });
+
+    it('forwards packets held for too long when the policy forwards', async () => {
+      await Promise.all([pipeline.push('chat', { id: 'held' }), pipeline.push('chat', { id: 'b' })]);
+      assert.deepEqual(forwarded, ['held', 'b']);
+      assert.equal(pipeline.metrics.held, 0);
+    });
+
+    it('drops packets held for too long when the policy drops', async () => {
+      hooks.errorPolicy.action = 'drop';
+      await Promise.all([pipeline.push('chat', { id: 'held' }), pipeline.push('chat', { id: 'b' })]);
+      assert.deepEqual(forwarded, ['b']);
+      assert.deepEqual(dropped, ['held']);
+    });
+
+    it('releases deferred packets after the time budget', async () => {
+      hooks.errorPolicy.action = 'drop';
+      await pipeline.push('chat', { id: 'deferred' });
+      assert.equal(pipeline.metrics.deferred, 1);
+      await delay(30);
+      assert.deepEqual(dropped, ['deferred']);
+      assert.equal(pipeline.metrics.deferred, 0);
+    });
+  });
+
+  describe('clear', () => {
+    it('drops waiting packets but finishes the current one', async () => {
+      let started!: () => void;
+      let running = new Promise<void>(resolve => started = resolve);
+      let finish!: () => void;
+      let blocked = new Promise<void>(resolve => finish = resolve);
+      hooks.register(Direction.ServerToClient, 'chat', async () => {
+        started();
+        await blocked;
+      });
+      let pushed = Promise.all([
+        pipeline.push('chat', { id: 'a' }),
+        pipeline.push('chat', { id: 'b' }),
+        pipeline.push('chat', { id: 'c' })
+      ]);
+      await running;
+      pipeline.clear();
+      finish();
+      await pushed;
+      // the packet being processed belongs to the old generation as well
+      assert.deepEqual(forwarded, []);
+      assert.deepEqual(dropped, []);
+      assert.equal(pipeline.metrics.depth, 0);
+
+      await pipeline.push('chat', { id: 'd' });
+      assert.deepEqual(forwarded, ['d']);
+    });
+
+    it('discards held and deferred packets released after clearing', async () => {
+      let releases: ReleaseFunction[] = [];
+      hooks.register(Direction.ServerToClient, 'chat', async event => {
+        if (event.data.id === 'deferred') releases.push(event.defer());
+        if (event.data.id === 'held') releases.push(event.hold());
+      });
+      let deferred = pipeline.push('chat', { id: 'deferred' });
+      let held = pipeline.push('chat', { id: 'held' });
+      await deferred;
+      await delay(1);
+      pipeline.clear();
+      for (let release of releases) release();
+      await held;
+      await delay(0);
+      assert.deepEqual(forwarded, []);
+      assert.deepEqual(dropped, []);
+      assert.equal(pipeline.metrics.held, 0);
+      assert.equal(pipeline.metrics.deferred, 0);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { strict as assert } from 'assert';
+import { Reconnector, ReconnectConfiguration, ReconnectAttempt } from '../src/reconnect';
+import type MinecraftProxy from '../src/proxy';
+
+/** Minimal stand-in for the proxy, recording executed hooks */
+function fakeProxy(reconnect: ReconnectConfiguration | null, allow = true) {
+  let hooks: [string, any][] = [];
+  let proxy = {
+    config: { reconnect },
+    connectClient: null,
+    connectServer() {},
+    hooks: {
+      async execute(_direction: any, type: string, data: any) {
+        hooks.push([type, data]);
+        return allow;
+      }
+    }
+  };
+  return { proxy: proxy as unknown as MinecraftProxy, hooks };
+}
+
+describe('Reconnector', () => {
+  let reconnector: Reconnector | null = null;
+  afterEach(() => reconnector?.reset());
+
+  it('backs off exponentially up to the maximum delay', async () => {
+    let { proxy } = fakeProxy({ initialDelay: 100, multiplier: 3, maxDelay: 1000, maxAttempts: 0 });
+    reconnector = new Reconnector(proxy);
+    let delays: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      let attempt: ReconnectAttempt | null = await reconnector.handleDisconnect('connection reset');
+      assert.ok(attempt);
+      assert.equal(attempt.attempt, i + 1);
+      delays.push(attempt.delay);
+    }
+    assert.deepEqual(delays, [100, 300, 900, 1000, 1000]);
+    assert.ok(reconnector.pending);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    let { proxy, hooks } = fakeProxy({ initialDelay: 10, maxAttempts: 2 });
+    reconnector = new Reconnector(proxy);
+    assert.ok(await reconnector.handleDisconnect('timed out'));
+    assert.ok(await reconnector.handleDisconnect('timed out'));
+    assert.equal(await reconnector.handleDisconnect('timed out'), null);
+    assert.equal(reconnector.attempts, 0);
+    assert.deepEqual(hooks[hooks.length - 1], ['serverReconnectFailed', { attempts: 2, reason: 'timed out' }]);
+  });
+
+  it('applies the first matching rule', async () => {
+    let { proxy } = fakeProxy({ initialDelay: 10 });
+    reconnector = new Reconnector(proxy);
+    assert.equal(await reconnector.handleDisconnect('You are BANNED from this server'), null);
+    let attempt = await reconnector.handleDisconnect('Connection throttled! Please wait');
+    assert.ok(attempt);
+    assert.equal(attempt.delay, 10 * 1000);
+  });
+
+  it('does not reconnect when disabled, expected or cancelled by a hook', async () => {
+    reconnector = new Reconnector(fakeProxy(null).proxy);
+    assert.equal(await reconnector.handleDisconnect('timed out'), null);
+
+    reconnector = new Reconnector(fakeProxy({}).proxy);
+    reconnector.expectDisconnect = true;
+    assert.equal(await reconnector.handleDisconnect('timed out'), null);
+    assert.equal(reconnector.expectDisconnect, false);
+
+    reconnector = new Reconnector(fakeProxy({}, false).proxy);
+    assert.equal(await reconnector.handleDisconnect('timed out'), null);
+    assert.equal(reconnector.pending, false);
+    assert.equal(reconnector.attempts, 0);
+  });
+});
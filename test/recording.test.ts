@@ -0,0 +1,135 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Direction } from '../src/hook';
+import logger from '../src/logger';
+import {
+  PacketRecorder,
+  RecordingReader,
+  RecordingFormatError,
+  RecordFlags,
+  RECORDING_FORMAT,
+  RECORDING_VERSION,
+  MAX_RECORDING_BACKLOG,
+  readRecording
+} from '../src/recording';
+
+describe('recordings', () => {
+  let dir: string;
+  let file: string;
+  let header = { minecraftVersion: '1.16.1', startTime: Date.now(), server: 'localhost:25565' };
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcpi-recording-'));
+    file = path.join(dir, 'test.ndjson.gz');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a recording with the given packets
+   * @param packets
+   */
+  async function writeRecording(packets: [Direction, string, any, RecordFlags?][]) {
+    let recorder = await PacketRecorder.open(file, header);
+    for (let [direction, name, data, flags] of packets) recorder.record(direction, name, data, flags);
+    await recorder.close();
+    return recorder;
+  }
+
+  it('reads back the header and packets that were recorded', async () => {
+    let recorder = await writeRecording([
+      [Direction.ServerToClient, 'login', { entityId: 1 }, RecordFlags.Snapshot],
+      [Direction.ClientToServer, 'chat', { message: 'hi' }],
+      [Direction.ClientToServer, 'chat', { message: '/secret' }, RecordFlags.Cancelled]
+    ]);
+    assert.equal(recorder.packetCount, 3);
+
+    let { header: read, packets } = await readRecording(file);
+    assert.deepEqual(read, { format: RECORDING_FORMAT, version: RECORDING_VERSION, ...header });
+    assert.deepEqual(packets.map(packet => [packet.direction, packet.name, packet.data, packet.flags]), [
+      [Direction.ServerToClient, 'login', { entityId: 1 }, RecordFlags.Snapshot],
+      [Direction.ClientToServer, 'chat', { message: 'hi' }, RecordFlags.None],
+      [Direction.ClientToServer, 'chat', { message: '/secret' }, RecordFlags.Cancelled]
+    ]);
+    for (let packet of packets) assert.ok(packet.time >= 0);
+  });
+
+  it('keeps buffers in packet data', async () => {
+    let chunk = Buffer.from([0, 1, 2, 254, 255]);
+    await writeRecording([[Direction.ServerToClient, 'map_chunk', { x: 1, chunkData: chunk, nested: [chunk] }]]);
+    let { packets } = await readRecording(file);
+    assert.ok(Buffer.isBuffer(packets[0].data.chunkData));
+    assert.deepEqual(packets[0].data.chunkData, chunk);
+    assert.deepEqual(packets[0].data.nested[0], chunk);
+  });
+
+  it('rejects files that are not recordings', async () => {
+    fs.writeFileSync(file, zlib.gzipSync(JSON.stringify({ format: 'something else' }) + '\n'));
+    await assert.rejects(RecordingReader.open(file), (err: any) => {
+      assert.ok(err instanceof RecordingFormatError);
+      assert.match(err.message, /not a recording/);
+      return true;
+    });
+    fs.writeFileSync(file, 'not gzip at all');
+    await assert.rejects(RecordingReader.open(file), RecordingFormatError);
+  });
+
+  it('rejects recordings of a newer version', async () => {
+    let newer = { format: RECORDING_FORMAT, version: RECORDING_VERSION + 1, ...header };
+    fs.writeFileSync(file, zlib.gzipSync(JSON.stringify(newer) + '\n'));
+    await assert.rejects(RecordingReader.open(file), /unsupported recording version/);
+  });
+
+  it('stops recording instead of buffering without limit', async () => {
+    let recorder = await PacketRecorder.open(file, header);
+    let errors: Error[] = [];
+    recorder.on('error', err => errors.push(err));
+    recorder.record(Direction.ServerToClient, 'chat', { message: 'x'.repeat(MAX_RECORDING_BACKLOG) });
+    assert.equal(recorder.closed, true);
+    assert.equal(recorder.packetCount, 0);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /fell more than \d+ bytes behind/);
+    recorder.record(Direction.ServerToClient, 'chat', { message: 'after' });
+    assert.equal(recorder.packetCount, 0);
+  });
+
+  describe('damaged recordings', () => {
+    // the damage is logged as a warning
+    before(() => {
+      logger.silent = true;
+    });
+    after(() => {
+      logger.silent = false;
+    });
+
+    it('reads the packets before a truncated gzip stream', async () => {
+      let packets: [Direction, string, any][] = [];
+      for (let i = 0; i < 100; i++) packets.push([Direction.ServerToClient, 'chat', { message: `message ${i}` }]);
+      await writeRecording(packets);
+      let contents = fs.readFileSync(file);
+      fs.writeFileSync(file, contents.slice(0, contents.length - 20));
+
+      let reader = await RecordingReader.open(file);
+      let read = [];
+      try {
+        for await (let record of reader) read.push(record);
+      } finally {
+        reader.close();
+      }
+      assert.ok(reader.truncated);
+      assert.ok(read.length > 0 && read.length <= 100);
+      for (let i = 0; i < read.length; i++) assert.equal(read[i].data.message, `message ${i}`);
+    });
+
+    it('stops at a partially written line', async () => {
+      let headerLine = JSON.stringify({ format: RECORDING_FORMAT, version: RECORDING_VERSION, ...header });
+      let line = JSON.stringify([0, Direction.ServerToClient, 0, 'chat', { message: 'complete' }]);
+      fs.writeFileSync(file, zlib.gzipSync(`${headerLine}\n${line}\n[5, 1, 0, "chat", {"mess`));
+      let { packets } = await readRecording(file);
+      assert.deepEqual(packets.map(packet => packet.data.message), ['complete']);
+    });
+  });
+});
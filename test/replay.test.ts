@@ -0,0 +1,121 @@
+import { strict as assert } from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Direction, Hooks } from '../src/hook';
+import { PacketRecorder, RecordFlags, RecordingFormatError } from '../src/recording';
+import { ReplaySession, parseReplayTime, formatReplayTime } from '../src/replay';
+import logger from '../src/logger';
+import type MinecraftProxy from '../src/proxy';
+
+describe('parseReplayTime', () => {
+  it('parses seconds and minutes:seconds', () => {
+    assert.equal(parseReplayTime('90'), 90000);
+    assert.equal(parseReplayTime('1:30'), 90000);
+    assert.equal(parseReplayTime('0:02.5'), 2500);
+  });
+
+  it('rejects empty and malformed times', () => {
+    for (let text of ['', ' ', ':', '1:', ':30', '1:2:3', 'abc', '1:x']) {
+      assert.equal(parseReplayTime(text), null, text);
+    }
+  });
+
+  it('formats times as minutes:seconds', () => {
+    assert.equal(formatReplayTime(0), '0:00');
+    assert.equal(formatReplayTime(90500), '1:30');
+  });
+});
+
+describe('ReplaySession', () => {
+  let dir: string;
+  let file: string;
+  let played: string[];
+  let resets: number;
+  let proxy: MinecraftProxy;
+  before(() => {
+    // loading logs the recording length
+    logger.silent = true;
+  });
+  after(() => {
+    logger.silent = false;
+  });
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcpi-replay-'));
+    file = path.join(dir, 'test.ndjson.gz');
+    played = [];
+    resets = 0;
+    proxy = {
+      config: { version: '1.16.1', commandPrefix: '/p:' },
+      hooks: new Hooks(),
+      clients: [],
+      worldState: {
+        reset: () => resets++
+      },
+      receiveServerPacket: async (_name: string, data: any) => {
+        played.push(data.id);
+      },
+      sendChat: () => {}
+    } as unknown as MinecraftProxy;
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Write a recording with server packets 1 to 3 at 0, 1 and 2 seconds */
+  async function writeRecording() {
+    let startTime = Date.now();
+    let recorder = await PacketRecorder.open(file, { minecraftVersion: '1.16.1', startTime, server: null });
+    let packets: [number, Direction, string, RecordFlags][] = [
+      [0, Direction.ServerToClient, '1', RecordFlags.Snapshot],
+      [500, Direction.ClientToServer, 'client', RecordFlags.None],
+      [800, Direction.ServerToClient, 'injected', RecordFlags.Injected],
+      [1000, Direction.ServerToClient, '2', RecordFlags.None],
+      [2000, Direction.ServerToClient, '3', RecordFlags.None]
+    ];
+    let now = Date.now;
+    try {
+      for (let [time, direction, id, flags] of packets) {
+        Date.now = () => startTime + time;
+        recorder.record(direction, 'chat', { id }, flags);
+      }
+    } finally {
+      Date.now = now;
+    }
+    await recorder.close();
+  }
+
+  it('reports unreadable recordings', async () => {
+    let session = new ReplaySession(proxy, path.join(dir, 'missing.ndjson.gz'));
+    await assert.rejects(session.load(), RecordingFormatError);
+    assert.equal(session.header, null);
+  });
+
+  it('only plays server packets that were not injected by the proxy', async () => {
+    await writeRecording();
+    let session = new ReplaySession(proxy, file);
+    await session.load();
+    assert.deepEqual(session.packets.map(packet => packet.data.id), ['1', '2', '3']);
+    assert.equal(session.duration, 2000);
+  });
+
+  it('plays packets up to the seek target and starts over when seeking backwards', async () => {
+    await writeRecording();
+    let session = new ReplaySession(proxy, file);
+    await assert.rejects(session.seek(0), /not started/);
+    await session.start();
+    session.pause();
+    await session.seek(1500);
+    assert.deepEqual(played, ['1', '2']);
+    assert.equal(session.currentTime, 1500);
+
+    let resetsBefore = resets;
+    await session.seek(500);
+    assert.deepEqual(played, ['1', '2', '1']);
+    assert.equal(resets, resetsBefore + 1);
+
+    await session.seek(10000);
+    assert.deepEqual(played, ['1', '2', '1', '2', '3']);
+    session.stop();
+  });
+});
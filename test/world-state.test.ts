@@ -0,0 +1,171 @@
+import { strict as assert } from 'assert';
+import { WorldState, Packet } from '../src/world-state';
+
+/**
+ * Get the names of packets
+ * @param packets
+ */
+function names(packets: Packet[]): string[] {
+  return packets.map(([name]) => name);
+}
+
+/**
+ * Get the data of all packets with a name
+ * @param packets
+ * @param name
+ */
+function find(packets: Packet[], name: string): any[] {
+  return packets.filter(packet => packet[0] === name).map(packet => packet[1]);
+}
+
+describe('WorldState', () => {
+  let state: WorldState;
+  let login = { entityId: 1, gameMode: 0, dimension: 'minecraft:overworld', worldName: 'minecraft:overworld' };
+  let chunk = (x: number, z: number) => ({ x, z, groundUp: true, bitMap: 0b11, chunkData: Buffer.alloc(4) });
+  beforeEach(() => {
+    state = new WorldState();
+  });
+
+  it('has no snapshot before login', () => {
+    state.update('map_chunk', chunk(0, 0));
+    assert.deepEqual(state.snapshot(), []);
+  });
+
+  it('replays the login sequence in vanilla order', () => {
+    state.update('login', login);
+    state.update('custom_payload', { channel: 'minecraft:brand', data: Buffer.from('vanilla') });
+    state.update('custom_payload', { channel: 'other:channel', data: Buffer.alloc(0) });
+    state.update('difficulty', { difficulty: 1 });
+    state.update('difficulty', { difficulty: 2 });
+    state.update('position', { x: 1, y: 64, z: 1, yaw: 0, pitch: 0, flags: 0, teleportId: 5 });
+    state.update('update_time', { age: [0, 1], time: [0, 100] });
+    state.update('map_chunk', chunk(0, 0));
+    let packets = state.snapshot({ teleportId: 99 });
+    assert.deepEqual(names(packets), [
+      'login', 'custom_payload', 'difficulty', 'position', 'map_chunk', 'update_time'
+    ]);
+    assert.equal(find(packets, 'custom_payload')[0].channel, 'minecraft:brand');
+    assert.deepEqual(find(packets, 'difficulty'), [{ difficulty: 2 }]);
+    assert.equal(find(packets, 'position')[0].teleportId, 99);
+  });
+
+  it('resolves relative positions and follows client movement', () => {
+    state.update('login', login);
+    state.update('position', { x: 10, y: 64, z: 10, yaw: 90, pitch: 0, flags: 0, teleportId: 1 });
+    state.update('position', { x: 1, y: 0, z: -1, yaw: 0, pitch: 0, flags: 0x01 | 0x02 | 0x04, teleportId: 2 });
+    assert.deepEqual(state.getPlayerPosition(), { x: 11, y: 64, z: 9, yaw: 0, pitch: 0 });
+    state.updateFromClient('position_look', { x: 20, y: 70, z: 20, yaw: 45, pitch: 10 });
+    assert.deepEqual(state.getPlayerPosition(), { x: 20, y: 70, z: 20, yaw: 45, pitch: 10 });
+    assert.equal(find(state.snapshot(), 'position')[0].flags, 0);
+  });
+
+  describe('chunks', () => {
+    beforeEach(() => {
+      state.update('login', login);
+    });
+
+    it('sends light before chunk data and forgets unloaded chunks', () => {
+      state.update('update_light', { chunkX: 0, chunkZ: 0 });
+      state.update('map_chunk', chunk(0, 0));
+      state.update('map_chunk', chunk(1, 0));
+      state.update('update_light', { chunkX: 5, chunkZ: 5 });
+      state.update('unload_chunk', { chunkX: 1, chunkZ: 0 });
+      let packets = state.snapshot();
+      assert.deepEqual(names(packets), ['login', 'update_light', 'map_chunk']);
+      assert.deepEqual(find(packets, 'map_chunk')[0], chunk(0, 0));
+    });
+
+    it('keeps only the latest state of changed blocks', () => {
+      state.update('map_chunk', chunk(0, 0));
+      state.update('block_change', { location: { x: 1, y: 2, z: 3 }, type: 10 });
+      state.update('block_change', { location: { x: 1, y: 2, z: 3 }, type: 11 });
+      state.update('multi_block_change', {
+        chunkX: 0,
+        chunkZ: 0,
+        records: [
+          { horizontalPos: (5 << 4) | 6, y: 7, blockId: 12 },
+          { horizontalPos: (1 << 4) | 3, y: 2, blockId: 13 }
+        ]
+      });
+      // changes to chunks that were never sent are ignored
+      state.update('block_change', { location: { x: 100, y: 2, z: 3 }, type: 1 });
+      let packets = state.snapshot();
+      assert.deepEqual(names(packets), ['login', 'map_chunk', 'multi_block_change']);
+      let changes = find(packets, 'multi_block_change')[0];
+      assert.equal(changes.chunkX, 0);
+      assert.equal(changes.chunkZ, 0);
+      let blocks = new Map<string, number>();
+      for (let { horizontalPos, y, blockId } of changes.records) {
+        blocks.set(`${horizontalPos >> 4},${y},${horizontalPos & 15}`, blockId);
+      }
+      assert.deepEqual([...blocks], [['1,2,3', 13], ['5,7,6', 12]]);
+    });
+
+    it('drops block changes replaced by a partial chunk update', () => {
+      state.update('map_chunk', chunk(0, 0));
+      state.update('block_change', { location: { x: 1, y: 2, z: 3 }, type: 10 });
+      state.update('block_change', { location: { x: 1, y: 20, z: 3 }, type: 11 });
+      let partial = { x: 0, z: 0, groundUp: false, bitMap: 0b1, chunkData: Buffer.alloc(2) };
+      state.update('map_chunk', partial);
+      let packets = state.snapshot();
+      assert.deepEqual(find(packets, 'map_chunk'), [chunk(0, 0), partial]);
+      let changes = find(packets, 'multi_block_change')[0];
+      assert.deepEqual(changes.records, [{ horizontalPos: (1 << 4) | 3, y: 20, blockId: 11 }]);
+    });
+
+    it('forgets the world on respawn', () => {
+      state.update('map_chunk', chunk(0, 0));
+      state.update('spawn_entity_living', { entityId: 2, type: 1, x: 0, y: 0, z: 0, yaw: 0, pitch: 0 });
+      state.update('respawn', { dimension: 'minecraft:the_nether', worldName: 'minecraft:the_nether', gamemode: 1 });
+      let packets = state.snapshot();
+      assert.deepEqual(names(packets), ['login']);
+      assert.equal(packets[0][1].worldName, 'minecraft:the_nether');
+      assert.equal(packets[0][1].gameMode, 1);
+    });
+  });
+
+  describe('entities', () => {
+    beforeEach(() => {
+      state.update('login', login);
+    });
+
+    it('spawns entities at their current position with their latest state', () => {
+      state.update('spawn_entity_living', { entityId: 2, type: 1, x: 0, y: 64, z: 0, yaw: 0, pitch: 0 });
+      state.update('rel_entity_move', { entityId: 2, dX: 4096, dY: 0, dZ: -8192 });
+      state.update('entity_look', { entityId: 2, yaw: 64, pitch: 8 });
+      state.update('entity_head_rotation', { entityId: 2, headYaw: 10 });
+      state.update('entity_head_rotation', { entityId: 2, headYaw: 20 });
+      state.update('entity_metadata', {
+        entityId: 2,
+        metadata: [{ key: 0, type: 0, value: 1 }, { key: 2, type: 0, value: 5 }]
+      });
+      state.update('entity_metadata', { entityId: 2, metadata: [{ key: 0, type: 0, value: 3 }] });
+      let packets = state.snapshot();
+      assert.deepEqual(names(packets), ['login', 'spawn_entity_living', 'entity_head_rotation', 'entity_metadata']);
+      assert.deepEqual(find(packets, 'spawn_entity_living')[0], {
+        entityId: 2, type: 1, x: 1, y: 64, z: -2, yaw: 64, pitch: 8
+      });
+      assert.deepEqual(find(packets, 'entity_head_rotation'), [{ entityId: 2, headYaw: 20 }]);
+      let metadata = find(packets, 'entity_metadata')[0].metadata;
+      assert.deepEqual(metadata.map((entry: any) => [entry.key, entry.value]).sort(), [[0, 3], [2, 5]]);
+    });
+
+    it('forgets destroyed entities and ignores updates of unknown ones', () => {
+      state.update('spawn_entity', { entityId: 2, x: 0, y: 0, z: 0 });
+      state.update('spawn_entity', { entityId: 3, x: 0, y: 0, z: 0 });
+      state.update('entity_destroy', { entityIds: [2] });
+      state.update('entity_teleport', { entityId: 2, x: 5, y: 5, z: 5 });
+      state.update('entity_head_rotation', { entityId: 4, headYaw: 1 });
+      let packets = state.snapshot();
+      assert.deepEqual(names(packets), ['login', 'spawn_entity']);
+      assert.equal(find(packets, 'spawn_entity')[0].entityId, 3);
+    });
+
+    it('does not change the recorded spawn packet', () => {
+      let spawn = { entityId: 2, x: 0, y: 0, z: 0 };
+      state.update('spawn_entity', spawn);
+      state.update('entity_teleport', { entityId: 2, x: 5, y: 5, z: 5 });
+      assert.deepEqual(spawn, { entityId: 2, x: 0, y: 0, z: 0 });
+    });
+  });
+});